@@ -8,6 +8,7 @@ import Dashboard from './components/Dashboard';
 import SetupTeamModal from './components/SetupTeamModal';
 import Logo from './components/Logo';
 import DebugOverlay from './components/DebugOverlay';
+import { INVITE_TOKEN_STORAGE_KEY, ACTIVE_TEAM_STORAGE_KEY } from './constants';
 
 const FullPageLoader: React.FC = () => (
   <div className="flex items-center justify-center h-screen bg-bg-primary">
@@ -23,19 +24,37 @@ const App: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [authView, setAuthView] = useState<'welcome' | 'auth'>('welcome');
   const [hasTeam, setHasTeam] = useState<boolean | null>(null);
+  // An invite link (?invite=<token>) is kept in localStorage so it survives the sign-up/sign-in round trip.
+  const [inviteToken, setInviteToken] = useState<string | null>(() => {
+    const fromUrl = new URLSearchParams(window.location.search).get('invite');
+    if (fromUrl) {
+      localStorage.setItem(INVITE_TOKEN_STORAGE_KEY, fromUrl);
+      window.history.replaceState(null, '', window.location.pathname);
+      return fromUrl;
+    }
+    return localStorage.getItem(INVITE_TOKEN_STORAGE_KEY);
+  });
+
+  const clearInviteToken = () => {
+    localStorage.removeItem(INVITE_TOKEN_STORAGE_KEY);
+    setInviteToken(null);
+  };
 
-  // Development helper: unregister any active service workers to avoid stale
-  // cached index.html or assets causing the app to appear stuck on an
-  // outdated loader. This runs once on mount in the browser.
+  // The service worker keeps the app shell available offline so queued edits can be made on
+  // patchy signal. In development it's unregistered instead, so a cached index.html or
+  // stale assets never hide local changes.
   useEffect(() => {
-    if (typeof navigator !== 'undefined' && 'serviceWorker' in navigator) {
-      navigator.serviceWorker.getRegistrations().then(registrations => {
-        registrations.forEach(reg => {
-          console.debug('[App] unregistering service worker', reg);
-          reg.unregister().catch(() => {});
-        });
-      }).catch(() => {});
+    if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+    if (import.meta.env.PROD) {
+      navigator.serviceWorker.register('/sw.js').catch(err => console.error('[App] service worker registration failed', err));
+      return;
     }
+    navigator.serviceWorker.getRegistrations().then(registrations => {
+      registrations.forEach(reg => {
+        console.debug('[App] unregistering service worker', reg);
+        reg.unregister().catch(() => {});
+      });
+    }).catch(() => {});
   }, []);
 
   const checkTeam = async (user_id: string) => {
@@ -155,8 +174,21 @@ const App: React.FC = () => {
     return <Auth />;
   }
   
-  if (hasTeam === false) {
-    return <SetupTeamModal session={session} onTeamCreated={() => setHasTeam(true)} />;
+  if (hasTeam === false || (hasTeam === true && inviteToken)) {
+    return (
+      <SetupTeamModal
+        session={session}
+        inviteToken={inviteToken}
+        hasTeam={hasTeam}
+        onTeamCreated={(teamId) => {
+          // Open the Dashboard on the team just created or joined
+          localStorage.setItem(ACTIVE_TEAM_STORAGE_KEY, teamId);
+          clearInviteToken();
+          setHasTeam(true);
+        }}
+        onSkip={clearInviteToken}
+      />
+    );
   }
 
   if (hasTeam === true) {
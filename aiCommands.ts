@@ -0,0 +1,408 @@
+import { Schema, Type } from '@google/genai';
+import { StockItem, Supplier, EditableStockItemKey, BinStockData, BinMovementDetails } from './types';
+import { findByName } from './fuzzyMatch';
+import { parseQuantity, unitFactor, baseUnitOf, pluralizeUnit } from './units';
+import { FIELD_LABELS } from './constants';
+import { Permission, permissionForField } from './permissions';
+
+export type AIAction = 'ADD' | 'UPDATE' | 'SET' | 'BIN_MOVE' | 'QUERY' | 'UNKNOWN';
+
+export const AI_ACTIONS: AIAction[] = ['ADD', 'UPDATE', 'SET', 'BIN_MOVE', 'QUERY', 'UNKNOWN'];
+
+const BIN_MOVEMENTS: BinMovementDetails['type'][] = ['sent', 'received', 'returned'];
+
+// The prompt calls the 'added_today' column 'added'.
+const AI_FIELDS: Record<string, EditableStockItemKey> = {
+  added: 'added_today',
+  packed: 'packed',
+  lost: 'lost',
+  alert_level: 'alert_level',
+};
+
+// A command once its parameters have been checked against the team's items. Quantities are in
+// base units unless `unit` says otherwise (ADD keeps the unit so the price stays per unit).
+export type AICommand =
+  | { action: 'ADD'; name: string; quantity: number; unit?: string; price: number; supplier: string | null }
+  | { action: 'UPDATE'; itemId: string; itemName: string; changes: { field: EditableStockItemKey; delta: number }[] }
+  | { action: 'SET'; itemId: string; itemName: string; field: EditableStockItemKey; value: number }
+  | { action: 'BIN_MOVE'; movement: BinMovementDetails['type']; quantity: number; binId: string; binName: string; partyName: string; transporter?: string; contents?: string }
+  | { action: 'QUERY'; answer: string }
+  | { action: 'UNKNOWN' };
+
+export interface ParsedAICommand {
+  command: AICommand;
+  reasoning: string;
+}
+
+// What commands are checked against. Bin data is null until it has loaded.
+export interface AICommandContext {
+  stockItems: StockItem[];
+  suppliers: Supplier[];
+  bins: BinStockData | null;
+}
+
+// Bin types bins can be moved in: the standard ones and the custom types inside the mixed
+// wood and mixed plastic columns. The mixed columns themselves only add those up.
+export const movableBinTypes = (bins: BinStockData | null): { id: string; name: string; group: string | null }[] => [
+  ...(bins?.binTypes || []).filter(b => b.category !== 'mixed').map(b => ({ id: b.id, name: b.name, group: null })),
+  ...(bins?.customBinTypes || []).map(b => ({ id: b.id, name: b.name, group: b.category === 'mixedWood' ? 'Mixed Wood' : 'Mixed Plastic' })),
+];
+
+// Who owes what, by bin type name, for questions like "how many ALG does Ziyard owe us".
+const binBalancesForPrompt = (bins: BinStockData | null) => {
+  const names = new Map(movableBinTypes(bins).map(b => [b.id, b.name]));
+  const named = (counts: BinStockData['owedToUs'][number]['bins']) =>
+    Object.fromEntries(Object.entries(counts).filter(([id, count]) => names.has(id) && Number(count) > 0).map(([id, count]) => [names.get(id)!, Number(count)]));
+  const parties = [...new Set([...(bins?.owedToUs || []), ...(bins?.weOwe || [])].map(p => p.name))];
+  return parties.map(name => ({
+    party: name,
+    owesUs: named(bins?.owedToUs.find(p => p.name === name)?.bins || {}),
+    weOweThem: named(bins?.weOwe.find(p => p.name === name)?.bins || {}),
+  }));
+};
+
+// What Gemini is asked to return. The SDK holds the model to this shape, so the reply is always
+// a bare JSON object; the values still need checking before anything is changed. The preview
+// sends the user's edits back through the same checks in this shape.
+export interface RawAICommand {
+  action?: unknown;
+  reasoning?: unknown;
+  name?: unknown;
+  quantity?: unknown;
+  unit?: unknown;
+  price?: unknown;
+  supplier?: unknown;
+  added?: unknown;
+  packed?: unknown;
+  lost?: unknown;
+  field?: unknown;
+  value?: unknown;
+  movement?: unknown;
+  bin?: unknown;
+  party?: unknown;
+  transporter?: unknown;
+  contents?: unknown;
+  answer?: unknown;
+}
+
+const COUNT_DESCRIPTION = 'Amount to add, as a number in the base unit or with one of the item\'s units, e.g. "50" or "2 pallets + 40".';
+
+const AI_ACTION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    action: { type: Type.STRING, enum: AI_ACTIONS },
+    reasoning: { type: Type.STRING, description: 'A brief explanation of why this action was chosen.' },
+    name: { type: Type.STRING, nullable: true, description: 'Item name, matching the inventory list where possible.' },
+    quantity: { type: Type.NUMBER, nullable: true, description: 'ADD: quantity received, in `unit` if given. BIN_MOVE: number of bins.' },
+    unit: { type: Type.STRING, nullable: true, description: 'ADD: one of the item\'s units when the quantity is not in its base unit.' },
+    price: { type: Type.NUMBER, nullable: true, description: 'ADD: price per unit (per `unit` if given).' },
+    supplier: { type: Type.STRING, nullable: true, description: 'ADD: supplier name when bought on credit.' },
+    added: { type: Type.STRING, nullable: true, description: `UPDATE: ${COUNT_DESCRIPTION}` },
+    packed: { type: Type.STRING, nullable: true, description: `UPDATE: ${COUNT_DESCRIPTION}` },
+    lost: { type: Type.STRING, nullable: true, description: `UPDATE: ${COUNT_DESCRIPTION}` },
+    field: { type: Type.STRING, nullable: true, enum: Object.keys(AI_FIELDS), description: 'SET: the value being corrected.' },
+    value: { type: Type.STRING, nullable: true, description: 'SET: the new total, written like an UPDATE amount.' },
+    movement: { type: Type.STRING, nullable: true, enum: BIN_MOVEMENTS, description: 'BIN_MOVE: sent to the party, received from them, or returned by them.' },
+    bin: { type: Type.STRING, nullable: true, description: 'BIN_MOVE: bin type name, matching the bin type list.' },
+    party: { type: Type.STRING, nullable: true, description: 'BIN_MOVE: who the bins went to or came from.' },
+    transporter: { type: Type.STRING, nullable: true, description: 'BIN_MOVE: the transporter, if named.' },
+    contents: { type: Type.STRING, nullable: true, description: 'BIN_MOVE: what was in the bins, if said.' },
+    answer: { type: Type.STRING, nullable: true, description: 'QUERY: a natural language answer.' },
+  },
+  required: ['action', 'reasoning'],
+  propertyOrdering: ['action', 'name', 'quantity', 'unit', 'price', 'supplier', 'added', 'packed', 'lost', 'field', 'value', 'movement', 'bin', 'party', 'transporter', 'contents', 'answer', 'reasoning'],
+};
+
+// One sentence can hold several actions; they come back in the order they were said.
+export const AI_COMMAND_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    actions: { type: Type.ARRAY, items: AI_ACTION_SCHEMA },
+  },
+  required: ['actions'],
+};
+
+export const buildCommandPrompt = (command: string, { stockItems, suppliers, bins }: AICommandContext): string => `The user provided the following command for their inventory management app: "${command}".
+Based on this command, determine the actions and their parameters. A command can hold several actions, e.g. "packed 200 1.8kg boxes, lost 4, and received 500 7kg boxes from Deons on credit"; return one action per change, in the order they were said.
+
+Available actions are:
+1. 'ADD': For receiving stock. Requires 'name', 'quantity' and 'price' (unit price). Set 'supplier' if it's bought on credit.
+2. 'UPDATE': For counting more stock against an item. Requires 'name', and one or more of 'added', 'packed', 'lost'.
+3. 'SET': For correcting a total, e.g. "packed is actually 40" or "alert level for 7kg boxes is 200". Requires 'name', 'field' and 'value'.
+4. 'BIN_MOVE': For bins sent to, received from or returned by a party. Requires 'movement', 'quantity', 'bin' and 'party'. Optional: 'transporter', 'contents'. Use one BIN_MOVE per bin type, even when several go to the same party.
+5. 'QUERY': For asking a question about the inventory or the bins. Put a natural language answer in 'answer'.
+6. 'UNKNOWN': If the command is unclear.
+
+For ADD/UPDATE/SET, the 'name' must be an exact match from the stock list if possible. If it's a new item, use the name provided.
+Items are counted in their 'base_unit' and may list other 'units' with a 'factor' (base units per unit). When the user gives a quantity in one of those units:
+- For ADD, keep 'quantity' in that unit, set 'unit' to the unit's name, and give 'price' per that unit.
+- For UPDATE and SET, write the amount with the unit, e.g. "2 pallets + 40". Plain numbers are in the base unit.
+Leave out parameters the action doesn't use.
+
+Here is the current inventory data:
+${JSON.stringify(stockItems.map(({ id, team_id, ...rest }) => rest), null, 2)}
+
+Here are the current suppliers:
+${JSON.stringify(suppliers.map(s => s.name), null, 2)}
+
+For BIN_MOVE, 'bin' must be one of these bin type names exactly, even when the user misspells it or uses a plural or short form (e.g. "chep plastics" is "CHEP Plastic"). Types in a 'group' are counted inside that mixed column; bins can't be moved as the mixed column itself:
+${JSON.stringify(movableBinTypes(bins).map(({ name, group }) => (group ? { name, group } : { name })), null, 2)}
+
+Use an existing party's exact name when the user means them. Here is what each party owes us and what we owe them, in bins per type:
+${JSON.stringify(binBalancesForPrompt(bins), null, 2)}
+
+Example for 'add 100 1.5kg boxes for 250 from deons on credit':
+{ "actions": [{ "action": "ADD", "name": "1.5kg Narjie boxes", "quantity": 100, "price": 2.50, "supplier": "Deons", "reasoning": "Identified 'add', the quantity, the unit price (250/100=2.50) and the supplier, and matched '1.5kg boxes' to the closest item name." }] }
+
+Example for 'received 2 pallets of 15kg outers for 2000 from deons on credit' (where '15kg Boxes outers' has a unit { "name": "pallet", "factor": 1500 }):
+{ "actions": [{ "action": "ADD", "name": "15kg Boxes outers", "quantity": 2, "unit": "pallet", "price": 1000, "supplier": "Deons", "reasoning": "Quantity is in pallets, a unit of this item, so price is per pallet (2000/2)." }] }
+
+Example for 'we packed 50 of the 1.8kg boxes and lost 5, and sent 20 chep plastic to Ziyard':
+{ "actions": [
+  { "action": "UPDATE", "name": "1.8kg Boxes", "packed": "50", "lost": "5", "reasoning": "Identified 'packed' and 'lost' and matched the item name." },
+  { "action": "BIN_MOVE", "movement": "sent", "quantity": 20, "bin": "CHEP Plastic", "party": "Ziyard", "reasoning": "Bins sent to a party." }
+] }
+
+Example for 'received 12 chep plastics and 4 ALGs back from ziyard via Bakkie Transport, full of naartjies':
+{ "actions": [
+  { "action": "BIN_MOVE", "movement": "returned", "quantity": 12, "bin": "CHEP Plastic", "party": "Ziyard", "transporter": "Bakkie Transport", "contents": "Naartjies", "reasoning": "Ziyard returned our bins; one action per bin type." },
+  { "action": "BIN_MOVE", "movement": "returned", "quantity": 4, "bin": "ALG", "party": "Ziyard", "transporter": "Bakkie Transport", "contents": "Naartjies", "reasoning": "Ziyard returned our bins; one action per bin type." }
+] }
+Use 'returned' when a party gives back bins they owe us, and 'received' when they send us bins of theirs.
+
+Example for 'how many ALG does Ziyard owe us?':
+{ "actions": [{ "action": "QUERY", "answer": "Ziyard owes us 20 ALG bins.", "reasoning": "Read Ziyard's ALG balance from the bin balances." }] }
+
+Example for 'what is the total value of groenkloof stock?':
+{ "actions": [{ "action": "QUERY", "answer": "The total stock value for items in the 'Groenkloof' category is R28,800.00.", "reasoning": "User is asking a question." }] }`;
+
+// For voice commands the browser couldn't transcribe itself. The names are listed so they come
+// back spelled the way the commands expect them.
+export const buildTranscriptionPrompt = ({ stockItems, suppliers, bins }: AICommandContext): string => `Transcribe this voice command from a packhouse floor. The speaker may use English, Afrikaans or a mix of both; keep the words in the language they were said in, but write all numbers as digits (e.g. "vyf en twintig" as 25).
+Spell these names as written here when they are said: ${JSON.stringify([...stockItems.map(i => i.name), ...suppliers.map(s => s.name), ...movableBinTypes(bins).map(b => b.name), ...new Set([...(bins?.owedToUs || []), ...(bins?.weOwe || [])].map(p => p.name))])}
+Reply with only the transcript, or nothing if no command was said.`;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const asText = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+// Existing items have to match by name; a near miss is reported rather than guessed at.
+const matchItem = (name: string, stockItems: StockItem[]): { item: StockItem } | { error: string } => {
+  if (!name) return { error: 'The command didn\'t name an item.' };
+  const result = findByName(name, stockItems);
+  if (result?.exact) return { item: result.match };
+  return { error: result ? `There's no item called "${name}". Did you mean ${result.match.name}?` : `There's no item called "${name}".` };
+};
+
+// Amounts come back as text so they can carry units ("2 pallets"); bare numbers are accepted too.
+const toBaseQuantity = (value: unknown, item: StockItem): { value: number } | { error: string } =>
+  isNumber(value) ? { value } : parseQuantity(asText(value), item);
+
+// Bin types are few and often said loosely, so a plural or a small typo is matched to the closest
+// type; the preview shows which one was picked.
+const matchBinType = (name: string, bins: BinStockData | null) => {
+  const types = movableBinTypes(bins);
+  for (const form of [name, name.replace(/s$/i, ''), name.replace(/es$/i, '')]) {
+    const exact = types.find(b => b.name.toLowerCase() === form.toLowerCase());
+    if (exact) return exact;
+  }
+  const close = findByName(name, types, Math.min(2, Math.floor(name.length / 4)));
+  return close ? close.match : null;
+};
+
+// The prompt's name for a field, e.g. 'added' for 'added_today'.
+export const aiFieldKey = (field: EditableStockItemKey): string =>
+  Object.keys(AI_FIELDS).find(key => AI_FIELDS[key] === field) || field;
+
+// Turns Gemini's reply into commands, or explains what was wrong with it. Nothing here changes
+// data, and one bad action rejects the lot, so a bad reply is never half-applied.
+export const parseAICommands = (text: string, context: AICommandContext): { commands: ParsedAICommand[] } | { error: string } => {
+  let raw: { actions?: unknown };
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { error: 'The assistant\'s reply couldn\'t be read.' };
+  }
+  if (!raw || typeof raw !== 'object' || !Array.isArray(raw.actions)) return { error: 'The assistant\'s reply couldn\'t be read.' };
+
+  const commands: ParsedAICommand[] = [];
+  for (const action of raw.actions as RawAICommand[]) {
+    const parsed = action && typeof action === 'object' ? validateAICommand(action, context) : { error: 'The assistant\'s reply couldn\'t be read.' };
+    if ('error' in parsed) return parsed;
+    commands.push(parsed);
+  }
+  return commands.length > 0 ? { commands } : { error: 'The assistant didn\'t find anything to do in that command.' };
+};
+
+export const validateAICommand = (raw: RawAICommand, { stockItems, bins }: AICommandContext): ParsedAICommand | { error: string } => {
+  const reasoning = asText(raw.reasoning);
+  const name = asText(raw.name);
+  switch (raw.action) {
+    case 'ADD': {
+      if (!name) return { error: 'The command didn\'t name an item to add.' };
+      if (!isNumber(raw.quantity) || raw.quantity <= 0) return { error: `Couldn't tell how many ${name} to add.` };
+      if (!isNumber(raw.price) || raw.price < 0) return { error: `Couldn't tell the price of ${name}.` };
+      const unit = asText(raw.unit) || undefined;
+      const existing = findByName(name, stockItems);
+      if (unit && unitFactor(existing?.exact ? existing.match : { base_unit: '', units: [] }, unit) === null) {
+        return { error: existing?.exact ? `"${unit}" isn't a unit of ${existing.match.name}.` : `${name} is a new item, so give its quantity in single units.` };
+      }
+      return { command: { action: 'ADD', name: existing?.exact ? existing.match.name : name, quantity: raw.quantity, unit, price: raw.price, supplier: asText(raw.supplier) || null }, reasoning };
+    }
+    case 'UPDATE': {
+      const matched = matchItem(name, stockItems);
+      if ('error' in matched) return matched;
+      const changes: { field: EditableStockItemKey; delta: number }[] = [];
+      for (const key of ['added', 'packed', 'lost'] as const) {
+        if (raw[key] === undefined || raw[key] === null || raw[key] === '') continue;
+        const field = AI_FIELDS[key];
+        const parsed = toBaseQuantity(raw[key], matched.item);
+        if ('error' in parsed) return { error: `${key.charAt(0).toUpperCase() + key.slice(1)} for ${matched.item.name}: ${parsed.error}` };
+        if (parsed.value !== 0) changes.push({ field, delta: parsed.value });
+      }
+      if (changes.length === 0) return { error: `The command didn't say what changed for ${matched.item.name}.` };
+      return { command: { action: 'UPDATE', itemId: matched.item.id, itemName: matched.item.name, changes }, reasoning };
+    }
+    case 'SET': {
+      const matched = matchItem(name, stockItems);
+      if ('error' in matched) return matched;
+      const field = AI_FIELDS[asText(raw.field)];
+      if (!field) return { error: `The command didn't say which value of ${matched.item.name} to set.` };
+      const parsed = toBaseQuantity(raw.value, matched.item);
+      if ('error' in parsed) return { error: `${matched.item.name}: ${parsed.error}` };
+      if (parsed.value < 0) return { error: `${matched.item.name} can't be set below zero.` };
+      return { command: { action: 'SET', itemId: matched.item.id, itemName: matched.item.name, field, value: parsed.value }, reasoning };
+    }
+    case 'BIN_MOVE': {
+      const movement = BIN_MOVEMENTS.find(m => m === raw.movement);
+      if (!movement) return { error: 'The command didn\'t say whether bins were sent, received or returned.' };
+      if (!isNumber(raw.quantity) || raw.quantity <= 0 || !Number.isInteger(raw.quantity)) return { error: 'Couldn\'t tell how many bins moved.' };
+      const binName = asText(raw.bin);
+      const bin = binName ? matchBinType(binName, bins) : null;
+      if (!bin) return { error: binName ? `There's no bin type called "${binName}".` : 'The command didn\'t name a bin type.' };
+      const partyName = asText(raw.party);
+      if (!partyName) return { error: `The command didn't say who the ${bin.name} bins ${movement === 'sent' ? 'went to' : 'came from'}.` };
+      return {
+        command: { action: 'BIN_MOVE', movement, quantity: raw.quantity, binId: bin.id, binName: bin.name, partyName, transporter: asText(raw.transporter) || undefined, contents: asText(raw.contents) || undefined },
+        reasoning,
+      };
+    }
+    case 'QUERY': {
+      const answer = asText(raw.answer);
+      return answer ? { command: { action: 'QUERY', answer }, reasoning } : { command: { action: 'UNKNOWN' }, reasoning };
+    }
+    case 'UNKNOWN':
+      return { command: { action: 'UNKNOWN' }, reasoning };
+    default:
+      return { error: 'The assistant replied with an action this app doesn\'t support.' };
+  }
+};
+
+// What a command will change, for the preview shown before it runs.
+export interface AICommandPreview {
+  title: string;
+  note: string | null; // e.g. "New item" when the command creates one
+  changes: { label: string; from: number; to: number }[];
+  valueChange: number | null; // Stock value gained or lost at the item's price; for ADD, what the stock cost
+  supplier: { name: string; isNew: boolean; balanceFrom: number; balanceTo: number } | null; // Credited on an ADD
+}
+
+// Packing and losses take stock away; everything else counted adds to it.
+const STOCK_SIGN: Partial<Record<EditableStockItemKey, number>> = { opening_stock: 1, added_today: 1, packed: -1, lost: -1 };
+
+// A party's balance of one bin type: positive when they owe us, negative when we owe them.
+export const partyBinBalance = (bins: BinStockData | null, partyName: string, binId: string): number | null => {
+  const lower = partyName.toLowerCase();
+  const owed = bins?.owedToUs.find(p => p.name.toLowerCase() === lower);
+  const owing = bins?.weOwe.find(p => p.name.toLowerCase() === lower);
+  if (!owed && !owing) return null;
+  return (owed?.bins[binId] || 0) - (owing?.bins[binId] || 0);
+};
+
+export const previewAICommand = (command: AICommand, { stockItems, suppliers, bins }: AICommandContext): AICommandPreview | null => {
+  switch (command.action) {
+    case 'ADD': {
+      const item = stockItems.find(i => i.name.toLowerCase() === command.name.toLowerCase()) || null;
+      const quantity = command.quantity * ((item && unitFactor(item, command.unit)) || 1);
+      const total = command.quantity * command.price;
+      const supplier = command.supplier ? suppliers.find(s => s.name.toLowerCase() === command.supplier!.toLowerCase()) || null : null;
+      return {
+        title: item ? item.name : command.name,
+        note: item ? null : 'New item',
+        changes: [{ label: FIELD_LABELS.added_today, from: item?.added_today || 0, to: (item?.added_today || 0) + quantity }],
+        valueChange: total,
+        supplier: command.supplier
+          ? { name: supplier ? supplier.name : command.supplier, isNew: !supplier, balanceFrom: supplier?.balance || 0, balanceTo: (supplier?.balance || 0) + total }
+          : null,
+      };
+    }
+    case 'UPDATE':
+    case 'SET': {
+      const item = stockItems.find(i => i.id === command.itemId);
+      if (!item) return null;
+      const changes = command.action === 'UPDATE'
+        ? command.changes.map(({ field, delta }) => ({ field, from: item[field], to: item[field] + delta }))
+        : [{ field: command.field, from: item[command.field], to: command.value }];
+      return {
+        title: item.name,
+        note: null,
+        changes: changes.map(({ field, from, to }) => ({ label: FIELD_LABELS[field], from, to })),
+        valueChange: changes.reduce((sum, change) => sum + (STOCK_SIGN[change.field] || 0) * (change.to - change.from) * item.price, 0),
+        supplier: null,
+      };
+    }
+    case 'BIN_MOVE': {
+      // Sent bins raise what the party owes us; received and returned bins lower it
+      const balance = partyBinBalance(bins, command.partyName, command.binId);
+      const delta = command.movement === 'sent' ? command.quantity : -command.quantity;
+      return {
+        title: `${command.binName} ${command.movement} ${command.movement === 'sent' ? 'to' : 'from'} ${command.partyName}`,
+        note: balance === null ? 'New party' : null,
+        changes: [{ label: `${command.partyName} owes us`, from: balance || 0, to: (balance || 0) + delta }],
+        valueChange: null,
+        supplier: null,
+      };
+    }
+    default:
+      return null;
+  }
+};
+
+// Permissions the signed-in member needs before the command can be saved.
+export const aiCommandPermissions = (command: AICommand): Permission[] => {
+  switch (command.action) {
+    case 'ADD': return ['stock.manage'];
+    case 'UPDATE': return command.changes.map(change => permissionForField(change.field));
+    case 'SET': return [permissionForField(command.field)];
+    case 'BIN_MOVE': return ['bins.move'];
+    default: return [];
+  }
+};
+
+// One action for apply_ai_batch, which saves a whole batch in a single transaction. Quantities and
+// costs are in base units; descriptions that don't depend on the saved values are written here.
+export const toBatchAction = ({ command, reasoning }: ParsedAICommand, stockItems: StockItem[], describeMovement: (command: Extract<AICommand, { action: 'BIN_MOVE' }>) => string): Record<string, unknown> | null => {
+  switch (command.action) {
+    case 'ADD': {
+      const item = stockItems.find(i => i.name.toLowerCase() === command.name.toLowerCase()) || null;
+      const factor = (item && unitFactor(item, command.unit)) || 1;
+      const quantity = command.quantity * factor;
+      const inUnit = factor !== 1 ? ` (${command.quantity} ${pluralizeUnit(command.unit!, command.quantity)})` : '';
+      return {
+        action: 'ADD', name: command.name, quantity, unit_cost: command.price / factor, supplier: command.supplier, reasoning,
+        description: `Added ${quantity} ${pluralizeUnit(baseUnitOf(item || {}), quantity)}${inUnit} of '${command.name}'${command.supplier ? ` via credit from ${command.supplier}` : ' via cash'}.`,
+      };
+    }
+    case 'UPDATE':
+      return { action: 'UPDATE', item_id: command.itemId, changes: command.changes.map(({ field, delta }) => ({ field, delta, label: FIELD_LABELS[field] })), reasoning };
+    case 'SET':
+      return { action: 'SET', item_id: command.itemId, field: command.field, value: command.value, label: FIELD_LABELS[command.field], reasoning };
+    case 'BIN_MOVE':
+      return {
+        action: 'BIN_MOVE', movement: command.movement, quantity: command.quantity, bin_id: command.binId, bin_name: command.binName,
+        party: command.partyName, transporter: command.transporter || null, contents: command.contents || null, reasoning,
+        description: describeMovement(command),
+      };
+    default:
+      return null;
+  }
+};
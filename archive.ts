@@ -0,0 +1,33 @@
+import { ArchiveKind, ArchivedRecords } from './types';
+import { Permission } from './permissions';
+
+export const EMPTY_ARCHIVE: ArchivedRecords = { items: [], suppliers: [], parties: [], binTypes: [] };
+
+export const ARCHIVE_KINDS: ArchiveKind[] = ['item', 'supplier', 'party', 'binType'];
+
+export const ARCHIVE_KIND_LABELS: Record<ArchiveKind, string> = {
+  item: 'Stock Items',
+  supplier: 'Suppliers',
+  party: 'Bin Parties',
+  binType: 'Bin Types',
+};
+
+export const ARCHIVE_TABLES: Record<ArchiveKind, string> = {
+  item: 'stock_items',
+  supplier: 'suppliers',
+  party: 'bin_parties',
+  binType: 'bin_types',
+};
+
+// Archiving and restoring need the same permission as managing the record.
+export const ARCHIVE_PERMISSIONS: Record<ArchiveKind, Permission> = {
+  item: 'stock.manage',
+  supplier: 'suppliers.manage',
+  party: 'bins.manage',
+  binType: 'bins.manage',
+};
+
+export const archivedOfKind = (archive: ArchivedRecords, kind: ArchiveKind): { id: string; name: string; archived_at: string }[] => {
+  const rows = kind === 'item' ? archive.items : kind === 'supplier' ? archive.suppliers : kind === 'party' ? archive.parties : archive.binTypes;
+  return rows.map(row => ({ id: row.id, name: row.name, archived_at: row.archived_at || '' }));
+};
@@ -0,0 +1,266 @@
+import React, { useState, useMemo } from 'react';
+import { AICommand, AICommandContext, ParsedAICommand, RawAICommand, aiFieldKey, validateAICommand, previewAICommand, movableBinTypes } from '../aiCommands';
+import { findByName } from '../fuzzyMatch';
+import { baseUnitOf } from '../units';
+import { FIELD_LABELS } from '../constants';
+import { X, Sparkles, Check, ArrowRight, Trash2 } from 'lucide-react';
+
+interface AICommandPreviewModalProps {
+  commands: ParsedAICommand[];
+  context: AICommandContext;
+  onConfirm: (commands: ParsedAICommand[]) => void;
+  onReject: () => void;
+}
+
+// Every editable parameter as text, so a half-typed number doesn't get lost mid-edit.
+type DraftKey = 'name' | 'quantity' | 'unit' | 'price' | 'supplier' | 'added' | 'packed' | 'lost' | 'field' | 'value' | 'movement' | 'bin' | 'party' | 'transporter' | 'contents';
+type Draft = Record<DraftKey, string>;
+
+// One previewed change. `heard` keeps the supplier or party name the assistant heard when it was matched to an existing one.
+interface Card {
+  key: number;
+  action: AICommand['action'];
+  reasoning: string;
+  draft: Draft;
+  heard: string | null;
+}
+
+const inputClass = 'w-full bg-bg-primary border border-border-primary rounded-md p-2 text-white focus:ring-2 focus:ring-accent-primary outline-none';
+const labelClass = 'text-sm font-medium text-text-secondary block mb-1';
+const formatRand = (value: number) => `R${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const EMPTY_DRAFT: Draft = { name: '', quantity: '', unit: '', price: '', supplier: '', added: '', packed: '', lost: '', field: '', value: '', movement: '', bin: '', party: '', transporter: '', contents: '' };
+
+const partiesOf = ({ bins }: AICommandContext) =>
+  [...new Set([...(bins?.owedToUs || []), ...(bins?.weOwe || [])].map(p => p.name))].map(name => ({ name }));
+
+// A supplier or party name the assistant got nearly right starts out as the closest existing one.
+const draftFrom = (command: AICommand, context: AICommandContext): Draft => {
+  switch (command.action) {
+    case 'ADD': {
+      const supplier = command.supplier ? findByName(command.supplier, context.suppliers) : null;
+      return { ...EMPTY_DRAFT, name: command.name, quantity: String(command.quantity), unit: command.unit || '', price: String(command.price), supplier: supplier ? supplier.match.name : command.supplier || '' };
+    }
+    case 'UPDATE':
+      return command.changes.reduce((draft, change) => ({ ...draft, [aiFieldKey(change.field)]: String(change.delta) }), { ...EMPTY_DRAFT, name: command.itemName });
+    case 'SET':
+      return { ...EMPTY_DRAFT, name: command.itemName, field: aiFieldKey(command.field), value: String(command.value) };
+    case 'BIN_MOVE': {
+      const party = findByName(command.partyName, partiesOf(context), 2);
+      return { ...EMPTY_DRAFT, movement: command.movement, quantity: String(command.quantity), bin: command.binName, party: party ? party.match.name : command.partyName, transporter: command.transporter || '', contents: command.contents || '' };
+    }
+    default:
+      return EMPTY_DRAFT;
+  }
+};
+
+const toRaw = (action: AICommand['action'], draft: Draft): RawAICommand => ({
+  ...draft,
+  action,
+  quantity: draft.quantity.trim() === '' ? undefined : Number(draft.quantity),
+  price: draft.price.trim() === '' ? undefined : Number(draft.price),
+});
+
+const cardsFrom = (commands: ParsedAICommand[], context: AICommandContext): Card[] =>
+  commands
+    .filter(({ command }) => command.action !== 'QUERY' && command.action !== 'UNKNOWN')
+    .map(({ command, reasoning }, index) => {
+      const draft = draftFrom(command, context);
+      const [heard, matched] = command.action === 'ADD' ? [command.supplier, draft.supplier] : command.action === 'BIN_MOVE' ? [command.partyName, draft.party] : [null, ''];
+      return { key: index, action: command.action, reasoning, draft, heard: heard && heard.toLowerCase() !== matched.toLowerCase() ? heard : null };
+    });
+
+const AICommandPreviewModal: React.FC<AICommandPreviewModalProps> = ({ commands, context, onConfirm, onReject }) => {
+  const { stockItems, suppliers, bins } = context;
+  const [cards, setCards] = useState<Card[]>(() => cardsFrom(commands, context));
+  const answers = commands.flatMap(({ command }) => command.action === 'QUERY' ? [command.answer] : []);
+  const partyNames = useMemo(() => partiesOf(context).map(p => p.name), [context]);
+  const binTypes = useMemo(() => movableBinTypes(bins), [bins]);
+
+  // Edits go back through the same checks as the assistant's reply
+  const checked = useMemo(() => cards.map(card => {
+    const validated = validateAICommand({ ...toRaw(card.action, card.draft), reasoning: card.reasoning }, context);
+    return { validated, preview: 'command' in validated ? previewAICommand(validated.command, context) : null };
+  }), [cards, context]);
+  const canConfirm = cards.length > 0 && checked.every(c => c.preview);
+
+  const setField = (key: number, field: DraftKey, value: string) =>
+    setCards(prev => prev.map(card => card.key === key ? { ...card, draft: { ...card.draft, [field]: value } } : card));
+  const removeCard = (key: number) => setCards(prev => prev.filter(card => card.key !== key));
+
+  const handleConfirm = () => {
+    if (!canConfirm) return;
+    onConfirm(checked.flatMap(({ validated }) => 'command' in validated ? [validated] : []));
+  };
+
+  const renderFields = (card: Card) => {
+    const { draft, key } = card;
+    const item = stockItems.find(i => i.name.toLowerCase() === draft.name.trim().toLowerCase()) || null;
+    const countInput = (field: 'added' | 'packed' | 'lost' | 'value', label: string) => (
+      <div key={field}>
+        <label className={labelClass}>{label}</label>
+        <input type="text" value={draft[field]} onChange={e => setField(key, field, e.target.value)} placeholder={item?.units?.length ? 'e.g., 2 pallets + 40' : '0'} className={inputClass} />
+      </div>
+    );
+
+    switch (card.action) {
+      case 'ADD':
+        return (
+          <div className="grid grid-cols-2 gap-3">
+            <div className="col-span-2">
+              <label className={labelClass}>Item</label>
+              <input type="text" list="ai-preview-items" value={draft.name} onChange={e => setField(key, 'name', e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Quantity</label>
+              <input type="number" min="0" step="any" value={draft.quantity} onChange={e => setField(key, 'quantity', e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Unit</label>
+              <select value={draft.unit} onChange={e => setField(key, 'unit', e.target.value)} disabled={!item?.units?.length} className={inputClass}>
+                <option value="">{item ? baseUnitOf(item) : 'unit'}</option>
+                {(item?.units || []).map(u => <option key={u.name} value={u.name}>{u.name} ({u.factor.toLocaleString()})</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Unit Price (R)</label>
+              <input type="number" min="0" step="any" value={draft.price} onChange={e => setField(key, 'price', e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Supplier (credit)</label>
+              <input type="text" list="ai-preview-suppliers" value={draft.supplier} onChange={e => setField(key, 'supplier', e.target.value)} placeholder="Cash purchase" className={inputClass} />
+              {card.heard && <p className="text-xs text-text-secondary mt-1">Heard "{card.heard}".</p>}
+            </div>
+          </div>
+        );
+      case 'UPDATE':
+      case 'SET':
+        return (
+          <div className="space-y-3">
+            <div>
+              <label className={labelClass}>Item</label>
+              <select value={item?.name || ''} onChange={e => setField(key, 'name', e.target.value)} className={inputClass}>
+                {!item && <option value="">Select an item...</option>}
+                {stockItems.map(i => <option key={i.id} value={i.name}>{i.name}</option>)}
+              </select>
+            </div>
+            {card.action === 'UPDATE' ? (
+              <div className="grid grid-cols-3 gap-3">
+                {countInput('added', `+ ${FIELD_LABELS.added_today}`)}
+                {countInput('packed', `+ ${FIELD_LABELS.packed}`)}
+                {countInput('lost', `+ ${FIELD_LABELS.lost}`)}
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className={labelClass}>Field</label>
+                  <select value={draft.field} onChange={e => setField(key, 'field', e.target.value)} className={inputClass}>
+                    {(['added_today', 'packed', 'lost', 'alert_level'] as const).map(field => <option key={field} value={aiFieldKey(field)}>{FIELD_LABELS[field]}</option>)}
+                  </select>
+                </div>
+                {countInput('value', 'New Total')}
+              </div>
+            )}
+          </div>
+        );
+      case 'BIN_MOVE':
+        return (
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Movement</label>
+              <select value={draft.movement} onChange={e => setField(key, 'movement', e.target.value)} className={inputClass}>
+                <option value="sent">Sent</option>
+                <option value="received">Received</option>
+                <option value="returned">Returned</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Bins</label>
+              <input type="number" min="1" step="1" value={draft.quantity} onChange={e => setField(key, 'quantity', e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Bin Type</label>
+              <select value={draft.bin} onChange={e => setField(key, 'bin', e.target.value)} className={inputClass}>
+                {!binTypes.some(b => b.name === draft.bin) && <option value="">Select...</option>}
+                {binTypes.map(b => <option key={b.id} value={b.name}>{b.group ? `${b.name} (${b.group})` : b.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Party</label>
+              <input type="text" list="ai-preview-parties" value={draft.party} onChange={e => setField(key, 'party', e.target.value)} className={inputClass} />
+              {card.heard && <p className="text-xs text-text-secondary mt-1">Heard "{card.heard}".</p>}
+            </div>
+            <div>
+              <label className={labelClass}>Transporter</label>
+              <input type="text" value={draft.transporter} onChange={e => setField(key, 'transporter', e.target.value)} placeholder="Optional" className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Contents</label>
+              <input type="text" value={draft.contents} onChange={e => setField(key, 'contents', e.target.value)} placeholder="Optional" className={inputClass} />
+            </div>
+          </div>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4" onClick={onReject}>
+      <div className="bg-bg-secondary rounded-lg shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col border border-border-primary animate-fade-in" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-4 border-b border-border-primary">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2"><Sparkles size={20} className="text-accent-secondary"/> Check Before Saving</h3>
+          <button onClick={onReject} className="text-text-secondary hover:text-white"><X size={20}/></button>
+        </div>
+        <div className="p-4 space-y-4 overflow-y-auto">
+          {answers.map((answer, index) => <p key={index} className="text-sm text-white bg-bg-primary rounded-md p-3">{answer}</p>)}
+          {cards.length > 1 && <p className="text-sm text-text-secondary">These {cards.length} changes are saved together: if one fails, none of them are saved.</p>}
+
+          {cards.map((card, index) => {
+            const { validated, preview } = checked[index];
+            return (
+              <div key={card.key} className="border border-border-primary rounded-lg p-3 space-y-3">
+                <div className="flex items-start justify-between gap-3">
+                  {card.reasoning ? <p className="text-sm text-text-secondary italic">"{card.reasoning}"</p> : <span/>}
+                  <button onClick={() => removeCard(card.key)} className="text-text-secondary hover:text-danger shrink-0" title="Leave this change out"><Trash2 size={16}/></button>
+                </div>
+                {renderFields(card)}
+                {preview ? (
+                  <div className="bg-bg-primary rounded-md p-3 space-y-1 text-sm">
+                    <p className="font-semibold text-white">{preview.title}{preview.note && <span className="ml-2 text-xs font-normal text-accent-secondary">{preview.note}</span>}</p>
+                    {preview.changes.map(change => (
+                      <p key={change.label} className="flex items-center gap-2 text-text-secondary">
+                        {change.label}: <span className="text-white">{change.from.toLocaleString()}</span><ArrowRight size={14}/><span className="text-white font-semibold">{change.to.toLocaleString()}</span>
+                      </p>
+                    ))}
+                    {preview.valueChange !== null && (card.action === 'ADD'
+                      ? <p className="text-text-secondary">Cost: <span className="text-white font-semibold">{formatRand(preview.valueChange)}</span></p>
+                      : preview.valueChange !== 0 && <p className="text-text-secondary">Stock value: <span className={`font-semibold ${preview.valueChange < 0 ? 'text-warning' : 'text-green-400'}`}>{preview.valueChange > 0 ? '+' : '−'}{formatRand(Math.abs(preview.valueChange))}</span></p>)}
+                    {preview.supplier && (
+                      <p className="flex items-center gap-2 text-text-secondary">
+                        Owed to {preview.supplier.name}{preview.supplier.isNew && <span className="text-xs text-accent-secondary">(new supplier)</span>}: <span className="text-white">{formatRand(preview.supplier.balanceFrom)}</span><ArrowRight size={14}/><span className="text-white font-semibold">{formatRand(preview.supplier.balanceTo)}</span>
+                      </p>
+                    )}
+                  </div>
+                ) : (
+                  <p className="text-sm text-danger">{'error' in validated ? validated.error : 'Nothing to save.'}</p>
+                )}
+              </div>
+            );
+          })}
+          {cards.length === 0 && answers.length === 0 && <p className="text-text-secondary text-center py-4">Nothing left to save.</p>}
+
+          <datalist id="ai-preview-items">{stockItems.map(i => <option key={i.id} value={i.name}/>)}</datalist>
+          <datalist id="ai-preview-suppliers">{suppliers.map(s => <option key={s.id} value={s.name}/>)}</datalist>
+          <datalist id="ai-preview-parties">{partyNames.map(name => <option key={name} value={name}/>)}</datalist>
+        </div>
+        <div className="bg-bg-primary px-6 py-3 flex justify-end gap-3 rounded-b-lg">
+          <button onClick={onReject} className="px-4 py-2 rounded-md bg-border-primary hover:bg-gray-700 text-white font-semibold">Reject</button>
+          <button onClick={handleConfirm} disabled={!canConfirm} className="px-4 py-2 rounded-md bg-accent-primary hover:bg-purple-700 text-white font-semibold flex items-center gap-2 disabled:bg-border-primary disabled:cursor-not-allowed"><Check size={16}/> {cards.length > 1 ? `Confirm All (${cards.length})` : 'Confirm'}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AICommandPreviewModal;
@@ -1,21 +1,31 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { BinStockData, BinTypeName, BinCounts, BinParty, CustomBinType, BinTypeDefinition, BinHistoryEntry } from '../types';
-import { PlusCircle, Trash2, Calendar, Save, Palette, X, Search, Send, Loader, History } from 'lucide-react';
+import { BinStockData, BinStatusKey, BinMovementDetails, BinTypeName, BinCounts, BinParty, CustomBinType, BinTypeDefinition, BinHistoryEntry } from '../types';
+import { PlusCircle, Archive, Calendar, Save, Palette, X, Search, Send, Loader, History, Undo2 } from 'lucide-react';
+import { Permission } from '../permissions';
+import { SyncState } from '../offlineQueue';
+import SyncBadge from './SyncBadge';
+import VoiceCommand from './VoiceCommand';
+import { localDateKey } from '../dates';
 
 interface BinStockPageProps {
   data: BinStockData;
+  can: (permission: Permission) => boolean;
+  syncStates?: Record<string, SyncState>; // Keyed by 'status:<key>' and 'party:<lowercase name>'
   onCommand: (command: string) => void;
+  onTranscribeAudio?: (audio: Blob) => Promise<string | null>; // Voice commands where the browser can't recognise speech
   isLoading: boolean;
-  onBinMovement: (details: { type: 'sent' | 'received' | 'returned', quantity: number, binId: string, partyName: string, transporter?: string, binContents?: string }) => void;
+  onBinMovement: (details: BinMovementDetails) => void;
   onDirectEdit: (details: { partyId: string, binId: string, newValue: number }) => void;
   setConfirmationRequest: (request: { title: string; message: React.ReactNode; onConfirm: () => void; } | null) => void;
   onAddBinType: (details: { name: string; color: string; category: 'standard' | 'mixed'; sub_category?: 'mixedWood' | 'mixedPlastic' }) => void;
-  onRemoveBinType: (binId: string) => void;
+  onArchiveBinType: (binId: string) => void;
   onUpdateBinColor: (binId: string, color: string) => void;
   onAddParty: (partyName: string) => void;
-  onRemoveParty: (partyId: string, partyName: string) => void;
+  onArchiveParty: (partyId: string, partyName: string) => void;
   onUpdateNotes: (notes: string) => void;
-  onUpdateStatusCount: (statusKey: keyof BinStockData['statuses'], binId: string, newValue: number) => void;
+  onUpdateStatusCount: (statusKey: BinStatusKey, binId: string, newValue: number) => void;
+  canUndo: (entry: BinHistoryEntry) => boolean;
+  onUndo: (entryId: string) => Promise<void>;
 }
 
 
@@ -32,7 +42,7 @@ export const BIN_TYPE_NAMES: Record<BinTypeName, string> = {
 
 const COLOR_PALETTE = ['#10B981', '#3B82F6', '#F97316', '#EC4899', '#8B5CF6', '#F59E0B', '#6366F1', '#EF4444', '#14b8a6', '#06b6d4', '#0ea5e9', '#f43f5e', '#d946ef', '#84cc16', '#eab308', '#64748b'];
 
-const STATUS_ROWS: { key: keyof BinStockData['statuses']; label: string, editable: boolean }[] = [
+export const STATUS_ROWS: { key: BinStatusKey; label: string, editable: boolean }[] = [
     { key: 'total', label: 'Total', editable: false },
     { key: 'full', label: 'Full', editable: true },
     { key: 'inFridge', label: 'In Fridge', editable: true },
@@ -45,8 +55,10 @@ const CommandBar: React.FC<{
     searchTerm: string;
     setSearchTerm: (value: string) => void;
     onSubmit: (e: React.FormEvent) => void;
+    onVoiceCommand: (command: string) => void;
+    onTranscribeAudio?: (audio: Blob) => Promise<string | null>;
     isLoading: boolean; 
-}> = ({ searchTerm, setSearchTerm, onSubmit, isLoading }) => {
+}> = ({ searchTerm, setSearchTerm, onSubmit, onVoiceCommand, onTranscribeAudio, isLoading }) => {
     return (
         <div className="mb-3">
             <form onSubmit={onSubmit} className="relative">
@@ -55,10 +67,11 @@ const CommandBar: React.FC<{
                     type="text"
                     value={searchTerm}
                     onChange={(e) => setSearchTerm(e.target.value)}
-                    placeholder="Search party or ask AI... e.g., 'send 5 chep plastic to Ziyard'"
-                    className="w-full bg-bg-secondary border border-border-primary rounded-md pl-10 pr-14 py-2 text-white placeholder-text-secondary focus:ring-2 focus:ring-accent-primary outline-none"
+                    placeholder="Search party or ask AI... e.g., 'sent 5 chep plastics and 3 ALG to Ziyard'"
+                    className="w-full bg-bg-secondary border border-border-primary rounded-md pl-10 pr-32 py-2 text-white placeholder-text-secondary focus:ring-2 focus:ring-accent-primary outline-none"
                     disabled={isLoading}
                 />
+                <VoiceCommand onCommand={onVoiceCommand} onTranscribeAudio={onTranscribeAudio} disabled={isLoading} className="absolute right-10 top-1/2 -translate-y-1/2" />
                 <button type="submit" title="Send Command" className="absolute right-1.5 top-1/2 -translate-y-1/2 flex items-center justify-center bg-accent-primary hover:bg-purple-700 text-white font-semibold p-1.5 rounded-md transition-colors disabled:bg-border-primary disabled:cursor-not-allowed" disabled={isLoading || !searchTerm.trim()}>
                     {isLoading ? <Loader size={18} className="animate-spin" /> : <Send size={18} />}
                 </button>
@@ -143,7 +156,7 @@ const MixedBinCellDisplay: React.FC<{ category: 'mixedWood' | 'mixedPlastic'; bi
 
 
 // --- MAIN COMPONENT ---
-const BinStockPage: React.FC<BinStockPageProps> = ({ data, onCommand, isLoading, onBinMovement, onDirectEdit, setConfirmationRequest, onAddBinType, onRemoveBinType, onUpdateBinColor, onAddParty, onRemoveParty, onUpdateNotes, onUpdateStatusCount }) => {
+const BinStockPage: React.FC<BinStockPageProps> = ({ data, can, syncStates, onCommand, onTranscribeAudio, isLoading, onBinMovement, onDirectEdit, setConfirmationRequest, onAddBinType, onArchiveBinType, onUpdateBinColor, onAddParty, onArchiveParty, onUpdateNotes, onUpdateStatusCount, canUndo, onUndo }) => {
   const [newMovement, setNewMovement] = useState({ type: 'sent' as 'sent'|'received'|'returned', quantity: '' as number | '', binId: '', partyName: '', transporter: '', binContents: '' });
   const [modal, setModal] = useState<'addParty' | 'addStandardBin' | 'addMixedBin' | 'editColor' | 'breakdown' | 'history' | null>(null);
   const [modalConfig, setModalConfig] = useState<any>({});
@@ -153,6 +166,8 @@ const BinStockPage: React.FC<BinStockPageProps> = ({ data, onCommand, isLoading,
   const [breakdownData, setBreakdownData] = useState<BinCounts | null>(null);
   const [notes, setNotes] = useState(data.notes);
   const [searchTerm, setSearchTerm] = useState('');
+  const [undoingId, setUndoingId] = useState<string | null>(null);
+  const canManageBins = can('bins.manage');
   
   const notesTimeoutRef = useRef<number | null>(null);
   
@@ -202,8 +217,8 @@ const BinStockPage: React.FC<BinStockPageProps> = ({ data, onCommand, isLoading,
     setNewItemName('');
   };
   
-  const handleRemoveParty = (partyId: string, partyName: string) => {
-    onRemoveParty(partyId, partyName);
+  const handleArchiveParty = (partyId: string, partyName: string) => {
+    onArchiveParty(partyId, partyName);
   };
 
   const handleAddStandardBinType = () => {
@@ -234,8 +249,15 @@ const BinStockPage: React.FC<BinStockPageProps> = ({ data, onCommand, isLoading,
     setNewMixedBinSubCategory('mixedWood');
   };
 
-  const handleRemoveBinType = (binIdToRemove: string) => {
-    onRemoveBinType(binIdToRemove);
+  const handleArchiveBinType = (binIdToArchive: string, binName: string) => {
+    setConfirmationRequest({
+      title: `Archive ${binName}?`,
+      message: `${binName} will be hidden from the bin tables. Its history is kept, and you can restore it from Settings > Archive.`,
+      onConfirm: () => {
+        setConfirmationRequest(null);
+        onArchiveBinType(binIdToArchive);
+      },
+    });
   };
 
   const handleUpdateBinColor = () => {
@@ -339,6 +361,9 @@ const BinStockPage: React.FC<BinStockPageProps> = ({ data, onCommand, isLoading,
   const standardBins = useMemo(() => calculatedData.binTypes.filter((b:any) => b.category === 'standard'), [calculatedData.binTypes]);
   const mixedBins = useMemo(() => calculatedData.binTypes.filter((b:any) => b.category === 'mixed'), [calculatedData.binTypes]);
 
+  // Undone movements and the undos themselves cancel out, so neither is listed
+  const reversals = useMemo(() => new Map(data.history.filter(entry => entry.reversalOf).map(entry => [entry.reversalOf!, entry])), [data.history]);
+
   const todaysMovements = useMemo(() => {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
@@ -346,7 +371,7 @@ const BinStockPage: React.FC<BinStockPageProps> = ({ data, onCommand, isLoading,
     const movements = data.history
       .filter(entry => {
         const entryDate = new Date(entry.timestamp);
-        return entry.type === 'movement' && entryDate >= today && entry.details;
+        return entry.type === 'movement' && entryDate >= today && entry.details && !entry.reversalOf && !reversals.has(entry.id);
       });
       
     const sent = movements.filter(m => m.details?.movementType === 'sent');
@@ -354,7 +379,13 @@ const BinStockPage: React.FC<BinStockPageProps> = ({ data, onCommand, isLoading,
     const returned = movements.filter(m => m.details?.movementType === 'returned');
     
     return { sent, received, returned };
-  }, [data.history]);
+  }, [data.history, reversals]);
+
+  const handleUndo = async (entryId: string) => {
+    setUndoingId(entryId);
+    await onUndo(entryId);
+    setUndoingId(null);
+  };
 
 
   // --- RENDER ---
@@ -368,16 +399,18 @@ const BinStockPage: React.FC<BinStockPageProps> = ({ data, onCommand, isLoading,
             <div className="relative z-10 flex items-center justify-center gap-2 mb-1 flex-grow">
               <span className="font-bold text-white text-sm text-center leading-tight uppercase">{bin.name}</span>
             </div>
+            {canManageBins && (
             <div className="relative z-10 flex items-center gap-2 mt-auto text-text-secondary">
               <button onClick={() => { setModal('editColor'); setModalConfig({ binId: bin.id }); setSelectedColor(bin.color); }} className="hover:text-white" title="Edit Color"><Palette size={12}/></button>
               {!bin.isDefault && (
-                <button onClick={() => handleRemoveBinType(bin.id)} className="hover:text-danger" title="Delete Bin Type"><Trash2 size={12}/></button>
+                <button onClick={() => handleArchiveBinType(bin.id, bin.name)} className="hover:text-danger" title="Archive Bin Type"><Archive size={12}/></button>
               )}
             </div>
+            )}
           </div>
         </th>
       ))}
-      {addAction && (
+      {addAction && canManageBins && (
         <th className="p-0 w-24 align-top">
            <div className="h-20 bg-bg-primary flex justify-center items-center p-2 border-b-2 border-border-primary">
              <button onClick={addAction} className="flex flex-col items-center text-accent-primary hover:text-purple-400" title="Add New Bin Type">
@@ -407,7 +440,7 @@ const BinStockPage: React.FC<BinStockPageProps> = ({ data, onCommand, isLoading,
       }
       return (
         <td key={bin.id} className="p-0 w-36 h-14">
-          <EditableBinCell editable={row.editable} isTotal={row.key === 'total'} value={targetBins[bin.id]} onChange={(newValue) => handleStatusBinChange(row.key, bin.id, newValue)}/>
+          <EditableBinCell editable={row.editable && canManageBins} isTotal={row.key === 'total'} value={targetBins[bin.id]} onChange={(newValue) => handleStatusBinChange(row.key, bin.id, newValue)}/>
         </td>
       );
     })
@@ -427,7 +460,7 @@ const BinStockPage: React.FC<BinStockPageProps> = ({ data, onCommand, isLoading,
       }
       return (
         <td key={`${party.id}-${bin.id}`} className="p-0 w-36 h-14">
-          <EditableBinCell editable={true} value={party.bins[bin.id]} onChange={(newValue) => handlePartyBinChange(party.id, bin.id, newValue)}/>
+          <EditableBinCell editable={canManageBins} value={party.bins[bin.id]} onChange={(newValue) => handlePartyBinChange(party.id, bin.id, newValue)}/>
         </td>
       );
     })
@@ -515,47 +548,60 @@ const BinStockPage: React.FC<BinStockPageProps> = ({ data, onCommand, isLoading,
                         </p>
                     )}
                 </div>
-                <div className="flex justify-end pt-2 border-t border-border-primary mt-4">
+                {canManageBins && <div className="flex justify-end pt-2 border-t border-border-primary mt-4">
                     <button onClick={handleBreakdownSave} className="px-4 py-2 rounded-md bg-accent-primary hover:bg-purple-700 text-white font-semibold">
                         Save Breakdown
                     </button>
-                </div>
+                </div>}
             </div>
         ) : (
             <p>Loading breakdown data...</p>
         )}
       </ModalWrapper>}
-      {modal === 'history' && <ModalWrapper title="Bin History Log" onClose={() => setModal(null)} size="xl"><div className="max-h-[70vh] overflow-y-auto"><table className="w-full text-left text-sm text-text-primary"><thead className="bg-bg-primary sticky top-0"><tr><th className="p-2">Timestamp</th><th className="p-2">Type</th><th className="p-2">Change</th><th className="p-2">Details</th></tr></thead><tbody>{data.history.map(entry => (<tr key={entry.id} className="border-b border-border-primary"><td className="p-2 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td><td className="p-2"><span className="text-xs bg-border-primary px-2 py-0.5 rounded-full">{entry.type}</span></td><td className="p-2">{entry.change}</td><td className="p-2 text-xs text-text-secondary">{entry.details ? Object.entries(entry.details).map(([key, value]) => `${key}: ${value}`).join(', ') : ''}</td></tr>))}</tbody></table></div></ModalWrapper>}
+      {modal === 'history' && <ModalWrapper title="Bin History Log" onClose={() => setModal(null)} size="xl"><div className="max-h-[70vh] overflow-y-auto"><table className="w-full text-left text-sm text-text-primary"><thead className="bg-bg-primary sticky top-0"><tr><th className="p-2">Timestamp</th><th className="p-2">Type</th><th className="p-2">Change</th><th className="p-2">Details</th><th className="p-2"></th></tr></thead><tbody>{data.history.map(entry => (
+        <tr key={entry.id} className={`border-b border-border-primary ${reversals.has(entry.id) ? 'text-text-secondary' : ''}`}>
+          <td className="p-2 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+          <td className="p-2"><span className="text-xs bg-border-primary px-2 py-0.5 rounded-full">{entry.reversalOf ? 'undo' : entry.type}</span></td>
+          <td className="p-2">
+            {entry.change}
+            {reversals.has(entry.id) && <p className="text-xs text-text-secondary mt-0.5">Undone {new Date(reversals.get(entry.id)!.timestamp).toLocaleString()}</p>}
+          </td>
+          <td className="p-2 text-xs text-text-secondary">{entry.details ? Object.entries(entry.details).filter(([key, value]) => !key.endsWith('Id') && typeof value !== 'object').map(([key, value]) => `${key}: ${value}`).join(', ') : ''}</td>
+          <td className="p-2 text-right">{canUndo(entry) && <button onClick={() => handleUndo(entry.id)} disabled={undoingId !== null} className="flex items-center gap-1 text-xs px-2 py-1 rounded-md bg-border-primary hover:bg-gray-700 text-white font-semibold disabled:opacity-50 ml-auto" title="Undo this change">{undoingId === entry.id ? <Loader size={14} className="animate-spin"/> : <Undo2 size={14}/>} Undo</button>}</td>
+        </tr>
+      ))}</tbody></table></div></ModalWrapper>}
 
       {/* Header & AI */}
-      <div className="flex flex-wrap justify-between items-center gap-2"><h2 className="text-2xl font-bold text-white">Bin Stock Take</h2><div className="flex items-center gap-2"><button onClick={() => setModal('history')} className="flex items-center gap-2 px-3 py-1.5 text-sm rounded-md bg-border-primary hover:bg-gray-700 text-white font-semibold"><History size={16}/> View History</button><div className="relative"><Calendar className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-text-secondary" /><input type="date" defaultValue={new Date().toISOString().split('T')[0]} className="bg-bg-primary border border-border-primary rounded-md pl-9 pr-2 py-1.5 text-white" /></div></div></div>
+      <div className="flex flex-wrap justify-between items-center gap-2"><h2 className="text-2xl font-bold text-white">Bin Stock Take</h2><div className="flex items-center gap-2"><button onClick={() => setModal('history')} className="flex items-center gap-2 px-3 py-1.5 text-sm rounded-md bg-border-primary hover:bg-gray-700 text-white font-semibold"><History size={16}/> View History</button><div className="relative"><Calendar className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-text-secondary" /><input type="date" defaultValue={localDateKey()} className="bg-bg-primary border border-border-primary rounded-md pl-9 pr-2 py-1.5 text-white" /></div></div></div>
       <CommandBar
           searchTerm={searchTerm}
           setSearchTerm={setSearchTerm}
           onSubmit={(e) => { e.preventDefault(); onCommand(searchTerm); }}
+          onVoiceCommand={command => { setSearchTerm(command); onCommand(command); }}
+          onTranscribeAudio={onTranscribeAudio}
           isLoading={isLoading}
       />
       
       {/* --- STATUS TABLES --- */}
       <div className="flex flex-col lg:flex-row gap-4">
-        <div className="flex-grow bg-bg-primary/50 rounded-lg overflow-hidden border border-border-primary"><div className="overflow-x-auto"><table className="w-full text-left text-sm"><thead className="bg-bg-primary"><tr><th className="p-3 w-48 font-semibold text-text-secondary sticky left-0 bg-bg-primary z-10">METRIC</th>{renderBinTableHeader(standardBins, () => { setSelectedColor(COLOR_PALETTE[0]); setModal('addStandardBin'); })}</tr></thead><tbody>{STATUS_ROWS.map(row => (<tr key={row.key} className="border-t border-border-primary"><td className="p-3 w-48 font-semibold text-text-secondary sticky left-0 bg-bg-secondary z-10">{row.label}</td>{renderStatusRow(row, standardBins)}</tr>))}</tbody></table></div></div>
+        <div className="flex-grow bg-bg-primary/50 rounded-lg overflow-hidden border border-border-primary"><div className="overflow-x-auto"><table className="w-full text-left text-sm"><thead className="bg-bg-primary"><tr><th className="p-3 w-48 font-semibold text-text-secondary sticky left-0 bg-bg-primary z-10">METRIC</th>{renderBinTableHeader(standardBins, () => { setSelectedColor(COLOR_PALETTE[0]); setModal('addStandardBin'); })}</tr></thead><tbody>{STATUS_ROWS.map(row => (<tr key={row.key} className="border-t border-border-primary"><td className="p-3 w-48 font-semibold text-text-secondary sticky left-0 bg-bg-secondary z-10"><div className="flex items-center gap-2">{row.label}<SyncBadge state={syncStates?.[`status:${row.key}`]}/></div></td>{renderStatusRow(row, standardBins)}</tr>))}</tbody></table></div></div>
         <div className="flex-shrink-0 bg-bg-primary/50 rounded-lg overflow-hidden border border-border-primary"><div className="overflow-x-auto"><table className="w-full text-left text-sm"><thead className="bg-bg-primary"><tr>{renderBinTableHeader(mixedBins, () => { setSelectedColor(COLOR_PALETTE[0]); setModal('addMixedBin'); })}</tr></thead><tbody>{STATUS_ROWS.map(row => (<tr key={row.key} className="border-t border-border-primary">{renderStatusRow(row, mixedBins)}</tr>))}</tbody></table></div></div>
       </div>
 
       {/* --- OWED TO US --- */}
       <div className="pt-4">
-          <div className="flex justify-between items-center mb-2"><h3 className="text-xl font-bold text-text-primary">Owed To Us</h3><button onClick={() => { setModal('addParty'); }} className="flex items-center gap-2 px-3 py-1.5 text-xs rounded-md bg-accent-secondary hover:bg-cyan-700 text-white font-semibold"><PlusCircle size={14}/> Add Party</button></div>
+          <div className="flex justify-between items-center mb-2"><h3 className="text-xl font-bold text-text-primary">Owed To Us</h3>{canManageBins && <button onClick={() => { setModal('addParty'); }} className="flex items-center gap-2 px-3 py-1.5 text-xs rounded-md bg-accent-secondary hover:bg-cyan-700 text-white font-semibold"><PlusCircle size={14}/> Add Party</button>}</div>
           <div className="flex flex-col lg:flex-row gap-4">
-            <div className="flex-grow bg-bg-primary/50 rounded-lg overflow-hidden border border-border-primary"><div className="overflow-x-auto"><table className="w-full text-left text-sm"><thead className="bg-bg-primary"><tr><th className="p-3 w-48 font-semibold text-text-secondary sticky left-0 bg-bg-primary z-10">PARTY</th>{renderBinTableHeader(standardBins)}</tr></thead><tbody>{filteredOwedToUs.map(party => (<tr key={party.id} className="border-t border-border-primary"><td className="w-48 sticky left-0 bg-bg-secondary z-10 p-2"><div className="flex items-center justify-between"><span className="font-semibold text-white">{party.name}</span><button onClick={() => handleRemoveParty(party.id, party.name)} className="text-text-secondary hover:text-danger"><Trash2 size={14}/></button></div></td>{renderPartyRow(party, 'owedToUs', standardBins)}</tr>))}</tbody></table></div></div>
+            <div className="flex-grow bg-bg-primary/50 rounded-lg overflow-hidden border border-border-primary"><div className="overflow-x-auto"><table className="w-full text-left text-sm"><thead className="bg-bg-primary"><tr><th className="p-3 w-48 font-semibold text-text-secondary sticky left-0 bg-bg-primary z-10">PARTY</th>{renderBinTableHeader(standardBins)}</tr></thead><tbody>{filteredOwedToUs.map(party => (<tr key={party.id} className="border-t border-border-primary"><td className="w-48 sticky left-0 bg-bg-secondary z-10 p-2"><div className="flex items-center justify-between"><span className="font-semibold text-white flex items-center gap-2">{party.name}<SyncBadge state={syncStates?.[`party:${party.name.trim().toLowerCase()}`]}/></span>{canManageBins && <button onClick={() => handleArchiveParty(party.id, party.name)} className="text-text-secondary hover:text-danger" title="Archive Party"><Archive size={14}/></button>}</div></td>{renderPartyRow(party, 'owedToUs', standardBins)}</tr>))}</tbody></table></div></div>
             <div className="flex-shrink-0 bg-bg-primary/50 rounded-lg overflow-hidden border border-border-primary"><div className="overflow-x-auto"><table className="w-full text-left text-sm"><thead className="bg-bg-primary"><tr>{renderBinTableHeader(mixedBins)}</tr></thead><tbody>{filteredOwedToUs.map(party => (<tr key={party.id} className="border-t border-border-primary">{renderPartyRow(party, 'owedToUs', mixedBins)}</tr>))}</tbody></table></div></div>
           </div>
       </div>
 
        {/* --- WE OWE --- */}
       <div className="pt-4">
-          <div className="flex justify-between items-center mb-2"><h3 className="text-xl font-bold text-text-primary">We Owe</h3><button onClick={() => { setModal('addParty'); }} className="flex items-center gap-2 px-3 py-1.5 text-xs rounded-md bg-accent-secondary hover:bg-cyan-700 text-white font-semibold"><PlusCircle size={14}/> Add Party</button></div>
+          <div className="flex justify-between items-center mb-2"><h3 className="text-xl font-bold text-text-primary">We Owe</h3>{canManageBins && <button onClick={() => { setModal('addParty'); }} className="flex items-center gap-2 px-3 py-1.5 text-xs rounded-md bg-accent-secondary hover:bg-cyan-700 text-white font-semibold"><PlusCircle size={14}/> Add Party</button>}</div>
           <div className="flex flex-col lg:flex-row gap-4">
-            <div className="flex-grow bg-bg-primary/50 rounded-lg overflow-hidden border border-border-primary"><div className="overflow-x-auto"><table className="w-full text-left text-sm"><thead className="bg-bg-primary"><tr><th className="p-3 w-48 font-semibold text-text-secondary sticky left-0 bg-bg-primary z-10">PARTY</th>{renderBinTableHeader(standardBins)}</tr></thead><tbody>{filteredWeOwe.map(party => (<tr key={party.id} className="border-t border-border-primary"><td className="w-48 sticky left-0 bg-bg-secondary z-10 p-2"><div className="flex items-center justify-between"><span className="font-semibold text-white">{party.name}</span><button onClick={() => handleRemoveParty(party.id, party.name)} className="text-text-secondary hover:text-danger"><Trash2 size={14}/></button></div></td>{renderPartyRow(party, 'weOwe', standardBins)}</tr>))}</tbody></table></div></div>
+            <div className="flex-grow bg-bg-primary/50 rounded-lg overflow-hidden border border-border-primary"><div className="overflow-x-auto"><table className="w-full text-left text-sm"><thead className="bg-bg-primary"><tr><th className="p-3 w-48 font-semibold text-text-secondary sticky left-0 bg-bg-primary z-10">PARTY</th>{renderBinTableHeader(standardBins)}</tr></thead><tbody>{filteredWeOwe.map(party => (<tr key={party.id} className="border-t border-border-primary"><td className="w-48 sticky left-0 bg-bg-secondary z-10 p-2"><div className="flex items-center justify-between"><span className="font-semibold text-white flex items-center gap-2">{party.name}<SyncBadge state={syncStates?.[`party:${party.name.trim().toLowerCase()}`]}/></span>{canManageBins && <button onClick={() => handleArchiveParty(party.id, party.name)} className="text-text-secondary hover:text-danger" title="Archive Party"><Archive size={14}/></button>}</div></td>{renderPartyRow(party, 'weOwe', standardBins)}</tr>))}</tbody></table></div></div>
             <div className="flex-shrink-0 bg-bg-primary/50 rounded-lg overflow-hidden border border-border-primary"><div className="overflow-x-auto"><table className="w-full text-left text-sm"><thead className="bg-bg-primary"><tr>{renderBinTableHeader(mixedBins)}</tr></thead><tbody>{filteredWeOwe.map(party => (<tr key={party.id} className="border-t border-border-primary">{renderPartyRow(party, 'weOwe', mixedBins)}</tr>))}</tbody></table></div></div>
           </div>
       </div>
@@ -564,6 +610,7 @@ const BinStockPage: React.FC<BinStockPageProps> = ({ data, onCommand, isLoading,
       
        {/* Log New Movement & Notes */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pt-4">
+        {can('bins.move') && (
         <div className="bg-bg-primary p-3 rounded-md border border-border-primary">
             <h3 className="text-sm font-semibold text-text-secondary mb-2">Log New Movement</h3>
             <form onSubmit={(e) => { e.preventDefault(); handleLogMovement(); }} className="space-y-2">
@@ -600,9 +647,10 @@ const BinStockPage: React.FC<BinStockPageProps> = ({ data, onCommand, isLoading,
                 </div>
             </form>
         </div>
+        )}
         <div className="bg-bg-primary p-3 rounded-md border border-border-primary">
             <h3 className="text-sm font-semibold text-text-secondary mb-2">Company / Farm Notes</h3>
-            <textarea value={notes} onChange={handleNotesChange} rows={5} className="w-full bg-bg-secondary border border-border-primary rounded-md p-2 text-white placeholder-text-secondary focus:ring-2 focus:ring-accent-primary outline-none text-sm" placeholder="Enter notes..."/>
+            <textarea value={notes} onChange={handleNotesChange} readOnly={!canManageBins} rows={5} className="w-full bg-bg-secondary border border-border-primary rounded-md p-2 text-white placeholder-text-secondary focus:ring-2 focus:ring-accent-primary outline-none text-sm" placeholder="Enter notes..."/>
         </div>
       </div>
     </div>
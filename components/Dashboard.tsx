@@ -4,14 +4,39 @@ import SummaryCards from './SummaryCards';
 import InventoryTable from './InventoryTable';
 import HistoryPage from './HistoryPage';
 import SettingsPage from './SettingsPage';
-import BinStockPage from './BinStockPage';
-import { INITIAL_BIN_TYPES, EMPTY_BIN_STOCK_DATA } from '../constants';
-import { StockItem, EditableStockItemKey, ActivityLogEntry, Supplier, CreditTransaction, TeamMember, BinStockData, BinTypeName, BinParty, BinHistoryEntry, BinTypeDefinition, CustomBinType, BinCounts } from '../types';
-import { X, Search, FileText, Download, Printer, Send, Loader, Sparkles, AlertTriangle, ShoppingBag, CreditCard, ChevronLeft, Truck as TruckIcon } from 'lucide-react';
-import { Session } from '@supabase/supabase-js';
+import BinStockPage, { STATUS_ROWS } from './BinStockPage';
+import ExportModal from './ExportModal';
+import ImportModal from './ImportModal';
+import SuppliersModal from './SuppliersModal';
+import PurchaseOrdersModal from './PurchaseOrdersModal';
+import ReorderModal from './ReorderModal';
+import ValuationModal from './ValuationModal';
+import LocationsModal from './LocationsModal';
+import TransferStockModal from './TransferStockModal';
+import StockCountModal from './StockCountModal';
+import AICommandPreviewModal from './AICommandPreviewModal';
+import SetupTeamModal from './SetupTeamModal';
+import SyncBadge from './SyncBadge';
+import { INITIAL_BIN_TYPES, EMPTY_BIN_STOCK_DATA, INVITATION_TTL_DAYS, ACTIVE_TEAM_STORAGE_KEY, REMOTE_CHANGE_HIGHLIGHT_MS, SYNCED_BADGE_MS, REPLAY_RETRY_MS, USAGE_HISTORY_DAYS, DEFAULT_ROLLOVER_TIMEZONE, EXPORT_PAGE_SIZE, FIELD_LABELS } from '../constants';
+import { StockItem, EditableStockItemKey, ActivityLogEntry, ActivityEvent, ActivityEventSource, Supplier, CreditTransaction, SupplierPayment, PurchaseOrder, CostLayer, ValuationMethod, StockLocation, StockLevel, StockCount, StockRollover, Team, TeamMember, TeamInvitation, TeamMembership, BinStockData, BinStatusKey, BinMovementDetails, BinTypeName, BinParty, BinHistoryEntry, BinTypeDefinition, CustomBinType, BinCounts, StockSnapshot, QueuedEdit, QueuedEditPayload, SyncConflict, ArchiveKind, ArchivedRecords } from '../types';
+import { X, Search, FileText, Download, Printer, Send, Loader, Sparkles, AlertTriangle, ShoppingBag, CreditCard, ChevronLeft, CloudOff, RefreshCw, Archive } from 'lucide-react';
+import { Session, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import { supabase } from '../supabaseClient';
 // FIX: Import GoogleGenAI to use the Gemini API.
 import { GoogleGenAI } from '@google/genai';
+import { StockImportPlanEntry } from '../importData';
+import { UsageHistoryRow, buildReorderSuggestions } from '../reorder';
+import { baseUnitOf, unitFactor, pluralizeUnit, validateUnits } from '../units';
+import { STOCK_COUNT_SELECT, lineVariance } from '../stockCount';
+import { isLocationCountField, countsAtLocation, remainingAtLocation } from '../locations';
+import { businessDateKey, localDateKey } from '../dates';
+import { DEFAULT_VALUATION_METHOD, VALUATION_METHOD_LABELS, groupLayersByItem, valueStockItem } from '../valuation';
+import { PurchaseOrderDraft, GoodsReceiptDraft, PURCHASE_ORDER_SELECT, formatOrderNumber, hasPriceVariance, remainingQuantity, canReceive } from '../purchaseOrders';
+import { Permission, TeamRole, hasPermission, permissionForField } from '../permissions';
+import { UndoContext, reversedIds, lastRolloverAt, canUndoActivity, canUndoBinEntry } from '../undo';
+import { EMPTY_ARCHIVE, ARCHIVE_TABLES, ARCHIVE_PERMISSIONS } from '../archive';
+import { AICommandContext, ParsedAICommand, AI_COMMAND_SCHEMA, buildCommandPrompt, buildTranscriptionPrompt, parseAICommands, aiCommandPermissions, toBatchAction } from '../aiCommands';
+import { SyncState, enqueueEdit, listQueuedEdits, removeQueuedEdit, addSyncConflict, listSyncConflicts, removeSyncConflict, queuedEditRowKey } from '../offlineQueue';
 
 
 const COLOR_PALETTE = ['#10B981', '#3B82F6', '#F97316', '#EC4899', '#8B5CF6', '#F59E0B', '#6366F1', '#EF4444', '#14b8a6', '#06b6d4', '#0ea5e9', '#f43f5e', '#d946ef', '#84cc16', '#eab308', '#64748b'];
@@ -25,46 +50,45 @@ type AddItemData = {
   color: string;
   transactionType: 'cash' | 'credit';
   supplierName?: string;
+  unit?: string; // Unit the quantity and unit price are in, for existing items; defaults to the base unit
+  source?: ActivityEventSource; // Defaults to 'manual'
 };
 
-type View = 'dashboard' | 'binStock' | 'history' | 'settings';
-type InventoryViewMode = 'table' | 'card';
-
-// --- LEVENSHTEIN DISTANCE HELPER ---
-const levenshteinDistance = (a: string, b: string): number => {
-    const aLower = a.toLowerCase();
-    const bLower = b.toLowerCase();
-    const matrix = Array(bLower.length + 1).fill(null).map(() => Array(aLower.length + 1).fill(null));
-    for (let i = 0; i <= aLower.length; i++) { matrix[0][i] = i; }
-    for (let j = 0; j <= bLower.length; j++) { matrix[j][0] = j; }
-    for (let j = 1; j <= bLower.length; j++) {
-        for (let i = 1; i <= aLower.length; i++) {
-            const indicator = aLower[i - 1] === bLower[j - 1] ? 0 : 1;
-            matrix[j][i] = Math.min(
-                matrix[j][i - 1] + 1, // deletion
-                matrix[j - 1][i] + 1, // insertion
-                matrix[j - 1][i - 1] + indicator, // substitution
-            );
-        }
-    }
-    return matrix[bLower.length][aLower.length];
+type EditItemData = {
+  name: string;
+  category: string;
+  color: string;
+  baseUnit: string;
+  units: { name: string; factor: number | '' }[];
 };
 
-// --- FIND SUPPLIER HELPER ---
-const findSupplier = (name: string, suppliers: Supplier[]): Supplier | { suggestion: string } | null => {
-    const lowerName = name.trim().toLowerCase();
-    const directMatch = suppliers.find(s => s.name.toLowerCase() === lowerName);
-    if (directMatch) return directMatch;
-
-    const suggestions = suppliers
-        .map(supplier => ({ supplier, dist: levenshteinDistance(lowerName, supplier.name) }))
-        .sort((a, b) => a.dist - b.dist);
+type View = 'dashboard' | 'binStock' | 'history' | 'settings';
+type InventoryViewMode = 'table' | 'card';
 
-    if (suggestions.length > 0 && suggestions[0].dist <= 3) {
-        return { suggestion: suggestions[0].supplier.name };
-    }
-    return null;
-};
+// --- LIST MERGE HELPER ---
+// Replaces the row with the same id, or appends it. Realtime echoes of our own writes can
+// arrive before or after the write resolves, so both paths merge through this.
+const upsertById = <T extends { id: string }>(list: T[], row: T): T[] =>
+    list.some(r => r.id === row.id) ? list.map(r => r.id === row.id ? row : r) : [...list, row];
+
+// --- BIN MOVEMENT HELPER ---
+const describeBinMovement = ({ type, quantity, partyName, transporter, binContents }: BinMovementDetails, binName: string): string =>
+    `${type.charAt(0).toUpperCase() + type.slice(1)} ${quantity} ${binName}${binContents ? ` (${binContents})` : ''} ${type === 'sent' ? 'to' : 'from'} ${partyName}${transporter ? ` via ${transporter}`: ''}.`;
+
+// --- AUDIO HELPER ---
+// Gemini takes inline audio as base64 without the data URL prefix.
+const blobToBase64 = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+// --- DATE KEY HELPER ---
+// Dates are keyed as YYYY-MM-DD, matching the Header date picker. Today is the team's current
+// business day, the one the next New Day will close, so it follows the rollover time and timezone.
+const getTodayKey = (team: Team | null): string =>
+    team ? businessDateKey(new Date(), team.rollover_time || '00:00', team.rollover_timezone || DEFAULT_ROLLOVER_TIMEZONE) : localDateKey();
 
 // --- DATE PARSING HELPER ---
 const parseDateRange = (command: string): { start: Date; end: Date; title: string } | null => {
@@ -132,14 +156,29 @@ try {
 
 // --- MAIN APP COMPONENT ---
 const Dashboard: React.FC<DashboardProps> = ({ session }) => {
-  const [team, setTeam] = useState<{ id: string; name: string; } | null>(null);
+  const [team, setTeam] = useState<Team | null>(null);
   const [stockItems, setStockItems] = useState<StockItem[]>([]);
   const [activityLog, setActivityLog] = useState<ActivityLogEntry[]>([]);
   const [suppliers, setSuppliers] = useState<Supplier[]>([]);
   const [transactions, setTransactions] = useState<CreditTransaction[]>([]);
+  const [payments, setPayments] = useState<SupplierPayment[]>([]);
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [usageHistory, setUsageHistory] = useState<UsageHistoryRow[]>([]);
+  const [costLayers, setCostLayers] = useState<CostLayer[]>([]);
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [levels, setLevels] = useState<StockLevel[]>([]);
+  const [stockCounts, setStockCounts] = useState<StockCount[]>([]);
+  const [archive, setArchive] = useState<ArchivedRecords>(EMPTY_ARCHIVE);
   const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
+  const [invitations, setInvitations] = useState<TeamInvitation[]>([]);
+  const [currentRole, setCurrentRole] = useState<TeamRole | null>(null);
+  const [teams, setTeams] = useState<TeamMembership[]>([]);
   const [binStockData, setBinStockData] = useState<BinStockData | null>(null);
   const [isDataLoading, setIsDataLoading] = useState(true);
+  // A team switch can start while the previous team is still loading; results for any team
+  // but the active one, or from a load that has since been restarted, are dropped.
+  const activeTeamIdRef = useRef<string | null>(null);
+  const loadGenerationRef = useRef(0);
 
   const fetchBinData = async (teamId: string) => {
     // 1. Fetch all raw data in parallel
@@ -156,6 +195,7 @@ const Dashboard: React.FC<DashboardProps> = ({ session }) => {
         supabase.from('bin_status_counts').select('*').eq('team_id', teamId),
         supabase.from('bin_history_log').select('*').eq('team_id', teamId).order('timestamp', { ascending: false }).limit(200),
     ]);
+    if (teamId !== activeTeamIdRef.current) return;
 
     const errors = { binTypesError, partiesError, balancesError, statusesError, historyError };
     for (const key in errors) {
@@ -166,12 +206,21 @@ const Dashboard: React.FC<DashboardProps> = ({ session }) => {
         }
     }
 
+    // 2. Archived bin types and parties are listed in Settings > Archive only
+    const activeBinTypes = binTypesData?.filter((bt: any) => !bt.archived_at);
+    const activeParties = partiesData?.filter((party: any) => !party.archived_at);
+    setArchive(prev => ({
+        ...prev,
+        binTypes: (binTypesData || []).filter((bt: any) => bt.archived_at).map((bt: any) => ({ id: bt.id, name: bt.name, archived_at: bt.archived_at })),
+        parties: (partiesData || []).filter((party: any) => party.archived_at).map((party: any) => ({ id: party.id, name: party.name, archived_at: party.archived_at })),
+    }));
+
     // 3. Process and assemble data into the BinStockData structure
-    const binTypes: BinTypeDefinition[] = binTypesData
+    const binTypes: BinTypeDefinition[] = activeBinTypes
         ?.filter((bt: any) => bt.category === 'standard' || bt.category === 'mixed')
         .map((bt: any) => ({ ...bt, id: bt.id, isDefault: bt.is_default })) ?? [];
     
-    const customBinTypes: CustomBinType[] = binTypesData
+    const customBinTypes: CustomBinType[] = activeBinTypes
         ?.filter((bt: any) => bt.sub_category)
         .map((bt: any) => ({ id: bt.id, name: bt.name, category: bt.sub_category as 'mixedWood' | 'mixedPlastic' })) ?? [];
 
@@ -186,14 +235,14 @@ const Dashboard: React.FC<DashboardProps> = ({ session }) => {
     }
     
     // Calculate totals for statuses
-    binTypesData?.forEach((bt: any) => {
+    activeBinTypes?.forEach((bt: any) => {
         statuses.total[bt.id] = (statuses.full[bt.id] || 0) + (statuses.inFridge[bt.id] || 0) + (statuses.broken[bt.id] || 0) + (statuses.dump[bt.id] || 0);
     });
 
     const owedToUs: BinParty[] = [];
     const weOwe: BinParty[] = [];
-    if (partiesData && balancesData) {
-        for (const party of partiesData) {
+    if (activeParties && balancesData) {
+        for (const party of activeParties) {
             const partyBalances = balancesData.filter((b: any) => b.party_id === party.id);
             const partyOwedBins: BinCounts = {};
             const partyWeOweBins: BinCounts = {};
@@ -206,7 +255,8 @@ const Dashboard: React.FC<DashboardProps> = ({ session }) => {
                 }
             }
 
-            if (Object.keys(partyOwedBins).length > 0) {
+            // Settled parties are listed with the ones that owe us, so they can still be archived
+            if (Object.keys(partyOwedBins).length > 0 || Object.keys(partyWeOweBins).length === 0) {
                 owedToUs.push({ id: party.id, name: party.name, bins: partyOwedBins });
             }
             if (Object.keys(partyWeOweBins).length > 0) {
@@ -216,7 +266,8 @@ const Dashboard: React.FC<DashboardProps> = ({ session }) => {
     }
 
     const history: BinHistoryEntry[] = historyData ? historyData.map((h: any) => ({
-        id: h.id, timestamp: h.timestamp, change: h.change_description, type: h.type, details: h.details
+        id: h.id, timestamp: h.timestamp, change: h.change_description, type: h.type, details: h.details,
+        userId: h.user_id, reversalOf: h.reversal_of,
     })) : [];
 
     const notes = history.find(h => h.type === 'note')?.change || "Add your notes here...";
@@ -225,92 +276,522 @@ const Dashboard: React.FC<DashboardProps> = ({ session }) => {
   };
 
 
+  // Closing packed and lost per item over the usage window, for reorder suggestions.
+  const fetchUsageHistory = async (teamId: string) => {
+    const since = new Date();
+    since.setDate(since.getDate() - USAGE_HISTORY_DAYS);
+    const { data, error } = await supabase.from('stock_snapshots').select('stock_item_id, snapshot_date, packed, lost')
+        .eq('team_id', teamId).gte('snapshot_date', localDateKey(since));
+    if (teamId !== activeTeamIdRef.current) return;
+    if (error) {
+        console.error("Error fetching usage history:", error.message);
+        return;
+    }
+    setUsageHistory((data as UsageHistoryRow[]) || []);
+  };
+
+  // Only counts still in progress are kept in state; posted ones live on in the activity log.
+  // Refetched when Stock Count opens, since several people may be counting at once.
+  const fetchStockCounts = async (teamId: string) => {
+    const { data, error } = await supabase.from('stock_counts').select(STOCK_COUNT_SELECT)
+        .eq('team_id', teamId).in('status', ['counting', 'awaiting_approval']).order('created_at', { ascending: false });
+    if (teamId !== activeTeamIdRef.current) return;
+    if (error) {
+        console.error("Error fetching stock counts:", error.message);
+        return;
+    }
+    setStockCounts((data as StockCount[]) || []);
+  };
+
+  // Loads everything scoped to one team. Team data is cleared first so nothing from the
+  // previously active team lingers if a fetch fails.
+  const loadTeamData = async (membership: TeamMembership) => {
+    const generation = ++loadGenerationRef.current;
+    const isStale = () => generation !== loadGenerationRef.current;
+    activeTeamIdRef.current = membership.id;
+    setIsDataLoading(true);
+    localStorage.setItem(ACTIVE_TEAM_STORAGE_KEY, membership.id);
+    setTeam({ id: membership.id, name: membership.name, valuation_method: membership.valuation_method, rollover_time: membership.rollover_time, rollover_timezone: membership.rollover_timezone });
+    setSelectedDate(getTodayKey(membership));
+    setCurrentRole(membership.role);
+    setStockItems([]);
+    setActivityLog([]);
+    setSuppliers([]);
+    setTransactions([]);
+    setPayments([]);
+    setPurchaseOrders([]);
+    setUsageHistory([]);
+    setCostLayers([]);
+    setLocations([]);
+    setLevels([]);
+    setStockCounts([]);
+    setArchive(EMPTY_ARCHIVE);
+    setTeamMembers([]);
+    setInvitations([]);
+
+    // Fetch all data in parallel
+    const [stockResult, logResult, membersResult, suppliersResult, transactionsResult, paymentsResult, ordersResult, layersResult, locationsResult, levelsResult, invitationsResult] = await Promise.all([
+        supabase.from('stock_items').select('*').eq('team_id', membership.id).order('name'),
+        supabase.from('activity_log').select('*, users(full_name)').eq('team_id', membership.id).order('timestamp', { ascending: false }),
+        supabase.from('team_members').select('role, users(id, full_name, email)').eq('team_id', membership.id),
+        supabase.from('suppliers').select('*').eq('team_id', membership.id).order('name'),
+        supabase.from('credit_transactions').select('*').eq('team_id', membership.id),
+        supabase.from('supplier_payments').select('*').eq('team_id', membership.id),
+        supabase.from('purchase_orders').select(PURCHASE_ORDER_SELECT).eq('team_id', membership.id).order('created_at', { ascending: false }),
+        supabase.from('stock_cost_layers').select('*').eq('team_id', membership.id).order('received_at'),
+        supabase.from('stock_locations').select('*').eq('team_id', membership.id).order('created_at'),
+        supabase.from('stock_levels').select('*').eq('team_id', membership.id),
+        supabase.from('team_invitations').select('*').eq('team_id', membership.id).eq('status', 'pending').order('created_at', { ascending: false })
+    ]);
+    if (isStale()) return;
+    
+    if (stockResult.data) {
+        setStockItems(stockResult.data.filter((item: StockItem) => !item.archived_at));
+        setArchive(prev => ({ ...prev, items: stockResult.data.filter((item: StockItem) => item.archived_at) }));
+    }
+    if(stockResult.error) console.error("Error fetching stock items: ", stockResult.error.message);
+    
+    if (logResult.data) setActivityLog(logResult.data as ActivityLogEntry[]);
+    if(logResult.error) console.error("Error fetching activity log: ", logResult.error.message);
+
+    if (membersResult.data) {
+        const formattedMembers = membersResult.data.map((m: any) => ({
+            id: m.users?.id, name: m.users?.full_name, email: m.users?.email, role: m.role,
+        })).filter((m: any): m is TeamMember => m.id && m.name && m.email);
+        setTeamMembers(formattedMembers);
+    }
+    if(membersResult.error) console.error("Error fetching team members: ", membersResult.error.message);
+
+    if (suppliersResult.data) {
+        setSuppliers(suppliersResult.data.filter((supplier: Supplier) => !supplier.archived_at));
+        setArchive(prev => ({ ...prev, suppliers: suppliersResult.data.filter((supplier: Supplier) => supplier.archived_at) }));
+    }
+    if(suppliersResult.error) console.error("Error fetching suppliers: ", suppliersResult.error.message);
+
+    if (transactionsResult.data) setTransactions(transactionsResult.data);
+    if(transactionsResult.error) console.error("Error fetching transactions: ", transactionsResult.error.message);
+
+    if (paymentsResult.data) setPayments(paymentsResult.data);
+    if(paymentsResult.error) console.error("Error fetching supplier payments: ", paymentsResult.error.message);
+
+    if (ordersResult.data) setPurchaseOrders(ordersResult.data as PurchaseOrder[]);
+    if(ordersResult.error) console.error("Error fetching purchase orders: ", ordersResult.error.message);
+
+    if (layersResult.data) setCostLayers(layersResult.data);
+    if(layersResult.error) console.error("Error fetching cost layers: ", layersResult.error.message);
+
+    if (locationsResult.data) setLocations(locationsResult.data);
+    if(locationsResult.error) console.error("Error fetching locations: ", locationsResult.error.message);
+
+    if (levelsResult.data) setLevels(levelsResult.data);
+    if(levelsResult.error) console.error("Error fetching stock levels: ", levelsResult.error.message);
+
+    if (invitationsResult.data) setInvitations(invitationsResult.data);
+    if(invitationsResult.error) console.error("Error fetching invitations: ", invitationsResult.error.message);
+
+    // Fetch bin data
+    await fetchBinData(membership.id);
+    await fetchUsageHistory(membership.id);
+    await fetchStockCounts(membership.id);
+    if (isStale()) return;
+    
+    setIsDataLoading(false);
+  };
+
+  // Loads the user's teams, then activates the preferred one: the given team, else the
+  // last team used on this device, else the first membership.
+  const loadTeams = async (preferredTeamId?: string) => {
+    setIsDataLoading(true);
+
+    const { data: teamMemberships, error: teamMemberError } = await supabase
+        .from('team_members').select('role, teams(*)').eq('user_id', session.user.id);
+
+    if (teamMemberError || !teamMemberships || teamMemberships.length === 0) {
+        console.error("Could not fetch user's team:", teamMemberError?.message || "User not assigned to a team.");
+        setIsDataLoading(false); return;
+    }
+
+    // `teams` can be returned as an array by Supabase; handle both shapes safely
+    const memberships: TeamMembership[] = teamMemberships
+        .map((m: any): TeamMembership | null => {
+            const t = Array.isArray(m.teams) ? m.teams[0] : m.teams;
+            return t?.id ? { id: t.id, name: t.name, valuation_method: t.valuation_method, rollover_time: t.rollover_time, rollover_timezone: t.rollover_timezone, role: m.role as TeamRole } : null;
+        })
+        .filter((m: TeamMembership | null): m is TeamMembership => m !== null)
+        .sort((a: TeamMembership, b: TeamMembership) => a.name.localeCompare(b.name));
+    if (memberships.length === 0) {
+        console.error("Team data is malformed for the user's membership.");
+        setIsDataLoading(false); return;
+    }
+    setTeams(memberships);
+
+    const activeTeamId = preferredTeamId || localStorage.getItem(ACTIVE_TEAM_STORAGE_KEY);
+    await loadTeamData(memberships.find(m => m.id === activeTeamId) || memberships[0]);
+  };
+
   useEffect(() => {
-    const initialize = async () => {
-        setIsDataLoading(true);
+    loadTeams();
+  }, [session.user.id]);
 
-        const { data: teamMemberships, error: teamMemberError } = await supabase
-            .from('team_members').select('teams(*)').eq('user_id', session.user.id);
+  // --- REALTIME SYNC ---
+  // Refs give the subscription callbacks current state without resubscribing on every change.
+  const stockItemsRef = useRef(stockItems);
+  stockItemsRef.current = stockItems;
+  const teamMembersRef = useRef(teamMembers);
+  teamMembersRef.current = teamMembers;
+  // Items with a write of ours in flight; its response, not the echo, is the source of truth
+  const pendingStockWritesRef = useRef<Set<string>>(new Set());
+  const [recentlyChangedIds, setRecentlyChangedIds] = useState<Set<string>>(new Set());
+  const highlightTimeoutsRef = useRef<Record<string, number>>({});
+  const binRefetchTimeoutRef = useRef<number | null>(null);
+
+  const markRemoteChange = (itemId: string) => {
+    setRecentlyChangedIds(prev => new Set(prev).add(itemId));
+    window.clearTimeout(highlightTimeoutsRef.current[itemId]);
+    highlightTimeoutsRef.current[itemId] = window.setTimeout(() => {
+        setRecentlyChangedIds(prev => {
+            const next = new Set(prev);
+            next.delete(itemId);
+            return next;
+        });
+        delete highlightTimeoutsRef.current[itemId];
+    }, REMOTE_CHANGE_HIGHLIGHT_MS);
+  };
 
-        if (teamMemberError || !teamMemberships || teamMemberships.length === 0) {
-            console.error("Could not fetch user's team:", teamMemberError?.message || "User not assigned to a team.");
-            setIsDataLoading(false); return;
+  useEffect(() => {
+    if (!team) return;
+    const teamId = team.id;
+    const filter = `team_id=eq.${teamId}`;
+
+    const handleStockChange = (payload: RealtimePostgresChangesPayload<StockItem>) => {
+        if (payload.eventType === 'DELETE') {
+            const deletedId = (payload.old as Partial<StockItem>).id;
+            if (deletedId) {
+                setStockItems(prev => prev.filter(item => item.id !== deletedId));
+                setArchive(prev => ({ ...prev, items: prev.items.filter(item => item.id !== deletedId) }));
+            }
+            return;
         }
-
-        const firstTeamMembership = teamMemberships[0];
-        if (!firstTeamMembership.teams) {
-            console.error("Team data is malformed for the user's membership.");
-            setIsDataLoading(false); return;
+        const row = payload.new;
+        if (row.archived_at) {
+            setStockItems(prev => prev.filter(item => item.id !== row.id));
+            setArchive(prev => ({ ...prev, items: upsertById(prev.items, row) }));
+            return;
         }
+        setArchive(prev => prev.items.some(item => item.id === row.id) ? { ...prev, items: prev.items.filter(item => item.id !== row.id) } : prev);
+        if (pendingStockWritesRef.current.has(row.id)) return;
+        const local = stockItemsRef.current.find(item => item.id === row.id);
+        // Our own optimistic updates come back as echoes that already match local state
+        // apart from the version the server bumped; merge those without highlighting
+        const isEcho = !!local && (Object.keys(row) as (keyof StockItem)[]).every(key => key === 'version' || local[key] === row[key]);
+        setStockItems(prev => upsertById(prev, row));
+        if (local && !isEcho) markRemoteChange(row.id);
+    };
 
-        // `teams` can be returned as an array by Supabase; handle both shapes safely
-        let currentTeam: { id: string; name: string } | null = null;
-        if (Array.isArray(firstTeamMembership.teams)) {
-            currentTeam = firstTeamMembership.teams[0] || null;
-        } else {
-            currentTeam = firstTeamMembership.teams || null;
+    const handleActivityInsert = (payload: RealtimePostgresChangesPayload<ActivityLogEntry>) => {
+        if (payload.eventType !== 'INSERT') return;
+        const author = teamMembersRef.current.find(m => m.id === payload.new.user_id);
+        const entry: ActivityLogEntry = { ...payload.new, users: author ? { full_name: author.name } : null };
+        setActivityLog(prev => prev.some(e => e.id === entry.id) ? prev : [entry, ...prev]);
+        // A rollover run elsewhere (a teammate or the schedule) adds a day of usage
+        if (entry.event?.source === 'new-day') fetchUsageHistory(teamId);
+    };
+
+    const handleSupplierChange = (payload: RealtimePostgresChangesPayload<Supplier>) => {
+        if (payload.eventType === 'DELETE') {
+            const deletedId = (payload.old as Partial<Supplier>).id;
+            if (deletedId) {
+                setSuppliers(prev => prev.filter(s => s.id !== deletedId));
+                setArchive(prev => ({ ...prev, suppliers: prev.suppliers.filter(s => s.id !== deletedId) }));
+            }
+            return;
         }
-        if (!currentTeam || !currentTeam.id) {
-            console.error("Team data is malformed for the user's membership.");
-            setIsDataLoading(false); return;
+        const row = payload.new;
+        if (row.archived_at) {
+            setSuppliers(prev => prev.filter(s => s.id !== row.id));
+            setArchive(prev => ({ ...prev, suppliers: upsertById(prev.suppliers, row) }));
+            return;
         }
-        setTeam(currentTeam);
+        setArchive(prev => prev.suppliers.some(s => s.id === row.id) ? { ...prev, suppliers: prev.suppliers.filter(s => s.id !== row.id) } : prev);
+        setSuppliers(prev => upsertById(prev, row));
+    };
 
-        // Fetch all data in parallel
-        const [stockResult, logResult, membersResult, suppliersResult, transactionsResult] = await Promise.all([
-            supabase.from('stock_items').select('*').eq('team_id', currentTeam.id).order('name'),
-            supabase.from('activity_log').select('*, users(full_name)').eq('team_id', currentTeam.id).order('timestamp', { ascending: false }),
-            supabase.from('team_members').select('role, users(id, full_name, email)').eq('team_id', currentTeam.id),
-            supabase.from('suppliers').select('*').eq('team_id', currentTeam.id).order('name'),
-            supabase.from('credit_transactions').select('*').eq('team_id', currentTeam.id)
-        ]);
-        
-        if (stockResult.data) setStockItems(stockResult.data);
-        if(stockResult.error) console.error("Error fetching stock items: ", stockResult.error.message);
-        
-        if (logResult.data) setActivityLog(logResult.data as ActivityLogEntry[]);
-        if(logResult.error) console.error("Error fetching activity log: ", logResult.error.message);
+    // Ledger rows are insert-only, so only new ones need merging
+    const handleTransactionInsert = (payload: RealtimePostgresChangesPayload<CreditTransaction>) => {
+        if (payload.eventType === 'INSERT') setTransactions(prev => upsertById(prev, payload.new));
+    };
+    const handlePaymentInsert = (payload: RealtimePostgresChangesPayload<SupplierPayment>) => {
+        if (payload.eventType === 'INSERT') setPayments(prev => upsertById(prev, payload.new));
+    };
+    const handleCostLayerInsert = (payload: RealtimePostgresChangesPayload<CostLayer>) => {
+        if (payload.eventType === 'INSERT') setCostLayers(prev => upsertById(prev, payload.new));
+    };
 
-        if (membersResult.data) {
-            const formattedMembers = membersResult.data.map((m: any) => ({
-                id: m.users?.id, name: m.users?.full_name, email: m.users?.email, role: m.role,
-            })).filter((m: any): m is TeamMember => m.id && m.name && m.email);
-            setTeamMembers(formattedMembers);
+    const handleLocationChange = (payload: RealtimePostgresChangesPayload<StockLocation>) => {
+        if (payload.eventType === 'DELETE') {
+            const deletedId = (payload.old as Partial<StockLocation>).id;
+            if (deletedId) {
+                setLocations(prev => prev.filter(l => l.id !== deletedId));
+                setLevels(prev => prev.filter(level => level.location_id !== deletedId));
+            }
+            return;
+        }
+        setLocations(prev => upsertById(prev, payload.new));
+    };
+    const handleLevelChange = (payload: RealtimePostgresChangesPayload<StockLevel>) => {
+        if (payload.eventType === 'DELETE') {
+            const deletedId = (payload.old as Partial<StockLevel>).id;
+            if (deletedId) setLevels(prev => prev.filter(level => level.id !== deletedId));
+            return;
         }
-        if(membersResult.error) console.error("Error fetching team members: ", membersResult.error.message);
+        setLevels(prev => upsertById(prev, payload.new));
+    };
 
-        if (suppliersResult.data) setSuppliers(suppliersResult.data);
-        if(suppliersResult.error) console.error("Error fetching suppliers: ", suppliersResult.error.message);
+    // Bin state is derived from several tables, so refetch it once a burst of changes settles
+    const handleBinChange = () => {
+        if (binRefetchTimeoutRef.current) window.clearTimeout(binRefetchTimeoutRef.current);
+        binRefetchTimeoutRef.current = window.setTimeout(() => fetchBinData(teamId), 500);
+    };
 
-        if (transactionsResult.data) setTransactions(transactionsResult.data);
-        if(transactionsResult.error) console.error("Error fetching transactions: ", transactionsResult.error.message);
+    // DELETE events can't be filtered by team_id, so they're matched against local ids instead
+    const channel = supabase.channel(`team-${teamId}`)
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'stock_items', filter }, handleStockChange)
+        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'stock_items', filter }, handleStockChange)
+        .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'stock_items' }, handleStockChange)
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'activity_log', filter }, handleActivityInsert)
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'suppliers', filter }, handleSupplierChange)
+        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'suppliers', filter }, handleSupplierChange)
+        .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'suppliers' }, handleSupplierChange)
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'credit_transactions', filter }, handleTransactionInsert)
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'supplier_payments', filter }, handlePaymentInsert)
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'stock_cost_layers', filter }, handleCostLayerInsert)
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'stock_locations', filter }, handleLocationChange)
+        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'stock_locations', filter }, handleLocationChange)
+        .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'stock_locations' }, handleLocationChange)
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'stock_levels', filter }, handleLevelChange)
+        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'stock_levels', filter }, handleLevelChange)
+        .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'stock_levels' }, handleLevelChange)
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'bin_balances', filter }, handleBinChange)
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'bin_status_counts', filter }, handleBinChange)
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'bin_history_log', filter }, handleBinChange)
+        .subscribe((status: string) => {
+            if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') console.error(`Realtime subscription for team ${teamId} failed:`, status);
+        });
 
-        // Fetch bin data
-        await fetchBinData(currentTeam.id);
-        
-        setIsDataLoading(false);
+    return () => {
+        if (binRefetchTimeoutRef.current) window.clearTimeout(binRefetchTimeoutRef.current);
+        Object.values(highlightTimeoutsRef.current).forEach(timeout => window.clearTimeout(timeout));
+        highlightTimeoutsRef.current = {};
+        setRecentlyChangedIds(new Set());
+        supabase.removeChannel(channel);
     };
+  }, [team?.id]);
+
+  // --- OFFLINE QUEUE ---
+  // Stock, status count and bin movement edits made offline are queued in IndexedDB and
+  // replayed in order when the connection returns. Edits that no longer apply cleanly go to
+  // a review list instead of being dropped.
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [queuedEdits, setQueuedEdits] = useState<QueuedEdit[]>([]);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const isReplayingRef = useRef(false); // Guards against overlapping replays between renders
+  const [replayRound, setReplayRound] = useState(0); // Bumped to replay again while edits remain queued
+  const replayRetryTimeoutRef = useRef<number | undefined>(undefined);
+  const [recentlySyncedKeys, setRecentlySyncedKeys] = useState<Set<string>>(new Set());
+  const syncedTimeoutsRef = useRef<Record<string, number>>({});
+  const binStockDataRef = useRef(binStockData);
+  binStockDataRef.current = binStockData;
 
-    initialize();
-  }, [session.user.id]);
+  useEffect(() => {
+    const goOnline = () => setIsOnline(true);
+    const goOffline = () => setIsOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+        window.removeEventListener('online', goOnline);
+        window.removeEventListener('offline', goOffline);
+        Object.values(syncedTimeoutsRef.current).forEach(timeout => window.clearTimeout(timeout));
+        window.clearTimeout(replayRetryTimeoutRef.current);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!team) return;
+    let cancelled = false;
+    setQueuedEdits([]);
+    setSyncConflicts([]);
+    Promise.all([listQueuedEdits(team.id), listSyncConflicts(team.id)])
+        .then(([edits, conflicts]) => {
+            if (cancelled) return;
+            setQueuedEdits(edits);
+            setSyncConflicts(conflicts);
+        })
+        .catch(error => console.error("Failed to load the offline queue:", error));
+    return () => { cancelled = true; };
+  }, [team?.id]);
+
+  const hasQueuedEdits = queuedEdits.length > 0;
+  useEffect(() => {
+    if (isOnline && hasQueuedEdits && !isDataLoading) replayQueue();
+  }, [isOnline, hasQueuedEdits, isDataLoading, team?.id, replayRound]);
+
+  const syncStates = useMemo(() => {
+    const states: Record<string, SyncState> = {};
+    recentlySyncedKeys.forEach(key => { states[key] = 'synced'; });
+    queuedEdits.forEach(edit => { states[queuedEditRowKey(edit)] = 'pending'; });
+    return states;
+  }, [queuedEdits, recentlySyncedKeys]);
+
+  const markSynced = (rowKey: string) => {
+    setRecentlySyncedKeys(prev => new Set(prev).add(rowKey));
+    window.clearTimeout(syncedTimeoutsRef.current[rowKey]);
+    syncedTimeoutsRef.current[rowKey] = window.setTimeout(() => {
+        setRecentlySyncedKeys(prev => {
+            const next = new Set(prev);
+            next.delete(rowKey);
+            return next;
+        });
+        delete syncedTimeoutsRef.current[rowKey];
+    }, SYNCED_BADGE_MS);
+  };
+
+  // Resolves to the queued edit, or null if it couldn't be stored on this device.
+  const queueEdit = async (payload: QueuedEditPayload): Promise<QueuedEdit | null> => {
+    if (!team) return null;
+    try {
+        const edit = await enqueueEdit(team.id, payload);
+        setQueuedEdits(prev => [...prev, edit]);
+        return edit;
+    } catch (error) {
+        console.error("Failed to queue offline edit:", error);
+        setInfoModalContent("You're offline and this change couldn't be saved on this device. Please try again once you're back online.");
+        return null;
+    }
+  };
+
+  // 'retry' means the connection dropped again, so this edit and everything after it stay queued.
+  const replayEdit = async (edit: QueuedEdit): Promise<'synced' | 'retry' | { theirs: number | null; reason: string }> => {
+    const failed = () => navigator.onLine ? { theirs: null, reason: 'The server rejected this change.' } : 'retry' as const;
+
+    if (edit.kind === 'stock') {
+        pendingStockWritesRef.current.add(edit.itemId);
+        const result = await saveStockField(edit.itemId, edit.field, edit.value, edit.baseValue, edit.baseVersion);
+        pendingStockWritesRef.current.delete(edit.itemId);
+        if (!result) return failed();
+        if ('conflict' in result) {
+            setStockItems(prev => upsertById(prev, result.conflict));
+            return { theirs: result.conflict[edit.field], reason: 'Someone else changed this value while you were offline.' };
+        }
+        setStockItems(prev => upsertById(prev, result.saved));
+        await logActivity(edit.itemName, `Set '${FIELD_LABELS[edit.field]}' to ${edit.value}`, {
+            field: edit.field, old_value: edit.baseValue, new_value: edit.value, delta: edit.value - edit.baseValue, source: edit.source, item_id: edit.itemId,
+        });
+        return 'synced';
+    }
+
+    if (edit.kind === 'binStatus') {
+        const { data: current, error } = await supabase.from('bin_status_counts').select('quantity')
+            .eq('team_id', edit.team_id).eq('status_name', edit.statusKey).eq('bin_type_id', edit.binId).maybeSingle();
+        if (error) {
+            console.error("Failed to load bin status count:", error);
+            return failed();
+        }
+        const theirs = current?.quantity ?? 0;
+        if (theirs !== edit.baseValue && theirs !== edit.value) {
+            return { theirs, reason: 'Someone else changed this count while you were offline.' };
+        }
+        return await saveStatusCount(edit.statusKey, edit.binId, edit.value) ? 'synced' : failed();
+    }
+
+    return await applyBinMovement(edit.details) ? 'synced' : failed();
+  };
+
+  // Takes edits from the stored queue one at a time, so edits queued while it runs are replayed too.
+  const replayQueue = async () => {
+    if (!team || isReplayingRef.current) return;
+    isReplayingRef.current = true;
+    setIsReplaying(true);
+    window.clearTimeout(replayRetryTimeoutRef.current);
+    let touchedBins = false;
+    let replayed = 0;
+    let stopped = false;
+    try {
+        while (true) {
+            const [edit] = await listQueuedEdits(team.id);
+            if (!edit) break;
+            const result = await replayEdit(edit);
+            if (result === 'retry') {
+                stopped = true;
+                break;
+            }
+            await removeQueuedEdit(edit.id);
+            setQueuedEdits(prev => prev.filter(e => e.id !== edit.id));
+            replayed++;
+            if (edit.kind !== 'stock') touchedBins = true;
+            if (result === 'synced') {
+                markSynced(queuedEditRowKey(edit));
+            } else {
+                const conflict = await addSyncConflict(edit, result.theirs, result.reason);
+                setSyncConflicts(prev => [...prev, conflict]);
+            }
+        }
+    } catch (error) {
+        console.error("Failed to replay offline edits:", error);
+        stopped = true;
+    } finally {
+        isReplayingRef.current = false;
+        setIsReplaying(false);
+    }
+    // Another round picks up anything queued after the last check; a stopped replay waits first
+    // rather than retrying in a tight loop while the connection is flaky.
+    if (stopped) replayRetryTimeoutRef.current = window.setTimeout(() => setReplayRound(round => round + 1), REPLAY_RETRY_MS);
+    else if (replayed > 0) setReplayRound(round => round + 1);
+    if (touchedBins) await fetchBinData(team.id);
+  };
+
+  // 'Apply Mine' re-runs the edit as a fresh one against current data; 'Discard' keeps the server's.
+  const resolveSyncConflict = async (conflict: SyncConflict, apply: boolean) => {
+    if (!team) return;
+    try {
+        await removeSyncConflict(conflict.id);
+    } catch (error) {
+        console.error("Failed to remove sync conflict:", error);
+        return;
+    }
+    setSyncConflicts(prev => prev.filter(c => c.id !== conflict.id));
+    const { edit } = conflict;
+    if (apply) {
+        if (edit.kind === 'stock') await handleStockUpdate(edit.itemId, edit.field, edit.value, edit.source);
+        else if (edit.kind === 'binStatus') await handleUpdateStatusCount(edit.statusKey, edit.binId, edit.value);
+        else await handleBinMovement(edit.details);
+    } else if (edit.kind !== 'stock') {
+        // Drops the optimistic count or pending history entry
+        await fetchBinData(team.id);
+    }
+  };
 
 
   const [currentView, setCurrentView] = useState<View>('dashboard');
   const [inventoryViewMode, setInventoryViewMode] = useState<InventoryViewMode>('table');
-  const [modal, setModal] = useState<'newDay' | 'commandInput' | 'report' | 'addItem' | 'suppliers' | 'editItem' | 'deleteItem' | 'confirmReset' | 'confirmBinReset' | 'confirmPriceChange' | 'confirmAction' | null>(null);
+  const [modal, setModal] = useState<'newDay' | 'commandInput' | 'report' | 'addItem' | 'suppliers' | 'editItem' | 'archiveItem' | 'confirmReset' | 'confirmBinReset' | 'confirmPriceChange' | 'confirmAction' | 'export' | 'import' | 'createTeam' | 'syncReview' | 'purchaseOrders' | 'reorder' | 'valuation' | 'locations' | 'transferStock' | 'stockCount' | 'aiPreview' | null>(null);
   const [itemToEdit, setItemToEdit] = useState<StockItem | null>(null);
-  const [itemToDelete, setItemToDelete] = useState<StockItem | null>(null);
-  const [editFormData, setEditFormData] = useState<{name: string, category: string, color: string} | null>(null);
+  const [itemToArchive, setItemToArchive] = useState<StockItem | null>(null);
+  const [aiPreview, setAiPreview] = useState<ParsedAICommand[] | null>(null);
+  const [editFormData, setEditFormData] = useState<EditItemData | null>(null);
   
   const [priceConfirmation, setPriceConfirmation] = useState<{ item: StockItem; newItemData: AddItemData } | null>(null);
   const [confirmationRequest, setConfirmationRequest] = useState<{ title: string; message: React.ReactNode; onConfirm: () => void; } | null>(null);
+  const [stockConflict, setStockConflict] = useState<{ theirs: StockItem; field: EditableStockItemKey; base: number; mine: number; source: ActivityEventSource } | null>(null);
 
   useEffect(() => {
     if (modal === 'editItem' && itemToEdit) {
         setEditFormData({
             name: itemToEdit.name,
             category: itemToEdit.category || '',
-            color: itemToEdit.color
+            color: itemToEdit.color,
+            baseUnit: baseUnitOf(itemToEdit),
+            units: (itemToEdit.units || []).map(u => ({ ...u })),
         });
     } else {
         setEditFormData(null);
@@ -320,106 +801,209 @@ const Dashboard: React.FC<DashboardProps> = ({ session }) => {
 
   const [reportData, setReportData] = useState<{title: string, content: any} | null>(null);
   const [infoModalContent, setInfoModalContent] = useState<string | null>(null);
+
+  // --- PERMISSIONS ---
+  // The UI hides what a role can't do; handlers check again so AI commands and stale UI can't bypass it.
+  // The database enforces the same rules through the row policies in DEPLOYMENT.md.
+  const can = (permission: Permission) => hasPermission(currentRole, permission);
+  const valuationMethod = team?.valuation_method || DEFAULT_VALUATION_METHOD;
+  const requirePermission = (permission: Permission): boolean => {
+    if (can(permission)) return true;
+    const needed = permission === 'team.manage' || permission === 'data.reset' ? 'an Owner' : 'a Manager or Owner';
+    setInfoModalContent(`As a ${currentRole || 'team member'} you can't do that. Ask ${needed} to make this change.`);
+    return false;
+  };
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isBinAILoading, setIsBinAILoading] = useState<boolean>(false);
-  const [selectedDate, setSelectedDate] = useState<string>(new Date().toISOString().split('T')[0]);
+  const [selectedDate, setSelectedDate] = useState<string>(getTodayKey(null));
+  const [snapshots, setSnapshots] = useState<StockSnapshot[] | null>(null);
+  const [isSnapshotLoading, setIsSnapshotLoading] = useState(false);
+  const todayKey = getTodayKey(team);
+  const isViewingPastDay = selectedDate < todayKey;
+
+  useEffect(() => {
+    if (!team || !isViewingPastDay) {
+        setSnapshots(null);
+        return;
+    }
+    let cancelled = false;
+    const fetchSnapshots = async () => {
+        setIsSnapshotLoading(true);
+        const { data, error } = await supabase.from('stock_snapshots').select('*')
+            .eq('team_id', team.id).eq('snapshot_date', selectedDate).order('name');
+        if (cancelled) return;
+        if (error) console.error("Error fetching stock snapshots:", error.message);
+        setSnapshots((data as StockSnapshot[]) || []);
+        setIsSnapshotLoading(false);
+    };
+    fetchSnapshots();
+    return () => { cancelled = true; };
+  }, [team?.id, selectedDate, isViewingPastDay]);
 
 
   // --- BUSINESS LOGIC & CALCULATIONS ---
-  const handleStockUpdate = async (itemId: string, field: EditableStockItemKey, value: number) => {
+  const logActivity = async (itemName: string, changeDescription: string, event: ActivityEvent) => {
     if (!team) return;
+    const { data, error } = await supabase.from('activity_log').insert({
+        team_id: team.id,
+        user_id: session.user.id,
+        item_name: itemName,
+        change_description: changeDescription,
+        event,
+    }).select('*, users(full_name)').single();
+    if (error) {
+        console.error("Failed to create activity log:", error);
+    } else if (data) {
+        setActivityLog(prev => prev.some(e => e.id === data.id) ? prev : [data as ActivityLogEntry, ...prev]);
+    }
+  };
+
+  // The log held in state is only the newest rows a single request returns, so exports and
+  // reports read the date range from the database a page at a time.
+  const fetchActivityRange = async (start: Date, end: Date): Promise<ActivityLogEntry[] | null> => {
+    if (!team) return null;
+    const entries: ActivityLogEntry[] = [];
+    for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+        const { data, error } = await supabase.from('activity_log').select('*, users(full_name)').eq('team_id', team.id)
+            .gte('timestamp', start.toISOString()).lte('timestamp', end.toISOString())
+            .order('timestamp', { ascending: false }).order('id').range(from, from + EXPORT_PAGE_SIZE - 1);
+        if (error || !data) {
+            console.error("Error fetching activity log range:", error);
+            return null;
+        }
+        entries.push(...(data as ActivityLogEntry[]));
+        if (data.length < EXPORT_PAGE_SIZE) return entries;
+    }
+  };
+
+  // Adds log entries written by a database function to the top of the activity log.
+  const fetchActivityEntries = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    const { data, error } = await supabase.from('activity_log').select('*, users(full_name)').in('id', ids);
+    if (error || !data) {
+        console.error("Error fetching activity log entries:", error);
+        return;
+    }
+    const fresh = (data as ActivityLogEntry[]).sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    setActivityLog(prev => [...fresh.filter(e => !prev.some(p => p.id === e.id)), ...prev]);
+  };
+
+  // Compare-and-swap on the row version, which a trigger bumps on every update. Resolves to
+  // the saved row, 'conflict' if the row changed since `expectedVersion`, or null on error.
+  const writeStockField = async (itemId: string, field: EditableStockItemKey, value: number, expectedVersion?: number): Promise<StockItem | 'conflict' | null> => {
+    let query = supabase.from('stock_items').update({ [field]: value }).eq('id', itemId);
+    if (expectedVersion !== undefined) query = query.eq('version', expectedVersion);
+    const { data, error } = await query.select();
+    if (error) {
+        console.error("Failed to update stock item:", error);
+        return null;
+    }
+    return data && data.length > 0 ? data[0] as StockItem : 'conflict';
+  };
+
+  // Applies a relative change server-side so concurrent deltas (two packers adding at once) both land.
+  const incrementStockField = async (itemId: string, field: EditableStockItemKey, delta: number): Promise<StockItem | null> => {
+    const { data, error } = await supabase.rpc('increment_stock_item', { p_item_id: itemId, p_field: field, p_delta: delta });
+    if (error || !data) {
+        console.error("Failed to increment stock item:", error);
+        return null;
+    }
+    setStockItems(prev => upsertById(prev, data as StockItem));
+    return data as StockItem;
+  };
+
+  // Writes `value` as long as the field still holds `baseValue` on the server, retrying once
+  // if only other fields moved underneath us. Resolves to the saved row, the latest row when
+  // someone else changed this field, or null on error.
+  const saveStockField = async (itemId: string, field: EditableStockItemKey, value: number, baseValue: number, baseVersion?: number): Promise<{ saved: StockItem } | { conflict: StockItem } | null> => {
+    const saved = await writeStockField(itemId, field, value, baseVersion);
+    if (saved !== 'conflict') return saved ? { saved } : null;
+
+    const { data: latest, error } = await supabase.from('stock_items').select('*').eq('id', itemId).single();
+    if (error || !latest) {
+        console.error("Failed to reload stock item:", error);
+        return null;
+    }
+    if (latest[field] !== baseValue) return { conflict: latest };
+    const retried = await writeStockField(itemId, field, value, latest.version);
+    if (retried === 'conflict') return { conflict: latest };
+    return retried ? { saved: retried } : null;
+  };
+
+  // Absolute edit ("set Packed to 40"). If someone else changed the same field since it was
+  // loaded, the user picks between their value and ours instead of silently overwriting it.
+  // Offline, the edit is queued and replayed once the connection is back.
+  const handleStockUpdate = async (itemId: string, field: EditableStockItemKey, value: number, source: ActivityEventSource = 'manual') => {
+    if (!team || !requirePermission(permissionForField(field))) return;
     const item = stockItems.find(i => i.id === itemId);
     if (!item) return;
     
     const oldValue = item[field];
     if (oldValue === value) return;
 
-    const originalStockItems = stockItems;
+    const restoreItem = () => setStockItems(prev => prev.map(i => i.id === itemId ? item : i));
+    const queueOffline = () => queueEdit({ kind: 'stock', itemId, itemName: item.name, field, value, baseValue: oldValue, baseVersion: item.version, source });
     setStockItems(prevItems =>
       prevItems.map(item =>
         item.id === itemId ? { ...item, [field]: value } : item
       )
     );
 
-    const { error } = await supabase.from('stock_items').update({ [field]: value }).eq('id', itemId);
-    if (error) {
-        console.error("Failed to update stock item:", error);
-        setStockItems(originalStockItems); // Revert on failure
+    if (!navigator.onLine) {
+        if (!await queueOffline()) restoreItem();
         return;
     }
 
-    const fieldLabels: Record<EditableStockItemKey, string> = {
-        opening_stock: 'Opening Stock',
-        added_today: 'Added Today',
-        packed: 'Packed',
-        lost: 'Lost',
-        alert_level: 'Alert Level',
-        price: 'Price'
-    };
-
-    const changeDescription = `Set '${fieldLabels[field]}' to ${value}`;
-    const newLogEntry = {
-        team_id: team.id,
-        user_id: session.user.id,
-        item_name: item.name,
-        change_description: changeDescription,
-    };
-
-    const { data, error: logError } = await supabase.from('activity_log').insert(newLogEntry).select('*, users(full_name)').single();
-    if (logError) {
-        console.error("Failed to create activity log:", logError);
-    } else if(data) {
-        setActivityLog(prev => [data as ActivityLogEntry, ...prev]);
+    pendingStockWritesRef.current.add(itemId);
+    const result = await saveStockField(itemId, field, value, oldValue, item.version);
+    pendingStockWritesRef.current.delete(itemId);
+    if (!result) {
+        // The connection dropped mid-write, so keep the edit for the replay
+        if (!navigator.onLine && await queueOffline()) return;
+        restoreItem();
+        return;
+    }
+    if ('conflict' in result) {
+        setStockItems(prev => upsertById(prev, result.conflict));
+        setStockConflict({ theirs: result.conflict, field, base: oldValue, mine: value, source });
+        return;
     }
+    setStockItems(prev => upsertById(prev, result.saved));
+
+    await logActivity(item.name, `Set '${FIELD_LABELS[field]}' to ${value}`, {
+        field, old_value: oldValue, new_value: value, delta: value - oldValue, source, item_id: itemId,
+    });
   };
 
+  // The rollover runs in the database (roll_over_stock), the same as the scheduled one, so a
+  // business day is closed exactly once whether it's triggered here or by the schedule.
   const handleNewDay = async () => {
-    if (!team) return;
+    if (!team || !requirePermission('stock.manage')) return;
     setIsLoading(true);
 
-    const updates = stockItems.map(item => {
-      const remaining = item.opening_stock + item.added_today - item.packed - item.lost;
-      return {
-        id: item.id,
-        opening_stock: remaining,
-        added_today: 0,
-        packed: 0,
-        lost: 0
-      };
-    });
-
-    const { error } = await supabase.from('stock_items').upsert(updates);
-    if (error) {
+    const { data, error } = await supabase.rpc('roll_over_stock', { p_team_id: team.id });
+    if (error || !data) {
         console.error("New Day Error:", error);
         setModal(null);
         setIsLoading(false);
         return;
     }
 
-    setStockItems(prevItems =>
-      prevItems.map(item => {
-        const remaining = item.opening_stock + item.added_today - item.packed - item.lost;
-        return {
-          ...item,
-          opening_stock: remaining,
-          added_today: 0,
-          packed: 0,
-          lost: 0
-        };
-      })
-    );
-
-    const newLogEntry = {
-        team_id: team.id,
-        item_name: 'All Items',
-        change_description: "'New Day' process initiated.",
-        user_id: session.user.id
-    };
-
-    const { data: logData, error: logError } = await supabase.from('activity_log').insert(newLogEntry).select('*, users(full_name)').single();
-    if (!logError && logData) {
-        setActivityLog(prev => [logData as ActivityLogEntry, ...prev]);
+    const rollover = data.rollover as StockRollover;
+    if (!data.rolled) {
+        const by = rollover.trigger === 'schedule' ? 'automatically' : `by ${teamMembers.find(m => m.id === rollover.triggered_by)?.name || 'a teammate'}`;
+        setInfoModalContent(`${new Date(rollover.business_date + 'T00:00:00').toLocaleDateString()} was already rolled over ${by} at ${new Date(rollover.rolled_at).toLocaleTimeString()}.\n\nAnything counted since then rolls over at the next New Day.`);
+    } else {
+        const [itemsResult, levelsResult] = await Promise.all([
+            supabase.from('stock_items').select('*').eq('team_id', team.id).is('archived_at', null).order('name'),
+            supabase.from('stock_levels').select('*').eq('team_id', team.id),
+        ]);
+        if (itemsResult.data) setStockItems(itemsResult.data);
+        if (itemsResult.error) console.error("Error reloading stock items:", itemsResult.error.message);
+        if (levelsResult.data) setLevels(levelsResult.data);
+        if (levelsResult.error) console.error("Error reloading stock levels:", levelsResult.error.message);
     }
+    await fetchUsageHistory(team.id);
     
     setModal(null);
     setIsLoading(false);
@@ -471,6 +1055,9 @@ const Dashboard: React.FC<DashboardProps> = ({ session }) => {
     });
   };
 
+  // Alternate units are only offered once the name matches an existing item
+  const addItemMatch = stockItems.find(i => i.name.toLowerCase() === newItemData.name.trim().toLowerCase()) || null;
+
   const resetAddItemForm = () => {
     setNewItemData({
       name: '', quantity: '', alertLevel: 100, price: '', totalPrice: '', color: COLOR_PALETTE[0], transactionType: 'cash', supplierName: ''
@@ -478,177 +1065,750 @@ const Dashboard: React.FC<DashboardProps> = ({ session }) => {
     setLastPriceFieldEdited('unit');
   };
 
+  // --- SUPPLIER HELPERS ---
+  const findOrCreateSupplier = async (supplierName: string): Promise<Supplier | null> => {
+    if (!team) return null;
+    const existing = suppliers.find(s => s.name.toLowerCase() === supplierName.toLowerCase());
+    if (existing) return existing;
+    // Buying from an archived supplier again brings them back rather than adding a duplicate
+    const archived = archive.suppliers.find(s => s.name.toLowerCase() === supplierName.toLowerCase());
+    if (archived) return await handleRestoreArchived('supplier', archived.id) ? { ...archived, archived_at: null } : null;
+    const { data, error } = await supabase.from('suppliers').insert({ name: supplierName, team_id: team.id, balance: 0 }).select().single();
+    if (error || !data) {
+        console.error("Error creating new supplier:", error);
+        return null;
+    }
+    setSuppliers(prev => upsertById(prev, data));
+    return data as Supplier;
+  };
+
+  // --- RECEIVING STOCK ---
+  // add_stock receives the stock with its cost layer, records any credit purchase and logs the
+  // receipt in one transaction, so the supplier is never left uncredited for stock that landed.
+  const addStock = async (name: string, quantity: number, unitCost: number, supplierName: string | null, color: string, alertLevel: number, description: string, source: ActivityEventSource): Promise<StockItem | null> => {
+    if (!team) return null;
+    const { data, error } = await supabase.rpc('add_stock', {
+        p_team_id: team.id, p_name: name, p_quantity: quantity, p_unit_cost: unitCost, p_supplier: supplierName,
+        p_color: color, p_alert_level: alertLevel, p_description: description, p_source: source,
+    });
+    if (error || !data) {
+        console.error("Error adding stock:", error);
+        setInfoModalContent(`${error?.message || `The stock for ${name} couldn't be saved.`} Nothing was changed.`);
+        return null;
+    }
+    setStockItems(prev => upsertById(prev, data.item as StockItem));
+    setCostLayers(prev => (data.layers as CostLayer[]).reduce((layers, layer) => upsertById(layers, layer), prev));
+    if (data.supplier) {
+        const supplier = data.supplier as Supplier;
+        setSuppliers(prev => upsertById(prev, supplier));
+        setArchive(prev => ({ ...prev, suppliers: prev.suppliers.filter(s => s.id !== supplier.id) }));
+        setTransactions(prev => upsertById(prev, data.transaction as CreditTransaction));
+    }
+    await fetchActivityEntries([data.activity_id as string]);
+    return data.item as StockItem;
+  };
+
+  const remainingOf = (item: StockItem) => item.opening_stock + item.added_today - item.packed - item.lost;
+
   const handleAddItem = async (confirmedItemData: AddItemData, updateExistingPrice = false) => {
-    if (!team) return;
+    if (!team || !requirePermission('stock.manage')) return;
     setIsLoading(true);
     setModal(null);
     setPriceConfirmation(null);
     
-    const { name, quantity, alertLevel, price, transactionType, supplierName, color } = confirmedItemData;
-    const numQuantity = typeof quantity === 'number' ? quantity : 0;
-    const numPrice = typeof price === 'number' ? price : 0;
-    const numAlertLevel = typeof alertLevel === 'number' ? alertLevel : 0;
-
+    const { name, quantity, alertLevel, price, transactionType, supplierName, color, unit } = confirmedItemData;
+    const source = confirmedItemData.source || 'manual';
     const existingItem = stockItems.find(i => i.name.toLowerCase() === name.toLowerCase());
+    if (!existingItem && archive.items.some(i => i.name.toLowerCase() === name.toLowerCase())) {
+        setInfoModalContent(`${name} is archived. Restore it from Settings > Archive to add stock to it.`);
+        setIsLoading(false);
+        return;
+    }
 
-    if (existingItem) {
-      if (Math.abs(existingItem.price - numPrice) > 0.001 && !updateExistingPrice) {
-          setPriceConfirmation({ item: existingItem, newItemData: confirmedItemData });
-          setModal('confirmPriceChange');
-          setIsLoading(false);
-          return;
-      }
+    // Stock is stored in the base unit, so a quantity in pallets is multiplied out and its price divided
+    const factor = unitFactor(existingItem || { base_unit: '', units: [] }, unit);
+    if (factor === null) {
+        setInfoModalContent(existingItem ? `"${unit}" isn't a unit of ${existingItem.name}.` : `${name} is a new item, so give its quantity in single units.`);
+        setIsLoading(false);
+        return;
+    }
+    const numQuantity = (typeof quantity === 'number' ? quantity : 0) * factor;
+    const numPrice = (typeof price === 'number' ? price : 0) / factor;
+    const numAlertLevel = typeof alertLevel === 'number' ? alertLevel : 0;
+    if (numQuantity <= 0) {
+        setInfoModalContent(`Enter how many ${name} were received.`);
+        setIsLoading(false);
+        return;
+    }
 
-      const updatedFields: Partial<StockItem> = {
-          added_today: existingItem.added_today + numQuantity,
-      };
-      if (updateExistingPrice) {
-          updatedFields.price = numPrice;
-      }
-      
-      const { data, error } = await supabase.from('stock_items').update(updatedFields).eq('id', existingItem.id).select().single();
-      if (error) {
-          console.error("Error updating stock item:", error);
-          setIsLoading(false); return;
-      }
-      setStockItems(prev => prev.map(item => item.id === existingItem.id ? data : item));
-    } else {
-        const { data, error } = await supabase.from('stock_items').insert({
-            name, added_today: numQuantity, alert_level: numAlertLevel, price: numPrice, color, team_id: team.id, opening_stock: 0, packed: 0, lost: 0
-        }).select().single();
+    if (existingItem && Math.abs(existingItem.price - numPrice) > 0.001 && !updateExistingPrice) {
+        setPriceConfirmation({ item: existingItem, newItemData: { ...confirmedItemData, quantity: numQuantity, price: numPrice, unit: undefined } });
+        setModal('confirmPriceChange');
+        setIsLoading(false);
+        return;
+    }
+
+    const baseUnit = existingItem ? baseUnitOf(existingItem) : baseUnitOf({});
+    const inUnit = factor !== 1 && typeof quantity === 'number' ? ` (${quantity} ${pluralizeUnit(unit!, quantity)})` : '';
+    const onCredit = transactionType === 'credit' && !!supplierName;
+    const logChange = `Added ${numQuantity} ${pluralizeUnit(baseUnit, numQuantity)}${inUnit} of '${name}'${onCredit ? ` via credit from ${supplierName}` : ' via cash'}.`;
+    const received = await addStock(existingItem?.name || name, numQuantity, numPrice, onCredit ? supplierName : null, color, numAlertLevel, logChange, source);
+    if (!received) {
+        setIsLoading(false);
+        return;
+    }
 
+    if (existingItem && updateExistingPrice && Math.abs(existingItem.price - numPrice) > 0.001) {
+        const { data, error } = await supabase.from('stock_items').update({ price: numPrice }).eq('id', existingItem.id).select().single();
         if (error) {
-            console.error("Error creating stock item:", error);
+            console.error("Error updating stock item:", error);
+            setInfoModalContent(`The stock was added, but the price of ${name} couldn't be changed. Please set it again.`);
             setIsLoading(false); return;
         }
-        setStockItems(prev => [...prev, data]);
+        setStockItems(prev => upsertById(prev, data));
+        await logActivity(name, `Set '${FIELD_LABELS.price}' to ${numPrice}`, {
+            field: 'price', old_value: existingItem.price, new_value: numPrice, delta: numPrice - existingItem.price, source, item_id: existingItem.id,
+        });
     }
-    
-    // Handle supplier and transaction logic
-    let supplierId: string | undefined;
-    if (transactionType === 'credit' && supplierName) {
-        let supplier = suppliers.find(s => s.name.toLowerCase() === supplierName.toLowerCase());
-        if (!supplier) {
-            const { data, error } = await supabase.from('suppliers').insert({ name: supplierName, team_id: team.id, balance: 0 }).select().single();
-            if (error) console.error("Error creating new supplier:", error);
-            else {
-                supplier = data;
-                setSuppliers(prev => [...prev, data]);
+
+    resetAddItemForm();
+    setIsLoading(false);
+  };
+  
+    const handleImportItems = async (plan: StockImportPlanEntry[]): Promise<boolean> => {
+        if (!team || !requirePermission('stock.manage')) return false;
+        const entries = plan.filter(entry => entry.row && (entry.action === 'create' || entry.action === 'update'));
+        if (entries.length === 0) return true;
+
+        // 1. Upsert every new and changed item in a single batch
+        const rows = entries.map(entry => {
+            const row = entry.row!;
+            const base = entry.match;
+            return {
+                ...(base ? { id: base.id } : {}),
+                team_id: team.id,
+                name: base ? base.name : row.name,
+                category: row.category ?? base?.category ?? '',
+                opening_stock: row.opening_stock ?? base?.opening_stock ?? 0,
+                added_today: base?.added_today ?? 0,
+                packed: base?.packed ?? 0,
+                lost: base?.lost ?? 0,
+                alert_level: row.alert_level ?? base?.alert_level ?? 100,
+                price: row.price ?? base?.price ?? 0,
+                color: row.color ?? base?.color ?? COLOR_PALETTE[Math.floor(Math.random() * COLOR_PALETTE.length)],
+            };
+        });
+
+        const { data: savedItems, error } = await supabase.from('stock_items').upsert(rows, { defaultToNull: false }).select();
+        if (error || !savedItems) {
+            console.error("Error importing stock items:", error);
+            setInfoModalContent("The import failed and no items were changed. Please check the file and try again.");
+            return false;
+        }
+        setStockItems(prev => {
+            const byId = new Map(prev.map(item => [item.id, item]));
+            (savedItems as StockItem[]).forEach(item => byId.set(item.id, item));
+            return Array.from(byId.values()).sort((a, b) => a.name.localeCompare(b.name));
+        });
+
+        // 2. One activity log entry per changed item
+        const logEntries = entries.map(entry => {
+            const itemName = entry.match ? entry.match.name : entry.name;
+            const openingChange = entry.changes.find(c => c.field === 'opening_stock');
+            const summary = entry.changes.map(c => `${c.field.replace('_', ' ')} ${c.from !== null ? `${c.from} → ` : ''}${c.to}`).join(', ');
+            const event: ActivityEvent = openingChange
+                ? { field: 'opening_stock', old_value: openingChange.from as number | null, new_value: openingChange.to as number, delta: (openingChange.to as number) - ((openingChange.from as number | null) ?? 0), source: 'import' }
+                : { field: null, old_value: null, new_value: null, delta: null, source: 'import' };
+            return {
+                team_id: team.id,
+                user_id: session.user.id,
+                item_name: itemName,
+                change_description: entry.action === 'create' ? `Imported new item (${summary}).` : `Imported changes: ${summary}.`,
+                event,
+            };
+        });
+        const { data: logData, error: logError } = await supabase.from('activity_log').insert(logEntries).select('*, users(full_name)');
+        if (logError) console.error("Failed to log import:", logError);
+        else if (logData) {
+            const ids = new Set((logData as ActivityLogEntry[]).map(e => e.id));
+            setActivityLog(prev => [...(logData as ActivityLogEntry[]), ...prev.filter(e => !ids.has(e.id))]);
+        }
+
+        return true;
+    };
+
+    const handleEditItem = async (itemId: string, updates: EditItemData) => {
+        if (!team || !requirePermission('stock.manage')) return;
+        const itemToUpdate = stockItems.find(item => item.id === itemId);
+        if (!itemToUpdate) return;
+
+        const baseUnit = updates.baseUnit.trim().toLowerCase();
+        const units = updates.units.map(u => ({ name: u.name.trim().toLowerCase(), factor: Number(u.factor) }));
+        const unitsError = validateUnits(baseUnit, units);
+        if (unitsError) {
+            setInfoModalContent(unitsError);
+            return;
+        }
+        
+        setIsLoading(true);
+        setModal(null);
+        
+        const { data: updatedItem, error } = await supabase
+            .from('stock_items')
+            .update({ name: updates.name, category: updates.category, color: updates.color, base_unit: baseUnit, units })
+            .eq('id', itemId)
+            .select()
+            .single();
+        
+        if (error) {
+            console.error("Error updating item details:", error);
+        } else {
+            setStockItems(prev => prev.map(item => item.id === itemId ? updatedItem : item));
+            
+            const changes: string[] = [];
+            if (updates.name !== itemToUpdate.name) changes.push(`renamed to '${updates.name}'`);
+            if (updates.category !== itemToUpdate.category) changes.push(`changed category to '${updates.category}'`);
+            if (updates.color !== itemToUpdate.color) changes.push(`changed color`);
+            if (baseUnit !== baseUnitOf(itemToUpdate)) changes.push(`counted in ${pluralizeUnit(baseUnit, 2)}`);
+            if (JSON.stringify(units) !== JSON.stringify(itemToUpdate.units || [])) {
+                changes.push(units.length > 0 ? `units set to ${units.map(u => `${u.name} = ${u.factor}`).join(', ')}` : 'alternate units removed');
+            }
+
+            if (changes.length > 0) {
+              await logActivity(itemToUpdate.name, `Item details updated: ${changes.join(', ')}.`, {
+                  field: null, old_value: null, new_value: null, delta: null, source: 'manual',
+              });
             }
         }
-        supplierId = supplier?.id;
-    }
+        setIsLoading(false);
+    };
+
+    // --- ARCHIVE HANDLERS ---
+    // Archiving hides a record from the main tables without deleting it, so the history and
+    // reports that name it still add up. Settings > Archive lists and restores them.
+    const setArchivedAt = async (kind: ArchiveKind, id: string, archivedAt: string | null) => {
+        const { data, error } = await supabase.from(ARCHIVE_TABLES[kind]).update({ archived_at: archivedAt }).eq('id', id).select().single();
+        if (error || !data) {
+            console.error(`Error ${archivedAt ? 'archiving' : 'restoring'} ${kind}:`, error);
+            if (error?.message) setInfoModalContent(error.message);
+            return null;
+        }
+        return data;
+    };
+
+    // Bins still owed either way would drop out of the totals, so those have to be settled first.
+    const countOutstandingBins = async (column: 'party_id' | 'bin_type_id', id: string): Promise<number | null> => {
+        const { data, error } = await supabase.from('bin_balances').select('balance').eq(column, id).neq('balance', 0);
+        if (error) {
+            console.error("Error checking bin balances:", error);
+            return null;
+        }
+        return (data || []).reduce((sum: number, row: { balance: number }) => sum + Math.abs(row.balance), 0);
+    };
+
+    const handleArchiveItem = async (itemId: string) => {
+        if (!team || !requirePermission('stock.manage')) return;
+        const item = stockItems.find(i => i.id === itemId);
+        if (!item) return;
+
+        setIsLoading(true);
+        setModal(null);
+        const archived = await setArchivedAt('item', itemId, new Date().toISOString());
+        if (archived) {
+            setStockItems(prev => prev.filter(i => i.id !== itemId));
+            setArchive(prev => ({ ...prev, items: upsertById(prev.items, archived as StockItem) }));
+            await logActivity(item.name, `Item archived.`, {
+                field: null, old_value: null, new_value: null, delta: null, source: 'manual', item_id: itemId, archived: true,
+            });
+        }
+        setIsLoading(false);
+    };
+
+    const handleArchiveSupplier = async (supplierId: string): Promise<boolean> => {
+        if (!team || !requirePermission('suppliers.manage')) return false;
+        const archived = await setArchivedAt('supplier', supplierId, new Date().toISOString());
+        if (!archived) return false;
+        setSuppliers(prev => prev.filter(s => s.id !== supplierId));
+        setArchive(prev => ({ ...prev, suppliers: upsertById(prev.suppliers, archived as Supplier) }));
+        return true;
+    };
+
+    const handleRestoreArchived = async (kind: ArchiveKind, id: string): Promise<boolean> => {
+        if (!team || !requirePermission(ARCHIVE_PERMISSIONS[kind])) return false;
+        if (kind === 'item') {
+            const item = archive.items.find(i => i.id === id);
+            if (!item) return false;
+            if (stockItems.some(i => i.name.toLowerCase() === item.name.toLowerCase())) {
+                setInfoModalContent(`An item called ${item.name} already exists. Rename it before restoring this one.`);
+                return false;
+            }
+        }
+
+        const restored = await setArchivedAt(kind, id, null);
+        if (!restored) return false;
+        if (kind === 'item') {
+            setArchive(prev => ({ ...prev, items: prev.items.filter(i => i.id !== id) }));
+            setStockItems(prev => upsertById(prev, restored as StockItem).sort((a, b) => a.name.localeCompare(b.name)));
+            await logActivity(restored.name, `Item restored from the archive.`, {
+                field: null, old_value: null, new_value: null, delta: null, source: 'manual', item_id: id,
+            });
+        } else if (kind === 'supplier') {
+            setArchive(prev => ({ ...prev, suppliers: prev.suppliers.filter(s => s.id !== id) }));
+            setSuppliers(prev => upsertById(prev, restored as Supplier).sort((a, b) => a.name.localeCompare(b.name)));
+        } else {
+            await fetchBinData(team.id);
+        }
+        return true;
+    };
     
-    const totalValue = numQuantity * numPrice;
-    if (transactionType === 'credit' && supplierId) {
-        const { data: transaction, error: transError } = await supabase.from('credit_transactions').insert({
-            supplier_id: supplierId, team_id: team.id, stock_item_name: name, quantity: numQuantity, total_value: totalValue
+    // Partial payments are fine; paying more than is owed is refused so the balance can't go negative.
+    const handleRecordPayment = async (supplierId: string, payment: { amount: number; paidOn: string; reference: string }): Promise<boolean> => {
+        if (!team || !requirePermission('suppliers.manage')) return false;
+        const supplier = suppliers.find(s => s.id === supplierId);
+        if (!supplier) return false;
+        const amount = Math.round(payment.amount * 100) / 100;
+        if (amount <= 0) return false;
+        if (amount > supplier.balance + 0.005) {
+            setInfoModalContent(`${supplier.name} is only owed R${supplier.balance.toLocaleString('en-US', { minimumFractionDigits: 2 })}. Enter a payment up to that amount.`);
+            return false;
+        }
+
+        // The balance is checked again and reduced in the same transaction as the payment
+        const { data, error } = await supabase.rpc('record_supplier_payment', {
+            p_supplier_id: supplierId, p_amount: amount, p_paid_on: payment.paidOn, p_reference: payment.reference,
+        });
+        if (error || !data) {
+            console.error("Error recording supplier payment:", error);
+            if (error?.message) setInfoModalContent(error.message);
+            return false;
+        }
+        setPayments(prev => upsertById(prev, data.payment as SupplierPayment));
+        setSuppliers(prev => upsertById(prev, data.supplier as Supplier));
+        return true;
+    };
+
+    const handleUpdateLeadTime = async (supplierId: string, leadTimeDays: number | null): Promise<boolean> => {
+        if (!requirePermission('suppliers.manage')) return false;
+        const { error } = await supabase.from('suppliers').update({ lead_time_days: leadTimeDays }).eq('id', supplierId);
+        if (error) {
+            console.error("Error updating supplier lead time:", error);
+            return false;
+        }
+        setSuppliers(prev => prev.map(s => s.id === supplierId ? { ...s, lead_time_days: leadTimeDays } : s));
+        return true;
+    };
+
+    // --- PURCHASE ORDERS ---
+    const reloadPurchaseOrder = async (orderId: string): Promise<PurchaseOrder | null> => {
+        const { data, error } = await supabase.from('purchase_orders').select(PURCHASE_ORDER_SELECT).eq('id', orderId).single();
+        if (error || !data) {
+            console.error("Error reloading purchase order:", error);
+            return null;
+        }
+        setPurchaseOrders(prev => prev.some(o => o.id === orderId) ? prev.map(o => o.id === orderId ? data : o) : [data, ...prev]);
+        return data as PurchaseOrder;
+    };
+
+    const handleCreatePurchaseOrder = async (draft: PurchaseOrderDraft, markSent: boolean): Promise<PurchaseOrder | null> => {
+        if (!team || !requirePermission('suppliers.manage')) return null;
+        const supplier = await findOrCreateSupplier(draft.supplierName);
+        if (!supplier) return null;
+
+        const { data: order, error } = await supabase.from('purchase_orders').insert({
+            team_id: team.id, supplier_id: supplier.id, status: markSent ? 'sent' : 'draft',
+            expected_date: draft.expectedDate || null, notes: draft.notes, created_by: session.user.id,
         }).select().single();
+        if (error || !order) {
+            console.error("Error creating purchase order:", error);
+            return null;
+        }
 
-        if (transError) console.error("Error creating credit transaction:", transError);
-        else {
-            setTransactions(prev => [...prev, transaction]);
-            const supplierToUpdate = suppliers.find(s => s.id === supplierId);
-            if (supplierToUpdate) {
-                const newBalance = supplierToUpdate.balance + totalValue;
-                const { error: supError } = await supabase.from('suppliers').update({ balance: newBalance }).eq('id', supplierId);
-                if (!supError) setSuppliers(prev => prev.map(s => s.id === supplierId ? { ...s, balance: newBalance } : s));
-            }
+        const { error: linesError } = await supabase.from('purchase_order_lines').insert(draft.lines.map(line => ({
+            purchase_order_id: order.id, team_id: team.id, stock_item_id: line.stockItemId,
+            stock_item_name: stockItems.find(i => i.id === line.stockItemId)?.name || 'Unknown item',
+            quantity: line.quantity, unit_price: line.unitPrice, received_quantity: 0,
+        })));
+        if (linesError) {
+            // Don't leave an order without lines behind
+            console.error("Error creating purchase order lines:", linesError);
+            await supabase.from('purchase_orders').delete().eq('id', order.id);
+            return null;
+        }
+        return reloadPurchaseOrder(order.id);
+    };
+
+    const handleMarkPurchaseOrderSent = async (orderId: string): Promise<boolean> => {
+        if (!requirePermission('suppliers.manage')) return false;
+        const { error } = await supabase.from('purchase_orders').update({ status: 'sent' }).eq('id', orderId).eq('status', 'draft');
+        if (error) {
+            console.error("Error marking purchase order sent:", error);
+            return false;
+        }
+        setPurchaseOrders(prev => prev.map(o => o.id === orderId ? { ...o, status: 'sent' } : o));
+        return true;
+    };
+
+    const handleDeletePurchaseOrderDraft = async (orderId: string): Promise<boolean> => {
+        if (!requirePermission('suppliers.manage')) return false;
+        const { error } = await supabase.from('purchase_orders').delete().eq('id', orderId).eq('status', 'draft');
+        if (error) {
+            console.error("Error deleting purchase order:", error);
+            return false;
+        }
+        setPurchaseOrders(prev => prev.filter(o => o.id !== orderId));
+        return true;
+    };
+
+    // The whole delivery is saved by receive_purchase_order in one transaction: stock and cost
+    // layers, goods receipts, credit transactions and the supplier's balance. Prices that differ
+    // from the agreed price are flagged in the log and summarised afterwards.
+    const handleReceivePurchaseOrder = async (orderId: string, receipts: GoodsReceiptDraft[]): Promise<boolean> => {
+        if (!team || !requirePermission('suppliers.manage')) return false;
+        const order = purchaseOrders.find(o => o.id === orderId);
+        const supplier = order && suppliers.find(s => s.id === order.supplier_id);
+        if (!order || !supplier || !canReceive(order)) return false;
+
+        const lines = new Map(order.lines.map(line => [line.id, line]));
+        const overReceived = receipts.find(r => { const line = lines.get(r.lineId); return !line || r.quantity > remainingQuantity(line); });
+        if (overReceived) {
+            setInfoModalContent(`You can't receive more of ${lines.get(overReceived.lineId)?.stock_item_name || 'an item'} than is still outstanding on this order.`);
+            return false;
+        }
+
+        setIsLoading(true);
+        const orderLabel = formatOrderNumber(order);
+        const variances: string[] = [];
+        const { data, error } = await supabase.rpc('receive_purchase_order', { p_order_id: order.id, p_receipts: receipts.map(receipt => {
+            const line = lines.get(receipt.lineId)!;
+            const variance = hasPriceVariance(line.unit_price, receipt.unitPrice);
+            if (variance) variances.push(`${line.stock_item_name}: invoiced R${receipt.unitPrice} vs agreed R${line.unit_price}`);
+            return {
+                line_id: line.id, quantity: receipt.quantity, unit_price: receipt.unitPrice,
+                description: `Received ${receipt.quantity} against ${orderLabel} from ${supplier.name}${variance ? ` at R${receipt.unitPrice} (agreed R${line.unit_price})` : ''}.`,
+            };
+        }) });
+        if (error || !data) {
+            console.error("Error receiving purchase order:", error);
+            setInfoModalContent(`${error?.message || `${orderLabel} could not be received.`} Nothing was received.`);
+            setIsLoading(false);
+            return false;
+        }
+
+        setStockItems(prev => (data.items as StockItem[]).reduce((list, item) => upsertById(list, item), prev));
+        setCostLayers(prev => (data.layers as CostLayer[]).reduce((list, layer) => upsertById(list, layer), prev));
+        setTransactions(prev => (data.transactions as CreditTransaction[]).reduce((list, t) => upsertById(list, t), prev));
+        setSuppliers(prev => upsertById(prev, data.supplier as Supplier));
+        await fetchActivityEntries(data.activity_ids as string[]);
+        await reloadPurchaseOrder(order.id);
+        setIsLoading(false);
+
+        if (variances.length > 0) setInfoModalContent(`Received ${orderLabel} with price variances:\n\n${variances.join('\n')}`);
+        return true;
+    };
+
+    // Raises each draft in turn, then opens Purchase Orders so they can be reviewed and sent.
+    const handleCreateReorderDrafts = async (drafts: PurchaseOrderDraft[]): Promise<boolean> => {
+        if (!requirePermission('suppliers.manage')) return false;
+        setIsLoading(true);
+        let created = 0;
+        for (const draft of drafts) {
+            if (await handleCreatePurchaseOrder(draft, false)) created++;
+        }
+        setIsLoading(false);
+        if (created < drafts.length) {
+            setInfoModalContent(`Only ${created} of ${drafts.length} draft orders could be created. Please try again.`);
+            return false;
+        }
+        setModal('purchaseOrders');
+        return true;
+    };
+
+    // --- LOCATION HANDLERS ---
+    // The first location created becomes the default; it holds all stock not recorded elsewhere.
+    const handleCreateLocation = async (name: string): Promise<boolean> => {
+        if (!team || !requirePermission('stock.manage')) return false;
+        if (locations.some(l => l.name.toLowerCase() === name.toLowerCase())) {
+            setInfoModalContent(`There is already a location called ${name}.`);
+            return false;
+        }
+        const { data, error } = await supabase.from('stock_locations')
+            .insert({ team_id: team.id, name, is_default: locations.length === 0 }).select().single();
+        if (error || !data) {
+            console.error("Error creating location:", error);
+            return false;
+        }
+        setLocations(prev => upsertById(prev, data as StockLocation));
+        return true;
+    };
+
+    const handleRenameLocation = async (locationId: string, name: string): Promise<boolean> => {
+        if (!team || !requirePermission('stock.manage')) return false;
+        if (locations.some(l => l.id !== locationId && l.name.toLowerCase() === name.toLowerCase())) {
+            setInfoModalContent(`There is already a location called ${name}.`);
+            return false;
+        }
+        const { error } = await supabase.from('stock_locations').update({ name }).eq('id', locationId);
+        if (error) {
+            console.error("Error renaming location:", error);
+            return false;
+        }
+        setLocations(prev => prev.map(l => l.id === locationId ? { ...l, name } : l));
+        return true;
+    };
+
+    // Its stock_levels rows cascade away, so whatever it held is counted at the default location.
+    const handleDeleteLocation = async (locationId: string): Promise<boolean> => {
+        if (!team || !requirePermission('stock.manage')) return false;
+        const location = locations.find(l => l.id === locationId);
+        if (!location || location.is_default) return false;
+        const { error } = await supabase.from('stock_locations').delete().eq('id', locationId);
+        if (error) {
+            console.error("Error deleting location:", error);
+            return false;
+        }
+        setLocations(prev => prev.filter(l => l.id !== locationId));
+        setLevels(prev => prev.filter(level => level.location_id !== locationId));
+        return true;
+    };
+
+    // An edit made while viewing one location. The default location has no row of its own, so
+    // its counts change through the item totals; elsewhere the location's row and the item totals
+    // move together server-side. Location rows aren't queued offline.
+    const handleLocationStockUpdate = async (itemId: string, field: EditableStockItemKey, value: number, locationId: string) => {
+        const item = stockItems.find(i => i.id === itemId);
+        const location = locations.find(l => l.id === locationId);
+        if (!team || !item || !location) return;
+        if (!isLocationCountField(field)) return handleStockUpdate(itemId, field, value);
+        if (!requirePermission(permissionForField(field))) return;
+
+        const oldValue = countsAtLocation(item, location, levels)[field];
+        const delta = value - oldValue;
+        if (delta === 0) return;
+        if (location.is_default) return handleStockUpdate(itemId, field, item[field] + delta);
+
+        if (!navigator.onLine) {
+            setInfoModalContent(`You're offline. Counts at ${location.name} can be changed once you're back online.`);
+            return;
+        }
+        pendingStockWritesRef.current.add(itemId);
+        const { data, error } = await supabase.rpc('increment_stock_level', { p_item_id: itemId, p_location_id: locationId, p_field: field, p_delta: delta });
+        pendingStockWritesRef.current.delete(itemId);
+        if (error || !data) {
+            console.error("Failed to update stock level:", error);
+            return;
+        }
+        setStockItems(prev => upsertById(prev, data.item as StockItem));
+        setLevels(prev => upsertById(prev, data.level as StockLevel));
+
+        await logActivity(item.name, `Set '${FIELD_LABELS[field]}' at ${location.name} to ${value}`, {
+            field, old_value: oldValue, new_value: value, delta, source: 'manual', location_id: locationId, item_id: itemId,
+        });
+    };
+
+    // Logged as a pair, one entry per location, so each side's history shows the movement.
+    // Item totals are unchanged, so the entries carry no field and reports skip them.
+    const handleTransferStock = async (itemId: string, fromId: string, toId: string, quantity: number): Promise<boolean> => {
+        if (!team || !requirePermission('stock.count')) return false;
+        const item = stockItems.find(i => i.id === itemId);
+        const from = locations.find(l => l.id === fromId);
+        const to = locations.find(l => l.id === toId);
+        if (!item || !from || !to || fromId === toId || quantity <= 0) return false;
+
+        const available = remainingAtLocation(countsAtLocation(item, from, levels));
+        if (quantity > available) {
+            setInfoModalContent(`${from.name} only has ${available.toLocaleString()} ${pluralizeUnit(baseUnitOf(item), available)} of ${item.name}.`);
+            return false;
+        }
+
+        // transfer_stock writes the paired out/in log entries in the same transaction as the move
+        const amount = `${quantity.toLocaleString()} ${pluralizeUnit(baseUnitOf(item), quantity)}`;
+        const { data, error } = await supabase.rpc('transfer_stock', {
+            p_item_id: itemId, p_from_location_id: fromId, p_to_location_id: toId, p_quantity: quantity,
+            p_out_description: `Transferred ${amount} from ${from.name} to ${to.name}`,
+            p_in_description: `Received ${amount} at ${to.name} from ${from.name}`,
+        });
+        if (error || !data) {
+            // The function checks the source again under a lock, so a transfer made meanwhile can still refuse this one
+            console.error("Failed to transfer stock:", error);
+            setInfoModalContent(`${error?.message || 'The transfer could not be saved.'} Nothing was transferred.`);
+            return false;
+        }
+        setLevels(prev => (data.levels as StockLevel[]).reduce((list, level) => upsertById(list, level), prev));
+        await fetchActivityEntries(data.activity_ids as string[]);
+        return true;
+    };
+
+    // --- STOCK COUNT HANDLERS ---
+    const reloadStockCount = async (countId: string): Promise<StockCount | null> => {
+        const { data, error } = await supabase.from('stock_counts').select(STOCK_COUNT_SELECT).eq('id', countId).single();
+        if (error || !data) {
+            console.error("Error reloading stock count:", error);
+            return null;
+        }
+        setStockCounts(prev => upsertById(prev, data as StockCount));
+        return data as StockCount;
+    };
+
+    const handleStartStockCount = async (name: string, itemIds: string[]): Promise<StockCount | null> => {
+        if (!team || !requirePermission('stock.count')) return null;
+        const { data: count, error } = await supabase.from('stock_counts').insert({
+            team_id: team.id, name, status: 'counting', created_by: session.user.id,
+        }).select().single();
+        if (error || !count) {
+            console.error("Error starting stock count:", error);
+            return null;
+        }
+
+        const { error: linesError } = await supabase.from('stock_count_lines').insert(itemIds.map(itemId => ({
+            count_id: count.id, team_id: team.id, stock_item_id: itemId,
+            stock_item_name: stockItems.find(i => i.id === itemId)?.name || 'Unknown item',
+        })));
+        if (linesError) {
+            // Don't leave a count without lines behind
+            console.error("Error creating stock count lines:", linesError);
+            await supabase.from('stock_counts').delete().eq('id', count.id);
+            return null;
         }
-    }
+        return reloadStockCount(count.id);
+    };
 
-    const logChange = `Added ${numQuantity} units of '${name}'${transactionType === 'credit' && supplierName ? ` via credit from ${supplierName}` : ' via cash'}.`;
-    const { data: logData, error: logError } = await supabase.from('activity_log').insert({
-        team_id: team.id, item_name: name, change_description: logChange, user_id: session.user.id
-    }).select('*, users(full_name)').single();
+    // The system quantity is taken when the count is entered, so later packing or deliveries
+    // aren't counted as variance when the count is posted.
+    const handleRecordStockCount = async (countId: string, lineId: string, counted: number | null): Promise<boolean> => {
+        if (!team || !requirePermission('stock.count')) return false;
+        const line = stockCounts.find(c => c.id === countId)?.lines.find(l => l.id === lineId);
+        const item = stockItems.find(i => i.id === line?.stock_item_id);
+        if (!line || !item) return false;
+
+        const updates = counted === null
+            ? { counted_quantity: null, system_quantity: null, counted_at: null }
+            : { counted_quantity: counted, system_quantity: remainingOf(item), counted_at: new Date().toISOString() };
+        const { error } = await supabase.from('stock_count_lines').update(updates).eq('id', lineId);
+        if (error) {
+            console.error("Error recording stock count:", error);
+            return false;
+        }
+        setStockCounts(prev => prev.map(c => c.id === countId
+            ? { ...c, lines: c.lines.map(l => l.id === lineId ? { ...l, ...updates } : l) }
+            : c));
+        return true;
+    };
 
-    if (!logError && logData) setActivityLog(prev => [logData as ActivityLogEntry, ...prev]);
+    // post_stock_count posts every variance and closes the count in one transaction: a shortfall
+    // adds to Lost and stock found to Added Today. If any variance is large, a Worker's count is
+    // sent to a Manager to approve and post instead; the database makes that call.
+    const handlePostStockCount = async (countId: string): Promise<boolean> => {
+        if (!team || !requirePermission('stock.count')) return false;
+        const count = stockCounts.find(c => c.id === countId);
+        if (!count) return false;
+        if (count.status === 'awaiting_approval' && !requirePermission('stock.manage')) return false;
 
-    resetAddItemForm();
-    setIsLoading(false);
-  };
-  
-    const handleEditItem = async (itemId: string, updates: { name: string, category: string, color: string }) => {
-        if (!team) return;
-        const itemToUpdate = stockItems.find(item => item.id === itemId);
-        if (!itemToUpdate) return;
-        
         setIsLoading(true);
-        setModal(null);
-        
-        const { data: updatedItem, error } = await supabase
-            .from('stock_items')
-            .update({ name: updates.name, category: updates.category, color: updates.color })
-            .eq('id', itemId)
-            .select()
-            .single();
-        
-        if (error) {
-            console.error("Error updating item details:", error);
-        } else {
-            setStockItems(prev => prev.map(item => item.id === itemId ? updatedItem : item));
-            
-            const changes: string[] = [];
-            if (updates.name !== itemToUpdate.name) changes.push(`renamed to '${updates.name}'`);
-            if (updates.category !== itemToUpdate.category) changes.push(`changed category to '${updates.category}'`);
-            if (updates.color !== itemToUpdate.color) changes.push(`changed color`);
+        const { data, error } = await supabase.rpc('post_stock_count', { p_count_id: countId });
+        setIsLoading(false);
+        if (error || !data) {
+            console.error("Error posting stock count:", error);
+            setInfoModalContent(`${error?.message || `${count.name} could not be posted.`} Nothing was posted.`);
+            return false;
+        }
 
-            if (changes.length > 0) {
-              const { data: logData, error: logError } = await supabase.from('activity_log').insert({
-                  team_id: team.id,
-                  item_name: itemToUpdate.name,
-                  change_description: `Item details updated: ${changes.join(', ')}.`,
-                  user_id: session.user.id
-              }).select('*, users(full_name)').single();
-              if (!logError && logData) {
-                setActivityLog(prev => [logData as ActivityLogEntry, ...prev]);
-              }
-            }
+        if (data.status === 'awaiting_approval') {
+            const largeLines = count.lines.filter(line => (data.large_line_ids as string[]).includes(line.id));
+            setStockCounts(prev => prev.map(c => c.id === countId ? { ...c, status: 'awaiting_approval' } : c));
+            setInfoModalContent(`${count.name} has ${largeLines.length} large variance${largeLines.length === 1 ? '' : 's'} and has been sent to a Manager for approval:\n\n${largeLines.map(line => `${line.stock_item_name}: ${lineVariance(line)! > 0 ? '+' : ''}${lineVariance(line)}`).join('\n')}`);
+            return true;
         }
-        setIsLoading(false);
+        setStockItems(prev => (data.items as StockItem[]).reduce((list, item) => upsertById(list, item), prev));
+        await fetchActivityEntries(data.activity_ids as string[]);
+        setStockCounts(prev => prev.filter(c => c.id !== countId));
+        return true;
     };
 
-    const handleDeleteItem = async (itemId: string) => {
-        if (!team) return;
-        const itemToDelete = stockItems.find(item => item.id === itemId);
-        if (!itemToDelete) return;
-
-        setIsLoading(true);
-        setModal(null);
+    const handleCancelStockCount = async (countId: string): Promise<boolean> => {
+        const count = stockCounts.find(c => c.id === countId);
+        if (!team || !count || !requirePermission(count.status === 'awaiting_approval' ? 'stock.manage' : 'stock.count')) return false;
+        const { error } = await supabase.from('stock_counts').update({ status: 'cancelled' }).eq('id', countId);
+        if (error) {
+            console.error("Error cancelling stock count:", error);
+            return false;
+        }
+        setStockCounts(prev => prev.filter(c => c.id !== countId));
+        return true;
+    };
 
-        const { error } = await supabase.from('stock_items').delete().eq('id', itemId);
+    // --- UNDO HANDLERS ---
+    // The database checks the same role and time limits, applies the reversal and logs it
+    // linked to the original in one transaction, so an entry can only ever be undone once.
+    const handleUndoActivity = async (entryId: string) => {
+        if (!team) return;
+        if (!navigator.onLine) {
+            setInfoModalContent("You're offline. Changes can be undone once you're back online.");
+            return;
+        }
+        const { data, error } = await supabase.rpc('undo_activity', { p_entry_id: entryId });
+        if (error || !data) {
+            console.error("Error undoing change:", error);
+            setInfoModalContent(error?.message || 'This change could not be undone.');
+            return;
+        }
+        const author = teamMembers.find(m => m.id === session.user.id);
+        const entry: ActivityLogEntry = { ...(data.entry as ActivityLogEntry), users: author ? { full_name: author.name } : null };
+        setActivityLog(prev => prev.some(e => e.id === entry.id) ? prev : [entry, ...prev]);
+
+        const item = data.item as StockItem | null;
+        if (item) {
+            setStockItems(prev => upsertById(prev, item));
+            setArchive(prev => ({ ...prev, items: prev.items.filter(i => i.id !== item.id) }));
+            setLevels(prev => [...prev.filter(level => level.stock_item_id !== item.id), ...(data.levels as StockLevel[])]);
+            setCostLayers(prev => [...prev.filter(layer => layer.stock_item_id !== item.id), ...(data.layers as CostLayer[])]);
+        }
+    };
 
+    const handleUndoBinEntry = async (entryId: string) => {
+        if (!team) return;
+        if (!navigator.onLine) {
+            setInfoModalContent("You're offline. Bin changes can be undone once you're back online.");
+            return;
+        }
+        const { error } = await supabase.rpc('undo_bin_history', { p_entry_id: entryId });
         if (error) {
-            console.error("Error deleting item:", error);
-        } else {
-            setStockItems(prev => prev.filter(item => item.id !== itemId));
-            const { data: logData, error: logError } = await supabase.from('activity_log').insert({
-                team_id: team.id,
-                item_name: itemToDelete.name,
-                change_description: `Item permanently deleted.`,
-                user_id: session.user.id
-            }).select('*, users(full_name)').single();
-             if (!logError && logData) {
-              setActivityLog(prev => [logData as ActivityLogEntry, ...prev]);
-            }
+            console.error("Error undoing bin change:", error);
+            setInfoModalContent(error.message || 'This change could not be undone.');
+            return;
         }
-        setIsLoading(false);
+        await fetchBinData(team.id);
     };
-    
+
     const handleResetData = async (resetType: 'all' | 'bins') => {
-        if (!team) return;
+        if (!team || !requirePermission('data.reset')) return;
         setIsLoading(true);
         setModal(null);
 
         if (resetType === 'all') {
+            await supabase.from('stock_transfers').delete().eq('team_id', team.id);
+            await supabase.from('stock_counts').delete().eq('team_id', team.id);
+            // Snapshots name their item without a cascading key, so past days would still show it
+            await supabase.from('stock_snapshots').delete().eq('team_id', team.id);
+            // Otherwise New Day would refuse to close today again for stock that no longer exists
+            await supabase.from('stock_rollovers').delete().eq('team_id', team.id);
             await supabase.from('stock_items').delete().eq('team_id', team.id);
             await supabase.from('activity_log').delete().eq('team_id', team.id);
+            await supabase.from('supplier_payments').delete().eq('team_id', team.id);
+            await supabase.from('purchase_orders').delete().eq('team_id', team.id);
             await supabase.from('suppliers').delete().eq('team_id', team.id);
             await supabase.from('credit_transactions').delete().eq('team_id', team.id);
             setStockItems([]);
             setActivityLog([]);
             setSuppliers([]);
             setTransactions([]);
+            setPayments([]);
+            setPurchaseOrders([]);
+            setCostLayers([]);
+            setLevels([]);
+            setStockCounts([]);
+            setSnapshots(null);
+            setUsageHistory([]);
+            setSelectedDate(todayKey);
         } else if (resetType === 'bins') {
             await supabase.from('bin_balances').delete().eq('team_id', team.id);
             await supabase.from('bin_status_counts').delete().eq('team_id', team.id);
@@ -663,55 +1823,198 @@ const Dashboard: React.FC<DashboardProps> = ({ session }) => {
   
     // --- TEAM MANAGEMENT HANDLERS ---
     const handleUpdateTeamName = async (newName: string) => {
-        if (!team || team.name === newName) return;
+        if (!team || team.name === newName || !requirePermission('team.manage')) return;
         const { error } = await supabase.from('teams').update({ name: newName }).eq('id', team.id);
         if (error) console.error("Error updating team name:", error);
-        else setTeam(prev => prev ? { ...prev, name: newName } : null);
+        else {
+            setTeam(prev => prev ? { ...prev, name: newName } : null);
+            setTeams(prev => prev.map(t => t.id === team.id ? { ...t, name: newName } : t));
+        }
+    };
+
+    const handleUpdateValuationMethod = async (method: ValuationMethod): Promise<boolean> => {
+        if (!team || valuationMethod === method || !requirePermission('team.manage')) return false;
+        const { error } = await supabase.from('teams').update({ valuation_method: method }).eq('id', team.id);
+        if (error) {
+            console.error("Error updating valuation method:", error);
+            return false;
+        }
+        setTeam(prev => prev ? { ...prev, valuation_method: method } : null);
+        setTeams(prev => prev.map(t => t.id === team.id ? { ...t, valuation_method: method } : t));
+        return true;
+    };
+
+    const handleUpdateRollover = async (rolloverTime: string | null, timezone: string): Promise<boolean> => {
+        if (!team || !requirePermission('team.manage')) return false;
+        const { error } = await supabase.from('teams').update({ rollover_time: rolloverTime, rollover_timezone: timezone }).eq('id', team.id);
+        if (error) {
+            console.error("Error updating rollover schedule:", error);
+            return false;
+        }
+        const updated = { ...team, rollover_time: rolloverTime, rollover_timezone: timezone };
+        setTeam(prev => prev ? { ...prev, rollover_time: rolloverTime, rollover_timezone: timezone } : null);
+        setTeams(prev => prev.map(t => t.id === team.id ? { ...t, rollover_time: rolloverTime, rollover_timezone: timezone } : t));
+        // A new rollover time can move which day is today; stay on today rather than a day that isn't closed
+        setSelectedDate(prev => prev === todayKey ? getTodayKey(updated) : prev);
+        return true;
+    };
+
+    const handleSwitchTeam = async (teamId: string) => {
+        const membership = teams.find(t => t.id === teamId);
+        if (!membership || membership.id === team?.id) return;
+        setModal(null);
+        setCurrentView('dashboard');
+        await loadTeamData(membership);
     };
     
-    const handleAddTeamMember = (email: string) => { /* Logic for sending invites */ };
-    const handleRemoveTeamMember = (memberId: string) => { /* Logic for removing members */ };
-    const handleUpdateMemberRole = (memberId: string, newRole: 'Manager' | 'Worker') => { /* Logic for updating roles */ };
+    const getInvitationExpiry = () => new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    const handleAddTeamMember = async (email: string, role: 'Manager' | 'Worker'): Promise<TeamInvitation | null> => {
+        if (!team || !requirePermission('team.manage')) return null;
+        const normalizedEmail = email.trim().toLowerCase();
+        if (teamMembers.some(m => m.email.toLowerCase() === normalizedEmail)) {
+            setInfoModalContent(`${email} is already a member of ${team.name}.`);
+            return null;
+        }
+        // Re-inviting an address replaces its pending invite rather than stacking duplicates
+        const existing = invitations.find(inv => inv.email.toLowerCase() === normalizedEmail);
+        if (existing) return handleResendInvitation(existing.id, role);
+
+        const { data, error } = await supabase.from('team_invitations').insert({
+            team_id: team.id,
+            email: normalizedEmail,
+            role,
+            token: crypto.randomUUID(),
+            status: 'pending',
+            expires_at: getInvitationExpiry(),
+            invited_by: session.user.id,
+        }).select().single();
+        if (error || !data) {
+            console.error("Error creating invitation:", error);
+            return null;
+        }
+        setInvitations(prev => [data as TeamInvitation, ...prev]);
+        return data as TeamInvitation;
+    };
+
+    // Sent by the send-invitation Edge Function; false when email isn't set up or sending failed.
+    const handleEmailInvitation = async (invitation: TeamInvitation): Promise<boolean> => {
+        const { error } = await supabase.functions.invoke('send-invitation', { body: { invitation_id: invitation.id } });
+        if (error) {
+            console.error("Error emailing invitation:", error);
+            return false;
+        }
+        return true;
+    };
+
+    // Issues a fresh token and expiry, so any previously shared link stops working.
+    const handleResendInvitation = async (invitationId: string, role?: 'Manager' | 'Worker'): Promise<TeamInvitation | null> => {
+        if (!requirePermission('team.manage')) return null;
+        const { data, error } = await supabase.from('team_invitations')
+            .update({ token: crypto.randomUUID(), expires_at: getInvitationExpiry(), ...(role ? { role } : {}) })
+            .eq('id', invitationId).select().single();
+        if (error || !data) {
+            console.error("Error resending invitation:", error);
+            return null;
+        }
+        setInvitations(prev => prev.map(inv => inv.id === invitationId ? data as TeamInvitation : inv));
+        return data as TeamInvitation;
+    };
+
+    const handleRevokeInvitation = async (invitationId: string): Promise<boolean> => {
+        if (!requirePermission('team.manage')) return false;
+        const { error } = await supabase.from('team_invitations').update({ status: 'revoked' }).eq('id', invitationId);
+        if (error) {
+            console.error("Error revoking invitation:", error);
+            return false;
+        }
+        setInvitations(prev => prev.filter(inv => inv.id !== invitationId));
+        return true;
+    };
+
+    const handleRemoveTeamMember = async (memberId: string): Promise<boolean> => {
+        if (!team || !requirePermission('team.manage')) return false;
+        const member = teamMembers.find(m => m.id === memberId);
+        if (!member || member.role === 'Owner') return false;
+        const { error } = await supabase.from('team_members').delete().eq('team_id', team.id).eq('user_id', memberId);
+        if (error) {
+            console.error("Error removing team member:", error);
+            return false;
+        }
+        setTeamMembers(prev => prev.filter(m => m.id !== memberId));
+        return true;
+    };
+
+    const handleUpdateMemberRole = async (memberId: string, newRole: 'Manager' | 'Worker'): Promise<boolean> => {
+        if (!team || !requirePermission('team.manage')) return false;
+        const member = teamMembers.find(m => m.id === memberId);
+        if (!member || member.role === 'Owner' || member.role === newRole) return false;
+        const { error } = await supabase.from('team_members').update({ role: newRole }).eq('team_id', team.id).eq('user_id', memberId);
+        if (error) {
+            console.error("Error updating member role:", error);
+            return false;
+        }
+        setTeamMembers(prev => prev.map(m => m.id === memberId ? { ...m, role: newRole } : m));
+        return true;
+    };
   
     // --- BIN STOCK HANDLERS ---
     const handleAddBinType = async (details: { name: string; color: string; category: 'standard' | 'mixed'; sub_category?: 'mixedWood' | 'mixedPlastic' }) => {
-        if (!team) return;
+        if (!team || !requirePermission('bins.manage')) return;
         const { data, error } = await supabase.from('bin_types').insert({ ...details, team_id: team.id }).select().single();
         if (error) { console.error("Error adding bin type:", error); }
     else { if (team) await fetchBinData(team.id); }
     };
-    const handleRemoveBinType = async (binId: string) => {
-        if (!team) return;
-        const { error } = await supabase.from('bin_types').delete().eq('id', binId);
-        if (error) { console.error("Error removing bin type:", error); }
-    else { if (team) await fetchBinData(team.id); }
+    const handleArchiveBinType = async (binId: string) => {
+        if (!team || !requirePermission('bins.manage')) return;
+        const binName = binStockData?.binTypes.find(b => b.id === binId)?.name || 'This bin type';
+        const outstanding = await countOutstandingBins('bin_type_id', binId);
+        if (outstanding === null) return;
+        if (outstanding > 0) {
+            setInfoModalContent(`${binName} still has ${outstanding} bins owed to or by parties. Settle those balances before archiving it.`);
+            return;
+        }
+        if (await setArchivedAt('binType', binId, new Date().toISOString())) await fetchBinData(team.id);
     };
     const handleUpdateBinColor = async (binId: string, color: string) => {
-        if (!team) return;
+        if (!team || !requirePermission('bins.manage')) return;
         const { error } = await supabase.from('bin_types').update({ color }).eq('id', binId);
         if (error) { console.error("Error updating bin color:", error); }
     else { if (team) await fetchBinData(team.id); }
     };
     const handleAddParty = async (partyName: string) => {
-        if (!team) return;
+        if (!team || !requirePermission('bins.manage')) return;
         const { error } = await supabase.from('bin_parties').insert({ name: partyName, team_id: team.id });
         if (error) { console.error("Error adding party:", error); }
     else { if (team) await fetchBinData(team.id); }
     };
-    const handleRemoveParty = async (partyId: string, partyName: string) => {
+    const handleArchiveParty = async (partyId: string, partyName: string) => {
+        if (!team || !requirePermission('bins.manage')) return;
+        const outstanding = await countOutstandingBins('party_id', partyId);
+        if (outstanding === null) return;
+        if (outstanding > 0) {
+            setInfoModalContent(`${partyName} still has ${outstanding} bins outstanding. Settle their balance to zero before archiving them.`);
+            return;
+        }
         setConfirmationRequest({
-            title: `Remove ${partyName}?`,
-            message: `Are you sure you want to remove this party? All their bin balances will be cleared. This action cannot be undone.`,
+            title: `Archive ${partyName}?`,
+            message: `${partyName} will be hidden from the bin tables. Their history is kept, and you can restore them from Settings > Archive.`,
             onConfirm: async () => {
-                const { error } = await supabase.from('bin_parties').delete().eq('id', partyId);
-                if (error) console.error("Error removing party:", error);
-                else if (team) await fetchBinData(team.id);
                 setConfirmationRequest(null);
+                if (!await setArchivedAt('party', partyId, new Date().toISOString())) return;
+                const { error: logError } = await supabase.from('bin_history_log').insert({
+                    team_id: team.id,
+                    type: 'party',
+                    change_description: `Archived ${partyName}.`,
+                    details: { partyId, partyName },
+                });
+                if (logError) console.error("Error logging party archive:", logError);
+                await fetchBinData(team.id);
             }
         });
     };
     const handleUpdateNotes = async (notes: string) => {
-        if (!team || !binStockData) return;
+        if (!team || !binStockData || !requirePermission('bins.manage')) return;
         const existingNote = binStockData.history.find(h => h.type === 'note');
         if (existingNote) {
             const { error } = await supabase.from('bin_history_log').update({ change_description: notes }).eq('id', existingNote.id);
@@ -724,80 +2027,97 @@ const Dashboard: React.FC<DashboardProps> = ({ session }) => {
         }
     };
 
-    const handleUpdateStatusCount = async (statusKey: keyof BinStockData['statuses'], binId: string, newValue: number) => {
-        if (!team) return;
-        const { error } = await supabase.from('bin_status_counts').upsert({ team_id: team.id, status_name: statusKey, bin_type_id: binId, quantity: newValue });
-        if(error) console.error(`Error updating ${statusKey}:`, error);
-    else if (team) await fetchBinData(team.id);
+    const saveStatusCount = async (statusKey: BinStatusKey, binId: string, quantity: number): Promise<boolean> => {
+        if (!team) return false;
+        const { error } = await supabase.from('bin_status_counts').upsert({ team_id: team.id, status_name: statusKey, bin_type_id: binId, quantity });
+        if (error) {
+            console.error(`Error updating ${statusKey}:`, error);
+            return false;
+        }
+        return true;
+    };
+
+    const handleUpdateStatusCount = async (statusKey: BinStatusKey, binId: string, newValue: number) => {
+        if (!team || !binStockData || !requirePermission('bins.manage')) return;
+        if (!navigator.onLine) {
+            const binName = binStockData.binTypes.find(b => b.id === binId)?.name || 'Unknown Bin';
+            const baseValue = Number(binStockData.statuses[statusKey][binId] || 0);
+            if (!await queueEdit({ kind: 'binStatus', statusKey, binId, binName, value: newValue, baseValue })) return;
+            setBinStockData(prev => {
+                if (!prev) return prev;
+                const statuses = { ...prev.statuses, [statusKey]: { ...prev.statuses[statusKey], [binId]: newValue } };
+                const countedKeys: BinStatusKey[] = ['full', 'inFridge', 'broken', 'dump'];
+                statuses.total = { ...statuses.total, [binId]: countedKeys.reduce((sum, key) => sum + Number(statuses[key][binId] || 0), 0) };
+                return { ...prev, statuses };
+            });
+            return;
+        }
+        if (await saveStatusCount(statusKey, binId, newValue)) await fetchBinData(team.id);
     };
 
     const handleDirectEdit = async (details: { partyId: string, binId: string, newValue: number }) => {
-        if (!team) return;
+        if (!team || !requirePermission('bins.manage')) return;
         const { partyId, binId, newValue } = details;
         const party = [...(binStockData?.owedToUs || []), ...(binStockData?.weOwe || [])].find(p => p.id === partyId);
         const bin = binStockData?.binTypes.find(b => b.id === binId);
         if(!party || !bin) return;
 
-        const oldValue = party.bins[binId] || 0;
         const weOweParty = binStockData?.weOwe.some(p => p.id === partyId);
         const finalValue = weOweParty ? -newValue : newValue; // Store as negative if we owe them
 
-        const { error: upsertError } = await supabase.from('bin_balances').upsert({ team_id: team.id, party_id: partyId, bin_type_id: binId, balance: finalValue });
-        if (upsertError) { console.error("Direct edit upsert error:", upsertError); return; }
-
-        const { error: logError } = await supabase.from('bin_history_log').insert({
-            team_id: team.id,
-            type: 'edit',
-            change_description: `Manually changed ${bin.name} for ${party.name} from ${oldValue} to ${newValue}.`,
-        });
-        if (logError) console.error("Direct edit log error:", logError);
-
-    if (team) await fetchBinData(team.id);
+        // set_bin_balance changes the balance and logs the edit together, so neither lands alone
+        const { error } = await supabase.rpc('set_bin_balance', { p_team_id: team.id, p_party_id: partyId, p_bin_type_id: binId, p_balance: finalValue });
+        if (error) {
+            console.error("Direct edit error:", error);
+            setInfoModalContent(`${error.message} The balance wasn't changed.`);
+        }
+        await fetchBinData(team.id);
     };
 
-    const handleBinMovement = async (details: { type: 'sent' | 'received' | 'returned', quantity: number, binId: string, partyName: string, transporter?: string, binContents?: string }) => {
-       if (!team || !binStockData) return;
-       setIsLoading(true);
-       
+    // Reads bin state through a ref so queued movements replayed back to back see the parties
+    // created by the ones before them.
+    // log_bin_movement changes the balance and writes the history entry in one transaction, and
+    // adds the party if it's new. Workers can't write balances directly.
+    const applyBinMovement = async (details: BinMovementDetails): Promise<boolean> => {
+       const data = binStockDataRef.current;
+       if (!team || !data) return false;
        const { type, quantity, binId, partyName, transporter, binContents } = details;
-       let party = [...binStockData.owedToUs, ...binStockData.weOwe].find(p => p.name.toLowerCase() === partyName.toLowerCase());
-
-       // Create party if it doesn't exist
-       if (!party) {
-           const { data: newParty, error: newPartyError } = await supabase.from('bin_parties').insert({ name: partyName, team_id: team.id }).select().single();
-           if(newPartyError || !newParty) { console.error("Error creating new party:", newPartyError); setIsLoading(false); return; }
-           party = { id: newParty.id, name: newParty.name, bins: {} };
+       const isKnownParty = [...data.owedToUs, ...data.weOwe].some(p => p.name.toLowerCase() === partyName.toLowerCase());
+       if (!isKnownParty && archive.parties.some(p => p.name.toLowerCase() === partyName.toLowerCase())) {
+           setInfoModalContent(`${partyName} is archived. Restore them from Settings > Archive before logging bins for them.`);
+           return false;
        }
 
-       const { data: currentBalanceData, error: balanceError } = await supabase.from('bin_balances')
-           .select('balance').eq('team_id', team.id).eq('party_id', party.id).eq('bin_type_id', binId).single();
-
-       if (balanceError && balanceError.code !== 'PGRST116') { // Ignore "No rows found" error
-           console.error("Error fetching balance:", balanceError); setIsLoading(false); return;
-       }
-
-       const currentBalance = currentBalanceData?.balance || 0;
-       let newBalance = currentBalance;
-       if(type === 'sent') newBalance += quantity;
-       else if(type === 'received') newBalance -= quantity;
-       // 'returned' means they are returning our bins, so our balance with them decreases
-       else if(type === 'returned') newBalance -= quantity;
-       
-       const { error: upsertError } = await supabase.from('bin_balances').upsert({ team_id: team.id, party_id: party.id, bin_type_id: binId, balance: newBalance });
-       if (upsertError) { console.error("Error upserting balance:", upsertError); setIsLoading(false); return; }
-
-       const binName = binStockData.binTypes.find(b => b.id === binId)?.name || 'Unknown Bin';
-       const change_description = `${type.charAt(0).toUpperCase() + type.slice(1)} ${quantity} ${binName}${binContents ? ` (${binContents})` : ''} ${type === 'sent' ? 'to' : 'from'} ${partyName}${transporter ? ` via ${transporter}`: ''}.`;
-       
-       const { error: logError } = await supabase.from('bin_history_log').insert({
-           team_id: team.id,
-           type: 'movement',
-           change_description,
-           details: { movementType: type, quantity, binName, partyName, transporter, binContents }
+       const binName = data.binTypes.find(b => b.id === binId)?.name || 'Unknown Bin';
+       const { error } = await supabase.rpc('log_bin_movement', {
+           p_team_id: team.id, p_bin_type_id: binId, p_party_name: partyName, p_movement: type, p_quantity: quantity,
+           p_transporter: transporter || null, p_contents: binContents || null, p_description: describeBinMovement(details, binName),
        });
-       if(logError) console.error("Error logging movement:", logError);
+       if (error) { console.error("Error logging movement:", error); return false; }
+
+       await fetchBinData(team.id);
+       return true;
+    };
 
-    if (team) await fetchBinData(team.id);
+    const handleBinMovement = async (details: BinMovementDetails) => {
+       if (!team || !binStockData || !requirePermission('bins.move')) return;
+       if (!navigator.onLine) {
+           const edit = await queueEdit({ kind: 'binMovement', details });
+           if (!edit) return;
+           // Listed in the history log until the replay writes the real entry
+           const binName = binStockData.binTypes.find(b => b.id === details.binId)?.name || 'Unknown Bin';
+           const entry: BinHistoryEntry = {
+               id: `queued-${edit.id}`,
+               timestamp: edit.queued_at,
+               change: `${describeBinMovement(details, binName)} (pending sync)`,
+               type: 'movement',
+               details: { movementType: details.type, quantity: details.quantity, binName, partyName: details.partyName, transporter: details.transporter },
+           };
+           setBinStockData(prev => prev ? { ...prev, history: [entry, ...prev.history] } : prev);
+           return;
+       }
+       setIsLoading(true);
+       await applyBinMovement(details);
        setIsLoading(false);
     };
 
@@ -807,153 +2127,121 @@ const Dashboard: React.FC<DashboardProps> = ({ session }) => {
      // Check for report generation first
     const dateRange = parseDateRange(command);
     if (dateRange) {
-        generateReport(dateRange.start, dateRange.end, dateRange.title);
+        await generateReport(dateRange.start, dateRange.end, dateRange.title);
         return;
     }
-    
-    setIsLoading(true);
+    await runAICommand(command, setIsLoading);
+  };
+
+  // Voice commands on browsers without speech recognition are recorded and transcribed by Gemini.
+  const handleTranscribeAudio = async (audio: Blob): Promise<string | null> => {
     try {
-        // FIX: Use the initialized 'ai' client instead of 'window.ai'.
         const response = await ai.models.generateContent({
             model: "gemini-2.5-flash",
-            contents: `The user provided the following command for their inventory management app: "${command}". 
-            Based on this command, determine the action and parameters.
-            
-            Available actions are:
-            1. 'ADD': For adding new stock. Requires 'name', 'quantity', 'price' (unit price). Optional: 'supplier' if it's a credit transaction.
-            2. 'UPDATE': For changing existing stock. Requires 'name', and one or more of 'packed', 'lost', 'added'.
-            3. 'QUERY': For asking a question about the inventory. The response should be a natural language answer.
-            4. 'UNKNOWN': If the command is unclear.
-            
-            For ADD/UPDATE actions, the 'name' must be an exact match from the provided stock list if possible. If it's a new item, use the name provided.
-            For QUERY, just answer the question based on the provided data context.
+            contents: [{ role: 'user', parts: [
+                { inlineData: { mimeType: audio.type || 'audio/webm', data: await blobToBase64(audio) } },
+                { text: buildTranscriptionPrompt({ stockItems, suppliers, bins: binStockData }) },
+            ] }],
+        });
+        return (response.text ?? '').trim();
+    } catch (error) {
+        console.error("Voice transcription error:", error);
+        return null;
+    }
+  };
 
-            Here is the current inventory data:
-            ${JSON.stringify(stockItems.map(({id, team_id, ...rest}) => rest), null, 2)}
-            
-            Here are the current suppliers:
-            ${JSON.stringify(suppliers.map(s => s.name), null, 2)}
-            
-            Respond ONLY with a single JSON object in the following format:
-            { "action": "ADD|UPDATE|QUERY|UNKNOWN", "parameters": { ... }, "reasoning": "A brief explanation of why you chose this action.", "answer": "A natural language answer if the action is QUERY." }
-            
-            Example for 'add 100 1.5kg boxes for 250 from deons on credit':
-            { "action": "ADD", "parameters": { "name": "1.5kg Narjie boxes", "quantity": 100, "price": 2.50, "supplier": "Deons" }, "reasoning": "Identified 'add' keyword, quantity, total price (250/100=2.50), supplier, and matched '1.5kg boxes' to the closest item name." }
-            
-            Example for 'we packed 50 of the 1.8kg boxes and lost 5':
-            { "action": "UPDATE", "parameters": { "name": "1.8kg Boxes", "packed": 50, "lost": 5 }, "reasoning": "Identified 'packed' and 'lost' keywords and matched the item name." }
-            
-            Example for 'what is the total value of groenkloof stock?':
-            { "action": "QUERY", "parameters": {}, "reasoning": "User is asking a question.", "answer": "The total stock value for items in the 'Groenkloof' category is R28,800.00." }
-            `
+  // The bin page's command bar goes through the same assistant, which knows the bin types and balances.
+  const handleBinAICommand = (command: string) => runAICommand(command, setIsBinAILoading);
+
+  // Asks Gemini what the command should do; `setLoading` is the spinner of the bar it came from.
+  const runAICommand = async (command: string, setLoading: (loading: boolean) => void) => {
+    setLoading(true);
+    try {
+        // FIX: Use the initialized 'ai' client instead of 'window.ai'.
+        const response = await ai.models.generateContent({
+            model: "gemini-2.5-flash",
+            contents: buildCommandPrompt(command, { stockItems, suppliers, bins: binStockData }),
+            config: { responseMimeType: 'application/json', responseSchema: AI_COMMAND_SCHEMA },
         });
-        
-        const jsonString = (response.text ?? '').trim();
-        if (!jsonString) {
-            console.error('Empty AI assistant response');
-            return;
-        }
-        let result: any = null;
-        try {
-            result = JSON.parse(jsonString);
-        } catch (err) {
-            console.error('Failed to parse AI assistant response:', err, jsonString);
+
+        const parsed = parseAICommands((response.text ?? '').trim(), { stockItems, suppliers, bins: binStockData });
+        if ('error' in parsed) {
+            console.error('Rejected AI assistant response:', parsed.error, response.text);
+            setInfoModalContent(`${parsed.error} Nothing was changed.`);
             return;
         }
 
-        switch (result.action) {
-            case 'ADD':
-                const { name, quantity, price, supplier } = result.parameters;
-                const addData: AddItemData = {
-                    name,
-                    quantity: Number(quantity),
-                    price: Number(price),
-                    totalPrice: Number(quantity) * Number(price),
-                    alertLevel: 100,
-                    color: COLOR_PALETTE[Math.floor(Math.random() * COLOR_PALETTE.length)],
-                    transactionType: supplier ? 'credit' : 'cash',
-                    supplierName: supplier,
-                };
-                
-                let actualSupplierName = addData.supplierName;
-                if (addData.supplierName) {
-                    const supplierMatch = findSupplier(addData.supplierName, suppliers);
-                    if (supplierMatch && 'suggestion' in supplierMatch) {
-                        setConfirmationRequest({
-                            title: 'Confirm Supplier',
-                            message: `Did you mean the supplier "${supplierMatch.suggestion}"?`,
-                            onConfirm: () => {
-                                handleAddItem({ ...addData, supplierName: supplierMatch.suggestion });
-                                setConfirmationRequest(null);
-                            }
-                        });
-                        setIsLoading(false);
-                        return; // Wait for user confirmation
-                    } else if (!supplierMatch) {
-                        // It's a new supplier, proceed as normal
-                    }
-                }
-                
-                handleAddItem(addData);
-                break;
-            case 'UPDATE':
-                const { name: updateName, ...updates } = result.parameters;
-                const itemToUpdate = stockItems.find(i => i.name.toLowerCase() === updateName.toLowerCase());
-                if (itemToUpdate) {
-                    for (const key in updates) {
-                        const field = key as EditableStockItemKey;
-                        const value = Number(updates[key]);
-                        // Add to existing value instead of overwriting
-                        const newValue = itemToUpdate[field] + value;
-                        await handleStockUpdate(itemToUpdate.id, field, newValue);
-                    }
-                }
-                break;
-            case 'QUERY':
-                setInfoModalContent(result.answer);
-                break;
-            default:
-                setInfoModalContent("Sorry, I couldn't understand that command. Please try rephrasing.");
-                break;
+        // Questions are answered straight away; anything that changes stock or bins is previewed first
+        const { commands } = parsed;
+        if (commands.some(({ command }) => command.action !== 'QUERY' && command.action !== 'UNKNOWN')) {
+            setAiPreview(commands);
+            setModal('aiPreview');
+        } else if (commands.some(({ command }) => command.action === 'QUERY')) {
+            setInfoModalContent(commands.flatMap(({ command }) => command.action === 'QUERY' ? [command.answer] : []).join('\n\n'));
+        } else {
+            setInfoModalContent("Sorry, I couldn't understand that command. Please try rephrasing.");
         }
-
     } catch (error) {
         console.error("AI Command Error:", error);
         setInfoModalContent("There was an error processing your command. Please try again.");
     } finally {
-        setIsLoading(false);
+        setLoading(false);
     }
   };
 
-  const handleBinAICommand = async (command: string) => {
-    // Similar to handleAICommand, but for bin actions
-    // Simplified for this example
-    const movementMatch = command.match(/(send|receive|return) (\d+) (.+?) (to|from) (.+)/i);
-    if (movementMatch && binStockData) {
-        const [, type, quantity, binName, , partyName] = movementMatch;
-        const bin = binStockData.binTypes.find(b => b.name.toLowerCase() === binName.trim().toLowerCase());
-        if (bin) {
-            const details = {
-                type: type.toLowerCase() as 'sent' | 'received' | 'returned',
-                quantity: parseInt(quantity, 10),
-                binId: bin.id,
-                partyName: partyName.trim(),
-            };
-            handleBinMovement(details);
-        } else {
-             setInfoModalContent(`Could not find a bin type named "${binName.trim()}".`);
-        }
-    } else {
-        setInfoModalContent("Sorry, I could only understand bin movements like 'send 10 chep plastic to Ziyard'.");
+  // Saves the batch once the user has checked (and maybe corrected) it in the preview. The
+  // changes go through apply_ai_batch in one transaction, so either all of them land or none do.
+  const handleConfirmAICommands = async (commands: ParsedAICommand[]) => {
+    if (!team) return;
+    const needed = [...new Set(commands.flatMap(({ command }) => aiCommandPermissions(command)))];
+    if (!needed.every(requirePermission)) return;
+    if (!navigator.onLine) {
+        setInfoModalContent("You're offline. Assistant commands can be saved once you're back online.");
+        return;
+    }
+    setAiPreview(null);
+    setModal(null);
+    setIsLoading(true);
+
+    const actions = commands.flatMap(parsed => {
+        const action = toBatchAction(parsed, stockItems, move => describeBinMovement(
+            { type: move.movement, quantity: move.quantity, binId: move.binId, partyName: move.partyName, transporter: move.transporter, binContents: move.contents },
+            move.binName,
+        ));
+        if (!action) return [];
+        return [parsed.command.action === 'ADD' ? { ...action, color: COLOR_PALETTE[Math.floor(Math.random() * COLOR_PALETTE.length)] } : action];
+    });
+    const { data, error } = await supabase.rpc('apply_ai_batch', { p_team_id: team.id, p_actions: actions });
+    if (error || !data) {
+        console.error("Error applying assistant commands:", error);
+        setInfoModalContent(`${error?.message || 'The changes could not be saved.'} Nothing was changed.`);
+        setIsLoading(false);
+        return;
     }
+
+    setStockItems(prev => (data.items as StockItem[]).reduce((list, item) => upsertById(list, item), prev));
+    setCostLayers(prev => (data.layers as CostLayer[]).reduce((list, layer) => upsertById(list, layer), prev));
+    setTransactions(prev => (data.transactions as CreditTransaction[]).reduce((list, t) => upsertById(list, t), prev));
+    const savedSuppliers = data.suppliers as Supplier[];
+    setSuppliers(prev => savedSuppliers.reduce((list, supplier) => upsertById(list, supplier), prev));
+    setArchive(prev => ({ ...prev, suppliers: prev.suppliers.filter(s => !savedSuppliers.some(saved => saved.id === s.id)) }));
+
+    await fetchActivityEntries(data.activity_ids as string[]);
+    if ((data.bin_history_ids as string[]).length > 0) await fetchBinData(team.id);
+    setIsLoading(false);
   };
 
   // --- REPORTING ---
-  const generateReport = (startDate: Date, endDate: Date, title: string) => {
-    const relevantLogs = activityLog.filter(log => {
-      const logDate = new Date(log.timestamp);
-      return logDate >= startDate && logDate <= endDate;
-    });
+  // Reads the whole range from the database: the log in state is capped at one request's rows,
+  // so busy teams' totals would be undercounted.
+  const generateReport = async (startDate: Date, endDate: Date, title: string) => {
+    setIsLoading(true);
+    const relevantLogs = await fetchActivityRange(startDate, endDate);
+    setIsLoading(false);
+    if (!relevantLogs) {
+        setInfoModalContent("The activity for this report couldn't be loaded. Please try again.");
+        return;
+    }
 
     const reportContent = {
         dateRange: `${startDate.toLocaleDateString()} - ${endDate.toLocaleDateString()}`,
@@ -962,7 +2250,10 @@ const Dashboard: React.FC<DashboardProps> = ({ session }) => {
             totalItemsPacked: 0,
             totalItemsLost: 0,
             mostActiveItem: '',
-            topUser: ''
+            topUser: '',
+            // Stock on hand now, valued by the team's method
+            stockValue: valuationRows.reduce((sum, row) => sum + row.valuation.value, 0),
+            valuationMethod: VALUATION_METHOD_LABELS[valuationMethod],
         },
         detailedLog: relevantLogs,
     };
@@ -971,16 +2262,11 @@ const Dashboard: React.FC<DashboardProps> = ({ session }) => {
     const userCounts: Record<string, number> = {};
     
     relevantLogs.forEach(log => {
-        if(log.change_description.includes('Added')) {
-            const quantity = parseInt(log.change_description.split(' ')[1], 10) || 0;
-            reportContent.summary.totalItemsAdded += quantity;
-        } else if(log.change_description.includes('Packed')) {
-             const quantity = parseInt(log.change_description.split(' ').pop() || '0', 10);
-             reportContent.summary.totalItemsPacked += quantity;
-        } else if(log.change_description.includes('Lost')) {
-             const quantity = parseInt(log.change_description.split(' ').pop() || '0', 10);
-             reportContent.summary.totalItemsLost += quantity;
-        }
+        // Totals come from the structured event deltas; entries logged before events existed carry none.
+        const delta = log.event?.delta || 0;
+        if (log.event?.field === 'added_today') reportContent.summary.totalItemsAdded += delta;
+        else if (log.event?.field === 'packed') reportContent.summary.totalItemsPacked += delta;
+        else if (log.event?.field === 'lost') reportContent.summary.totalItemsLost += delta;
         
         activityCounts[log.item_name] = (activityCounts[log.item_name] || 0) + 1;
         if(log.users?.full_name) {
@@ -1011,6 +2297,7 @@ const Dashboard: React.FC<DashboardProps> = ({ session }) => {
                 <li>Total Items Lost: ${reportData.content.summary.totalItemsLost}</li>
                 <li>Most Active Item: ${reportData.content.summary.mostActiveItem}</li>
                 <li>Top Contributor: ${reportData.content.summary.topUser}</li>
+                <li>Current Stock Value (${reportData.content.summary.valuationMethod}): R${reportData.content.summary.stockValue.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</li>
             </ul>
             <h2>Detailed Log</h2>
             <table><thead><tr><th>Timestamp</th><th>User</th><th>Item</th><th>Action</th></tr></thead><tbody>
@@ -1032,23 +2319,79 @@ const Dashboard: React.FC<DashboardProps> = ({ session }) => {
 
 
   // --- DERIVED STATE & MEMOS ---
+  const layersByItem = useMemo(() => groupLayersByItem(costLayers), [costLayers]);
+
+  const valuationRows = useMemo(() => stockItems.map(item => {
+    const remaining = remainingOf(item);
+    return { item, remaining, valuation: valueStockItem(item, remaining, layersByItem.get(item.id) || [], valuationMethod) };
+  }), [stockItems, layersByItem, valuationMethod]);
+
   const enhancedStockData = useMemo(() => {
     return stockItems.map(item => {
       const used = item.packed + item.lost;
       const remaining = item.opening_stock + item.added_today - used;
-      const stockValue = remaining * item.price;
+      const stockValue = valueStockItem(item, remaining, layersByItem.get(item.id) || [], valuationMethod).value;
       return { ...item, used, remaining, stockValue };
     });
-  }, [stockItems]);
+  }, [stockItems, layersByItem, valuationMethod]);
+
+  const unitCosts = useMemo(() => new Map(valuationRows.map(row => [row.item.id, row.valuation.unitCost])), [valuationRows]);
+
+  // Today's stock as seen at each location. Stock is valued at the item's unit cost, which
+  // is the same wherever it sits.
+  const locationGroups = useMemo(() => {
+    return locations.map(location => ({
+      location,
+      data: enhancedStockData.map(item => {
+        const counts = countsAtLocation(item, location, levels);
+        const remaining = remainingAtLocation(counts);
+        return { ...item, ...counts, used: counts.packed + counts.lost, remaining, stockValue: remaining * (unitCosts.get(item.id) || 0) };
+      }),
+    }));
+  }, [locations, levels, enhancedStockData, unitCosts]);
+
+  // When a past date is picked, the table and cards show that day's closing snapshot instead.
+  const displayedStockData = useMemo(() => {
+    if (!isViewingPastDay) return enhancedStockData;
+    return (snapshots || []).map(snap => {
+      const used = snap.packed + snap.lost;
+      return {
+        id: snap.stock_item_id,
+        name: snap.name,
+        category: snap.category,
+        color: snap.color,
+        alert_level: snap.alert_level,
+        opening_stock: snap.opening_stock,
+        added_today: snap.added,
+        packed: snap.packed,
+        lost: snap.lost,
+        price: snap.price,
+        used,
+        remaining: snap.remaining,
+        stockValue: snap.stock_value ?? snap.remaining * snap.price,
+      };
+    });
+  }, [isViewingPastDay, snapshots, enhancedStockData]);
 
   const summaryStats = useMemo(() => {
     return {
-      totalRemaining: enhancedStockData.reduce((sum, item) => sum + item.remaining, 0),
-      totalStockValue: enhancedStockData.reduce((sum, item) => sum + item.stockValue, 0),
-      lowStockCount: enhancedStockData.filter(item => item.remaining <= item.alert_level).length,
-      totalItems: stockItems.length,
+      totalRemaining: displayedStockData.reduce((sum, item) => sum + item.remaining, 0),
+      totalStockValue: displayedStockData.reduce((sum, item) => sum + item.stockValue, 0),
+      lowStockCount: displayedStockData.filter(item => item.remaining <= item.alert_level).length,
+      totalItems: displayedStockData.length,
     };
-  }, [enhancedStockData, stockItems.length]);
+  }, [displayedStockData]);
+
+  const reorderSuggestions = useMemo(
+    () => buildReorderSuggestions(stockItems, usageHistory, suppliers, purchaseOrders, transactions),
+    [stockItems, usageHistory, suppliers, purchaseOrders, transactions]
+  );
+
+  const reversedActivity = useMemo(() => reversedIds(activityLog.map(entry => entry.reversal_of)), [activityLog]);
+  const rolledOverAt = useMemo(() => lastRolloverAt(activityLog), [activityLog]);
+  const reversedBinEntries = useMemo(() => reversedIds((binStockData?.history || []).map(entry => entry.reversalOf)), [binStockData?.history]);
+  const undoContext: UndoContext = { role: currentRole, userId: session.user.id, now: Date.now() };
+  const aiCommandContext: AICommandContext = useMemo(() => ({ stockItems, suppliers, bins: binStockData }), [stockItems, suppliers, binStockData]);
 
 
   // --- RENDER ---
@@ -1072,6 +2415,7 @@ const Dashboard: React.FC<DashboardProps> = ({ session }) => {
                     <AlertTriangle className="w-16 h-16 text-warning mx-auto mb-4"/>
                     <h3 className="text-xl font-bold text-white">Confirm New Day</h3>
                     <p className="text-text-secondary mt-2">This will move all 'Remaining' stock to 'Opening Stock' and reset 'Added', 'Packed', and 'Lost' to zero for all items. This action cannot be undone.</p>
+                    {team.rollover_time && <p className="text-text-secondary mt-2 text-sm">New Day also runs automatically at {team.rollover_time} ({team.rollover_timezone || DEFAULT_ROLLOVER_TIMEZONE}); so tapping it closes the day that ended at the last rollover, never today. It won't roll the same day over twice.</p>}
                 </div>
                 <div className="bg-bg-primary px-6 py-4 flex justify-end gap-3 rounded-b-lg">
                     <button onClick={() => setModal(null)} className="px-4 py-2 rounded-md bg-border-primary hover:bg-gray-700 text-white font-semibold">Cancel</button>
@@ -1123,12 +2467,20 @@ const Dashboard: React.FC<DashboardProps> = ({ session }) => {
               <form onSubmit={(e) => { e.preventDefault(); handleAddItem(newItemData); }} className="p-6 space-y-4">
                   <div>
                     <label className="text-sm font-medium text-text-secondary block mb-1">Item Name</label>
-                    <input type="text" placeholder="e.g., 1.5kg Narjie boxes" required value={newItemData.name} onChange={(e) => setNewItemData(prev => ({...prev, name: e.target.value}))} className="w-full bg-bg-primary border border-border-primary rounded-md p-2 text-white focus:ring-2 focus:ring-accent-primary outline-none" />
+                    <input type="text" placeholder="e.g., 1.5kg Narjie boxes" required value={newItemData.name} onChange={(e) => setNewItemData(prev => ({...prev, name: e.target.value, unit: undefined}))} className="w-full bg-bg-primary border border-border-primary rounded-md p-2 text-white focus:ring-2 focus:ring-accent-primary outline-none" />
                   </div>
                   <div className="grid grid-cols-2 gap-4">
                     <div>
                       <label className="text-sm font-medium text-text-secondary block mb-1">Quantity</label>
-                      <input type="number" step="1" min="0" placeholder="e.g., 1000" required value={newItemData.quantity} onChange={(e) => handlePriceAndQuantityChange({ quantity: e.target.value === '' ? '' : parseInt(e.target.value, 10) }, 'quantity')} className="w-full bg-bg-primary border border-border-primary rounded-md p-2 text-white focus:ring-2 focus:ring-accent-primary outline-none" />
+                      <div className="flex gap-1">
+                        <input type="number" step="any" min="0" placeholder="e.g., 1000" required value={newItemData.quantity} onChange={(e) => handlePriceAndQuantityChange({ quantity: e.target.value === '' ? '' : parseFloat(e.target.value) }, 'quantity')} className="w-full bg-bg-primary border border-border-primary rounded-md p-2 text-white focus:ring-2 focus:ring-accent-primary outline-none" />
+                        {addItemMatch?.units?.length ? (
+                          <select value={newItemData.unit || ''} onChange={(e) => setNewItemData(prev => ({ ...prev, unit: e.target.value || undefined }))} className="bg-bg-primary border border-border-primary rounded-md p-2 text-white focus:ring-2 focus:ring-accent-primary outline-none">
+                            <option value="">{pluralizeUnit(baseUnitOf(addItemMatch), 2)}</option>
+                            {addItemMatch.units.map(u => <option key={u.name} value={u.name}>{pluralizeUnit(u.name, 2)} ({u.factor.toLocaleString()})</option>)}
+                          </select>
+                        ) : null}
+                      </div>
                     </div>
                     <div>
                       <label className="text-sm font-medium text-text-secondary block mb-1">Alert Level</label>
@@ -1137,7 +2489,7 @@ const Dashboard: React.FC<DashboardProps> = ({ session }) => {
                   </div>
                   <div className="grid grid-cols-2 gap-4">
                     <div>
-                        <label className="text-sm font-medium text-text-secondary block mb-1">Unit Price (R)</label>
+                        <label className="text-sm font-medium text-text-secondary block mb-1">{addItemMatch && newItemData.unit ? `Price per ${newItemData.unit} (R)` : 'Unit Price (R)'}</label>
                         <input type="number" step="any" min="0" placeholder="0.00" value={newItemData.price} onChange={(e) => handlePriceAndQuantityChange({ price: e.target.value === '' ? '' : parseFloat(e.target.value) }, 'unit')} className="w-full bg-bg-primary border border-border-primary rounded-md p-2 text-white focus:ring-2 focus:ring-accent-primary outline-none" />
                     </div>
                     <div>
@@ -1182,7 +2534,8 @@ const Dashboard: React.FC<DashboardProps> = ({ session }) => {
                     <p className="text-text-secondary mt-2">
                         The price for '{priceConfirmation.item.name}' is R{priceConfirmation.item.price.toFixed(2)}. You entered a new price of R{(priceConfirmation.newItemData.price as number).toFixed(2)}.
                     </p>
-                    <p className="text-text-secondary mt-2 font-semibold">Do you want to update the item's average price to the new value?</p>
+                    <p className="text-text-secondary mt-2">Either way, these units are costed at the price you entered and stock already on hand keeps its cost.</p>
+                    <p className="text-text-secondary mt-2 font-semibold">Do you want to update the item's price to the new value?</p>
                 </div>
                 <div className="bg-bg-primary px-6 py-4 flex flex-col sm:flex-row justify-end gap-3 rounded-b-lg">
                     <button onClick={() => handleAddItem(priceConfirmation.newItemData, false)} className="px-4 py-2 rounded-md bg-border-primary hover:bg-gray-700 text-white font-semibold">No, Keep Old Price (R{priceConfirmation.item.price.toFixed(2)})</button>
@@ -1207,6 +2560,80 @@ const Dashboard: React.FC<DashboardProps> = ({ session }) => {
              </div>
         )}
 
+        {stockConflict && (
+             <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4">
+             <div className="bg-bg-secondary rounded-lg shadow-2xl w-full max-w-md border border-border-primary animate-fade-in">
+                 <div className="p-6">
+                     <h3 className="text-xl font-bold text-white flex items-center gap-2"><AlertTriangle className="text-warning" size={22}/> Edit Conflict</h3>
+                     <p className="text-text-secondary mt-2">
+                         Someone changed <strong className="text-white">{FIELD_LABELS[stockConflict.field]}</strong> for <strong className="text-white">{stockConflict.theirs.name}</strong> while you were editing it.
+                     </p>
+                     <div className="grid grid-cols-3 gap-2 mt-4 text-center">
+                         <div className="bg-bg-primary rounded-md p-3"><p className="text-xs text-text-secondary">Was</p><p className="text-lg font-bold text-text-secondary">{stockConflict.base}</p></div>
+                         <div className="bg-bg-primary rounded-md p-3"><p className="text-xs text-text-secondary">Theirs</p><p className="text-lg font-bold text-accent-secondary">{stockConflict.theirs[stockConflict.field]}</p></div>
+                         <div className="bg-bg-primary rounded-md p-3"><p className="text-xs text-text-secondary">Mine</p><p className="text-lg font-bold text-white">{stockConflict.mine}</p></div>
+                     </div>
+                 </div>
+                 <div className="bg-bg-primary px-6 py-4 flex justify-end gap-3 rounded-b-lg">
+                     <button onClick={() => setStockConflict(null)} className="px-4 py-2 rounded-md bg-border-primary hover:bg-gray-700 text-white font-semibold">Keep Theirs</button>
+                     <button
+                         onClick={() => {
+                             const { theirs, field, mine, source } = stockConflict;
+                             setStockConflict(null);
+                             handleStockUpdate(theirs.id, field, mine, source);
+                         }}
+                         className="px-4 py-2 rounded-md bg-accent-primary hover:bg-purple-700 text-white font-semibold"
+                     >
+                         Use Mine
+                     </button>
+                 </div>
+             </div>
+             </div>
+        )}
+
+        {modal === 'syncReview' && (
+          <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4" onClick={() => setModal(null)}>
+            <div className="bg-bg-secondary rounded-lg shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col border border-border-primary animate-fade-in" onClick={e => e.stopPropagation()}>
+              <div className="flex items-center justify-between p-4 border-b border-border-primary flex-shrink-0">
+                <h3 className="text-lg font-bold text-white flex items-center gap-2"><AlertTriangle size={20} className="text-warning"/> Review Offline Edits</h3>
+                <button onClick={() => setModal(null)} className="text-text-secondary hover:text-white"><X size={20}/></button>
+              </div>
+              <div className="p-4 overflow-y-auto flex-grow space-y-3">
+                {syncConflicts.length === 0 && <p className="text-center text-text-secondary p-6">Nothing left to review.</p>}
+                {syncConflicts.map(conflict => {
+                  const { edit } = conflict;
+                  const title = edit.kind === 'stock' ? `${edit.itemName}: ${FIELD_LABELS[edit.field]}`
+                    : edit.kind === 'binStatus' ? `${edit.binName}: ${STATUS_ROWS.find(row => row.key === edit.statusKey)?.label || edit.statusKey} count`
+                    : `Bin movement for ${edit.details.partyName}`;
+                  return (
+                    <div key={conflict.id} className="bg-bg-primary rounded-md p-4">
+                      <div className="flex flex-wrap items-start justify-between gap-2">
+                        <div>
+                          <p className="font-semibold text-white">{title}</p>
+                          <p className="text-xs text-text-secondary">Edited offline {new Date(edit.queued_at).toLocaleString()}. {conflict.reason}</p>
+                        </div>
+                        <div className="flex gap-2">
+                          <button onClick={() => resolveSyncConflict(conflict, false)} className="px-3 py-1 text-sm rounded-md bg-border-primary hover:bg-gray-700 text-white font-semibold">Discard</button>
+                          <button onClick={() => resolveSyncConflict(conflict, true)} className="px-3 py-1 text-sm rounded-md bg-accent-primary hover:bg-purple-700 text-white font-semibold">{edit.kind === 'binMovement' ? 'Retry' : 'Use Mine'}</button>
+                        </div>
+                      </div>
+                      {edit.kind === 'binMovement' ? (
+                        <p className="text-sm text-text-primary mt-2">{describeBinMovement(edit.details, binStockData.binTypes.find(b => b.id === edit.details.binId)?.name || 'Unknown Bin')}</p>
+                      ) : (
+                        <div className="grid grid-cols-3 gap-2 mt-3 text-center">
+                          <div className="bg-bg-secondary rounded-md p-2"><p className="text-xs text-text-secondary">Was</p><p className="font-bold text-text-secondary">{edit.baseValue}</p></div>
+                          <div className="bg-bg-secondary rounded-md p-2"><p className="text-xs text-text-secondary">Theirs</p><p className="font-bold text-accent-secondary">{conflict.theirs ?? '—'}</p></div>
+                          <div className="bg-bg-secondary rounded-md p-2"><p className="text-xs text-text-secondary">Mine</p><p className="font-bold text-white">{edit.value}</p></div>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        )}
+
         {modal === 'report' && reportData && (
           <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4" onClick={() => setModal(null)}>
             <div className="bg-bg-secondary rounded-lg shadow-2xl w-full max-w-4xl h-[90vh] flex flex-col border border-border-primary animate-fade-in" onClick={e => e.stopPropagation()}>
@@ -1220,11 +2647,12 @@ const Dashboard: React.FC<DashboardProps> = ({ session }) => {
               </div>
               <div className="p-6 overflow-y-auto flex-grow">
                   <p className="font-semibold text-text-secondary">Date Range: {reportData.content.dateRange}</p>
-                  <div className="my-4 p-4 bg-bg-primary rounded-lg grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="my-4 p-4 bg-bg-primary rounded-lg grid grid-cols-2 md:grid-cols-5 gap-4">
                       <div><p className="text-xs text-text-secondary">Items Added</p><p className="text-xl font-bold text-white">{reportData.content.summary.totalItemsAdded}</p></div>
                       <div><p className="text-xs text-text-secondary">Items Packed</p><p className="text-xl font-bold text-white">{reportData.content.summary.totalItemsPacked}</p></div>
                       <div><p className="text-xs text-text-secondary">Items Lost</p><p className="text-xl font-bold text-white">{reportData.content.summary.totalItemsLost}</p></div>
                       <div><p className="text-xs text-text-secondary">Most Active Item</p><p className="text-xl font-bold text-white truncate">{reportData.content.summary.mostActiveItem || 'N/A'}</p></div>
+                      <div><p className="text-xs text-text-secondary">Stock Value Now ({reportData.content.summary.valuationMethod})</p><p className="text-xl font-bold text-white">R{reportData.content.summary.stockValue.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p></div>
                   </div>
                   <h4 className="font-bold text-white mb-2">Detailed Log</h4>
                   <div className="overflow-x-auto">
@@ -1239,22 +2667,85 @@ const Dashboard: React.FC<DashboardProps> = ({ session }) => {
         )}
 
         {modal === 'suppliers' && (
-            <div className="fixed inset-0 bg-black bg-opacity-70 flex items-start justify-center z-50 p-4 pt-20" onClick={() => setModal(null)}>
-            <div className="bg-bg-secondary rounded-lg shadow-2xl w-full max-w-2xl border border-border-primary animate-fade-in" onClick={e => e.stopPropagation()}>
-                <div className="p-4 flex items-center justify-between"><h3 className="text-lg font-bold text-white flex items-center gap-2"><TruckIcon size={20} className="text-accent-secondary"/> Supplier Balances</h3><button onClick={() => setModal(null)} className="text-text-secondary hover:text-white"><X size={20}/></button></div>
-                <div className="p-4 border-t border-border-primary max-h-[60vh] overflow-y-auto">
-                    <div className="space-y-2">
-                    {suppliers.map(supplier => (
-                        <div key={supplier.id} className="flex items-center justify-between p-3 bg-bg-primary rounded-md">
-                            <p className="font-semibold text-white">{supplier.name}</p>
-                            <p className="font-bold text-lg text-green-400">R{supplier.balance.toLocaleString('en-US', { minimumFractionDigits: 2 })}</p>
-                        </div>
-                    ))}
-                    {suppliers.length === 0 && <p className="text-text-secondary text-center py-8">No suppliers found. Add items on credit to create suppliers.</p>}
-                    </div>
-                </div>
-            </div>
-          </div>
+            <SuppliersModal
+                teamName={team.name}
+                suppliers={suppliers}
+                transactions={transactions}
+                payments={payments}
+                can={can}
+                onRecordPayment={handleRecordPayment}
+                onUpdateLeadTime={handleUpdateLeadTime}
+                onArchive={handleArchiveSupplier}
+                onClose={() => setModal(null)}
+            />
+        )}
+
+        {modal === 'valuation' && (
+            <ValuationModal
+                teamName={team.name}
+                method={valuationMethod}
+                rows={valuationRows}
+                onClose={() => setModal(null)}
+            />
+        )}
+
+        {modal === 'locations' && (
+            <LocationsModal
+                locations={locations}
+                onCreate={handleCreateLocation}
+                onRename={handleRenameLocation}
+                onDelete={handleDeleteLocation}
+                onClose={() => setModal(null)}
+            />
+        )}
+
+        {modal === 'stockCount' && (
+            <StockCountModal
+                counts={stockCounts}
+                stockItems={stockItems}
+                unitCosts={unitCosts}
+                canApprove={can('stock.manage')}
+                onStart={handleStartStockCount}
+                onRecord={handleRecordStockCount}
+                onPost={handlePostStockCount}
+                onCancel={handleCancelStockCount}
+                onClose={() => setModal(null)}
+            />
+        )}
+
+        {modal === 'transferStock' && (
+            <TransferStockModal
+                stockItems={stockItems}
+                locations={locations}
+                levels={levels}
+                onTransfer={handleTransferStock}
+                onClose={() => setModal(null)}
+            />
+        )}
+
+        {modal === 'reorder' && (
+            <ReorderModal
+                teamName={team.name}
+                suggestions={reorderSuggestions}
+                suppliers={suppliers}
+                can={can}
+                onCreateDrafts={handleCreateReorderDrafts}
+                onClose={() => setModal(null)}
+            />
+        )}
+
+        {modal === 'purchaseOrders' && (
+            <PurchaseOrdersModal
+                orders={purchaseOrders}
+                suppliers={suppliers}
+                stockItems={stockItems}
+                can={can}
+                onCreate={handleCreatePurchaseOrder}
+                onMarkSent={handleMarkPurchaseOrderSent}
+                onDeleteDraft={handleDeletePurchaseOrderDraft}
+                onReceive={handleReceivePurchaseOrder}
+                onClose={() => setModal(null)}
+            />
         )}
 
         {modal === 'editItem' && editFormData && itemToEdit && (
@@ -1264,7 +2755,7 @@ const Dashboard: React.FC<DashboardProps> = ({ session }) => {
                         <h3 className="text-lg font-bold text-white">Edit: {itemToEdit.name}</h3>
                         <button onClick={() => setModal(null)} className="text-text-secondary hover:text-white"><X size={20}/></button>
                     </div>
-                    <form onSubmit={(e) => { e.preventDefault(); handleEditItem(itemToEdit.id, editFormData); }} className="p-6 space-y-4">
+                    <form onSubmit={(e) => { e.preventDefault(); handleEditItem(itemToEdit.id, editFormData); }} className="p-6 space-y-4 max-h-[75vh] overflow-y-auto">
                         <div>
                             <label className="text-sm font-medium text-text-secondary block mb-1">Item Name</label>
                             <input type="text" value={editFormData.name} onChange={(e) => setEditFormData(p => p ? {...p, name: e.target.value} : null)} required className="w-full bg-bg-primary border border-border-primary rounded-md p-2 text-white focus:ring-2 focus:ring-accent-primary outline-none" />
@@ -1277,6 +2768,25 @@ const Dashboard: React.FC<DashboardProps> = ({ session }) => {
                             <label className="text-sm font-medium text-text-secondary block mb-1">Color Tag</label>
                             <div className="flex flex-wrap gap-2">{COLOR_PALETTE.map(color => (<button key={color} type="button" onClick={() => setEditFormData(p => p ? {...p, color} : null)} className={`w-8 h-8 rounded-full border-2 ${editFormData.color === color ? 'border-white ring-2 ring-offset-2 ring-offset-bg-secondary ring-white' : 'border-transparent'} transition-all`} style={{ backgroundColor: color }} />))}</div>
                         </div>
+                        <div>
+                            <label className="text-sm font-medium text-text-secondary block mb-1">Counted In</label>
+                            <input type="text" value={editFormData.baseUnit} onChange={(e) => setEditFormData(p => p ? {...p, baseUnit: e.target.value} : null)} required placeholder="e.g., box" className="w-full bg-bg-primary border border-border-primary rounded-md p-2 text-white focus:ring-2 focus:ring-accent-primary outline-none" />
+                            <p className="text-xs text-text-secondary mt-1">Stock is stored in this unit. Counts can also be entered in the units below, e.g. "2 pallets + 40".</p>
+                        </div>
+                        <div className="space-y-2">
+                            <label className="text-sm font-medium text-text-secondary block">Other Units</label>
+                            {editFormData.units.map((unit, index) => (
+                                <div key={index} className="flex items-center gap-2">
+                                    <span className="text-text-secondary text-sm">1</span>
+                                    <input type="text" value={unit.name} onChange={(e) => setEditFormData(p => p ? {...p, units: p.units.map((u, i) => i === index ? { ...u, name: e.target.value } : u)} : null)} placeholder="pallet" className="w-32 bg-bg-primary border border-border-primary rounded-md p-2 text-white focus:ring-2 focus:ring-accent-primary outline-none" />
+                                    <span className="text-text-secondary text-sm">=</span>
+                                    <input type="number" min="0" step="any" value={unit.factor} onChange={(e) => setEditFormData(p => p ? {...p, units: p.units.map((u, i) => i === index ? { ...u, factor: e.target.value === '' ? '' : parseFloat(e.target.value) } : u)} : null)} placeholder="1500" className="w-24 bg-bg-primary border border-border-primary rounded-md p-2 text-white focus:ring-2 focus:ring-accent-primary outline-none" />
+                                    <span className="text-text-secondary text-sm truncate">{pluralizeUnit(editFormData.baseUnit || 'unit', 2)}</span>
+                                    <button type="button" onClick={() => setEditFormData(p => p ? {...p, units: p.units.filter((_, i) => i !== index)} : null)} className="ml-auto text-text-secondary hover:text-danger"><X size={16}/></button>
+                                </div>
+                            ))}
+                            <button type="button" onClick={() => setEditFormData(p => p ? {...p, units: [...p.units, { name: '', factor: '' }]} : null)} className="text-sm text-accent-secondary hover:text-white font-semibold">+ Add Unit</button>
+                        </div>
                         <div className="flex justify-end pt-2">
                             <button type="submit" disabled={isLoading} className="px-4 py-2 rounded-md bg-accent-primary hover:bg-purple-700 text-white font-semibold disabled:bg-border-primary disabled:cursor-not-allowed flex items-center justify-center">{isLoading ? <Loader size={20} className="animate-spin"/> : 'Save Changes'}</button>
                         </div>
@@ -1285,54 +2795,141 @@ const Dashboard: React.FC<DashboardProps> = ({ session }) => {
             </div>
         )}
 
-        {modal === 'deleteItem' && itemToDelete && (
+        {modal === 'aiPreview' && aiPreview && (
+            <AICommandPreviewModal
+                commands={aiPreview}
+                context={aiCommandContext}
+                onConfirm={handleConfirmAICommands}
+                onReject={() => { setAiPreview(null); setModal(null); }}
+            />
+        )}
+
+        {modal === 'archiveItem' && itemToArchive && (
             <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4">
                 <div className="bg-bg-secondary rounded-lg shadow-2xl w-full max-w-md border border-border-primary animate-fade-in">
                     <div className="p-6 text-center">
-                        <AlertTriangle className="w-16 h-16 text-danger mx-auto mb-4"/>
-                        <h3 className="text-xl font-bold text-white">Confirm Deletion</h3>
-                        <p className="text-text-secondary mt-2">Are you sure you want to permanently delete <strong className="text-white">{itemToDelete.name}</strong>? This action cannot be undone.</p>
+                        <Archive className="w-16 h-16 text-warning mx-auto mb-4"/>
+                        <h3 className="text-xl font-bold text-white">Archive Item</h3>
+                        <p className="text-text-secondary mt-2">Archive <strong className="text-white">{itemToArchive.name}</strong>? It will be hidden from the inventory, and its history is kept. You can restore it from Settings &gt; Archive.</p>
                     </div>
                     <div className="bg-bg-primary px-6 py-4 flex justify-end gap-3 rounded-b-lg">
                         <button onClick={() => setModal(null)} className="px-4 py-2 rounded-md bg-border-primary hover:bg-gray-700 text-white font-semibold">Cancel</button>
-                        <button onClick={() => handleDeleteItem(itemToDelete.id)} className="px-4 py-2 rounded-md bg-danger hover:bg-red-700 text-white font-semibold">Delete Item</button>
+                        <button onClick={() => handleArchiveItem(itemToArchive.id)} className="px-4 py-2 rounded-md bg-danger hover:bg-red-700 text-white font-semibold">Archive Item</button>
                     </div>
                 </div>
             </div>
         )}
 
+        {modal === 'export' && (
+            <ExportModal
+                teamName={team.name}
+                stockData={enhancedStockData}
+                fetchActivity={fetchActivityRange}
+                suppliers={[...suppliers, ...archive.suppliers]}
+                transactions={transactions}
+                payments={payments}
+                binStockData={binStockData}
+                onClose={() => setModal(null)}
+            />
+        )}
+
+        {modal === 'import' && (
+            <ImportModal
+                stockItems={stockItems}
+                onImport={handleImportItems}
+                onClose={() => setModal(null)}
+            />
+        )}
+
+        {modal === 'createTeam' && (
+            <div className="fixed inset-0 z-50 overflow-y-auto">
+                <SetupTeamModal
+                    session={session}
+                    onTeamCreated={(teamId) => { setModal(null); setCurrentView('dashboard'); loadTeams(teamId); }}
+                    onCancel={() => setModal(null)}
+                />
+            </div>
+        )}
 
         <Header 
           teamName={team.name}
+          teams={teams}
+          activeTeamId={team.id}
+          onSwitchTeam={handleSwitchTeam}
+          onCreateTeamClick={() => setModal('createTeam')}
           onNewDayClick={() => setModal('newDay')} 
           onCommandInputClick={() => setModal('commandInput')}
           onAddItemClick={() => { resetAddItemForm(); setModal('addItem'); }}
           onSuppliersClick={() => setModal('suppliers')}
-          onExportClick={() => alert('Export functionality coming soon!')}
+          onPurchaseOrdersClick={() => setModal('purchaseOrders')}
+          onStockCountClick={() => { setModal('stockCount'); fetchStockCounts(team.id); }}
+          onExportClick={() => setModal('export')}
+          onImportClick={() => setModal('import')}
+          can={can}
+          role={currentRole}
           onNavigate={setCurrentView}
           currentView={currentView}
           selectedDate={selectedDate}
+          todayKey={todayKey}
           onDateChange={setSelectedDate}
           user={session.user}
         />
+
+        {(!isOnline || queuedEdits.length > 0 || syncConflicts.length > 0) && (
+          <div className={`flex flex-wrap items-center justify-between gap-2 p-3 mb-4 border rounded-lg text-sm ${isOnline ? 'bg-accent-secondary/10 border-accent-secondary/30' : 'bg-warning/10 border-warning/30'}`}>
+            <p className="flex items-center gap-2 text-text-primary">
+              {isOnline ? <RefreshCw size={16} className={isReplaying ? 'animate-spin text-accent-secondary' : 'text-accent-secondary'}/> : <CloudOff size={16} className="text-warning"/>}
+              {!isOnline
+                ? <span>You're offline. Stock and bin edits are saved on this device{queuedEdits.length > 0 && <> (<strong className="text-white">{queuedEdits.length}</strong> pending)</>} and will sync when you reconnect.</span>
+                : queuedEdits.length > 0
+                  ? <span>Syncing <strong className="text-white">{queuedEdits.length}</strong> offline {queuedEdits.length === 1 ? 'edit' : 'edits'}…</span>
+                  : <span><strong className="text-white">{syncConflicts.length}</strong> offline {syncConflicts.length === 1 ? 'edit needs' : 'edits need'} your review.</span>}
+            </p>
+            {syncConflicts.length > 0 && (
+              <button onClick={() => setModal('syncReview')} className="px-3 py-1 rounded-md bg-warning hover:bg-yellow-600 text-white font-semibold">Review {syncConflicts.length}</button>
+            )}
+          </div>
+        )}
         
         <main>
           {currentView === 'dashboard' && (
             <div className="space-y-4 animate-fade-in">
+              {isViewingPastDay && (
+                <div className="flex flex-wrap items-center justify-between gap-2 p-3 bg-accent-secondary/10 border border-accent-secondary/30 rounded-lg text-sm">
+                  <p className="text-text-primary">
+                    Viewing closing stock for <strong className="text-white">{new Date(selectedDate + 'T00:00:00').toLocaleDateString()}</strong> (read-only).
+                    {!isSnapshotLoading && snapshots?.length === 0 && ' No snapshot was recorded for this day.'}
+                  </p>
+                  <button onClick={() => setSelectedDate(todayKey)} className="px-3 py-1 rounded-md bg-accent-secondary hover:bg-cyan-700 text-white font-semibold">Back to Today</button>
+                </div>
+              )}
               <SummaryCards 
                 stats={summaryStats}
+                snapshotDate={isViewingPastDay ? selectedDate : undefined}
                 onLowStockClick={() => {
-                  const lowStockNames = enhancedStockData.filter(i => i.remaining <= i.alert_level).map(i => i.name).join(', ');
+                  const lowStockNames = displayedStockData.filter(i => i.remaining <= i.alert_level).map(i => i.name).join(', ');
                   setInfoModalContent(`The following items are low on stock:\n\n${lowStockNames}`);
                 }}
+                reorderCount={isViewingPastDay ? undefined : reorderSuggestions.filter(s => s.suggestedQuantity > 0).length}
+                onReorderClick={() => setModal('reorder')}
+                onStockValueClick={isViewingPastDay ? undefined : () => setModal('valuation')}
               />
               <InventoryTable 
-                data={enhancedStockData} 
+                data={displayedStockData} 
+                readOnly={isViewingPastDay}
+                can={can}
+                recentlyChangedIds={isViewingPastDay ? undefined : recentlyChangedIds}
+                syncStates={isViewingPastDay ? undefined : syncStates}
                 onUpdate={handleStockUpdate}
+                locationGroups={isViewingPastDay ? undefined : locationGroups}
+                onLocationUpdate={handleLocationStockUpdate}
+                onTransferClick={() => setModal('transferStock')}
+                onManageLocations={() => setModal('locations')}
                 onCommand={handleAICommand}
+                onTranscribeAudio={handleTranscribeAudio}
                 isLoading={isLoading}
                 onEditClick={(itemId) => { setItemToEdit(stockItems.find(i => i.id === itemId) || null); setModal('editItem'); }}
-                onDeleteClick={(itemId) => { setItemToDelete(stockItems.find(i => i.id === itemId) || null); setModal('deleteItem'); }}
+                onArchiveClick={(itemId) => { setItemToArchive(stockItems.find(i => i.id === itemId) || null); setModal('archiveItem'); }}
                 viewMode={inventoryViewMode}
                 setViewMode={setInventoryViewMode}
                 onOpenReport={() => generateReport(new Date(new Date().setDate(new Date().getDate() - 6)), new Date(), 'Report for Last 7 Days')}
@@ -1345,24 +2942,34 @@ const Dashboard: React.FC<DashboardProps> = ({ session }) => {
             <div className="animate-fade-in">
                 <BinStockPage 
                     data={binStockData} 
+                    can={can}
+                    syncStates={syncStates}
                     onCommand={handleBinAICommand}
+                    onTranscribeAudio={handleTranscribeAudio}
                     isLoading={isBinAILoading}
                     onBinMovement={handleBinMovement}
                     onDirectEdit={handleDirectEdit}
                     setConfirmationRequest={setConfirmationRequest}
                     onAddBinType={handleAddBinType}
-                    onRemoveBinType={handleRemoveBinType}
+                    onArchiveBinType={handleArchiveBinType}
                     onUpdateBinColor={handleUpdateBinColor}
                     onAddParty={handleAddParty}
-                    onRemoveParty={handleRemoveParty}
+                    onArchiveParty={handleArchiveParty}
                     onUpdateNotes={handleUpdateNotes}
                     onUpdateStatusCount={handleUpdateStatusCount}
+                    canUndo={entry => canUndoBinEntry(entry, undoContext, reversedBinEntries)}
+                    onUndo={handleUndoBinEntry}
                 />
             </div>
           )}
           {currentView === 'history' && (
             <div className="animate-fade-in">
-              <HistoryPage history={activityLog} selectedDate={selectedDate} />
+              <HistoryPage
+                history={activityLog}
+                selectedDate={selectedDate}
+                canUndo={entry => canUndoActivity(entry, undoContext, reversedActivity, rolledOverAt)}
+                onUndo={handleUndoActivity}
+              />
             </div>
           )}
           {currentView === 'settings' && (
@@ -1370,8 +2977,20 @@ const Dashboard: React.FC<DashboardProps> = ({ session }) => {
               <SettingsPage
                 teamName={team.name}
                 teamMembers={teamMembers}
+                invitations={invitations}
+                can={can}
                 onUpdateTeamName={handleUpdateTeamName}
+                valuationMethod={valuationMethod}
+                onUpdateValuationMethod={handleUpdateValuationMethod}
+                rolloverTime={team.rollover_time || null}
+                rolloverTimezone={team.rollover_timezone || DEFAULT_ROLLOVER_TIMEZONE}
+                onUpdateRollover={handleUpdateRollover}
+                archive={archive}
+                onRestoreArchived={handleRestoreArchived}
                 onAddMember={handleAddTeamMember}
+                onResendInvitation={(invitationId) => handleResendInvitation(invitationId)}
+                onEmailInvitation={handleEmailInvitation}
+                onRevokeInvitation={handleRevokeInvitation}
                 onRemoveMember={handleRemoveTeamMember}
                 onUpdateMemberRole={handleUpdateMemberRole}
                 onResetData={() => setModal('confirmReset')}
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { StockItem, ActivityLogEntry, Supplier, CreditTransaction, SupplierPayment, BinStockData } from '../types';
+import { buildStockSheet, buildActivitySheet, buildSupplierSheets, buildBinBalanceSheet, downloadSheets, ExportFormat, ExportSheet } from '../exportData';
+import { X, Download, Loader, FileSpreadsheet, FileText } from 'lucide-react';
+import { localDateKey } from '../dates';
+
+type Dataset = 'stock' | 'activity' | 'suppliers' | 'bins';
+
+interface ExportModalProps {
+  teamName: string;
+  stockData: (StockItem & { used: number; remaining: number; stockValue: number })[];
+  fetchActivity: (start: Date, end: Date) => Promise<ActivityLogEntry[] | null>; // The whole range from the database, not just the loaded log
+  suppliers: Supplier[];
+  transactions: CreditTransaction[];
+  payments: SupplierPayment[];
+  binStockData: BinStockData;
+  onClose: () => void;
+}
+
+const DATASETS: { key: Dataset; label: string; description: string }[] = [
+  { key: 'stock', label: 'Stock Items', description: 'Current counts with used, remaining and stock value.' },
+  { key: 'activity', label: 'Activity Log', description: 'Every logged change within the date range below.' },
+  { key: 'suppliers', label: 'Suppliers', description: 'Supplier balances, credit transactions and payments.' },
+  { key: 'bins', label: 'Bin Balances', description: 'Bin balance per party and bin type (negative = we owe).' },
+];
+
+const ExportModal: React.FC<ExportModalProps> = ({ teamName, stockData, fetchActivity, suppliers, transactions, payments, binStockData, onClose }) => {
+  const today = localDateKey();
+  const monthStart = today.slice(0, 8) + '01';
+
+  const [selected, setSelected] = useState<Record<Dataset, boolean>>({ stock: true, activity: true, suppliers: true, bins: true });
+  const [startDate, setStartDate] = useState(monthStart);
+  const [endDate, setEndDate] = useState(today);
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const hasSelection = Object.values(selected).some(Boolean);
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selected.activity && startDate > endDate) {
+      setError('The start date must be on or before the end date.');
+      return;
+    }
+    setError(null);
+    setIsExporting(true);
+
+    const sheets: ExportSheet[] = [];
+    if (selected.stock) sheets.push(buildStockSheet(stockData));
+    if (selected.activity) {
+      const log = await fetchActivity(new Date(startDate + 'T00:00:00'), new Date(endDate + 'T23:59:59.999'));
+      if (!log) {
+        setError('The activity log could not be loaded. Please try again.');
+        setIsExporting(false);
+        return;
+      }
+      sheets.push(buildActivitySheet(log));
+    }
+    if (selected.suppliers) sheets.push(...buildSupplierSheets(suppliers, transactions, payments));
+    if (selected.bins) sheets.push(buildBinBalanceSheet(binStockData));
+
+    try {
+      await downloadSheets(sheets, format, teamName);
+      onClose();
+    } catch (err) {
+      console.error("Export failed:", err);
+      setError('The export could not be created. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-bg-secondary rounded-lg shadow-2xl w-full max-w-lg border border-border-primary animate-fade-in" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-4 border-b border-border-primary">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2"><Download size={20} className="text-accent-secondary"/> Export Data</h3>
+          <button onClick={onClose} className="text-text-secondary hover:text-white"><X size={20}/></button>
+        </div>
+        <form onSubmit={handleExport} className="p-6 space-y-4">
+          <div className="space-y-2">
+            {DATASETS.map(dataset => (
+              <label key={dataset.key} className="flex items-start gap-3 p-3 bg-bg-primary rounded-md cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected[dataset.key]}
+                  onChange={e => setSelected(prev => ({ ...prev, [dataset.key]: e.target.checked }))}
+                  className="mt-1 accent-purple-600"
+                />
+                <div>
+                  <p className="font-semibold text-white">{dataset.label}</p>
+                  <p className="text-xs text-text-secondary">{dataset.description}</p>
+                </div>
+              </label>
+            ))}
+          </div>
+          {selected.activity && (
+            <div className="grid grid-cols-2 gap-4 animate-fade-in">
+              <div>
+                <label className="text-sm font-medium text-text-secondary block mb-1">Log From</label>
+                <input type="date" value={startDate} max={endDate} onChange={e => setStartDate(e.target.value)} required className="w-full bg-bg-primary border border-border-primary rounded-md p-2 text-white" />
+              </div>
+              <div>
+                <label className="text-sm font-medium text-text-secondary block mb-1">Log To</label>
+                <input type="date" value={endDate} min={startDate} onChange={e => setEndDate(e.target.value)} required className="w-full bg-bg-primary border border-border-primary rounded-md p-2 text-white" />
+              </div>
+            </div>
+          )}
+          <div>
+            <label className="text-sm font-medium text-text-secondary block mb-1">Format</label>
+            <div className="flex items-center gap-2 rounded-md bg-bg-primary p-1 border border-border-primary">
+              <button type="button" onClick={() => setFormat('xlsx')} className={`flex-1 text-center p-1.5 rounded-md text-sm font-semibold flex items-center justify-center gap-2 ${format === 'xlsx' ? 'bg-accent-primary text-white' : 'text-text-secondary hover:bg-bg-secondary'}`}><FileSpreadsheet size={16}/> Excel (.xlsx)</button>
+              <button type="button" onClick={() => setFormat('csv')} className={`flex-1 text-center p-1.5 rounded-md text-sm font-semibold flex items-center justify-center gap-2 ${format === 'csv' ? 'bg-accent-primary text-white' : 'text-text-secondary hover:bg-bg-secondary'}`}><FileText size={16}/> CSV</button>
+            </div>
+            {format === 'csv' && <p className="text-xs text-text-secondary mt-1">CSV downloads one file per table.</p>}
+          </div>
+          {error && <div className="bg-danger/20 border border-danger text-danger text-sm p-3 rounded-md">{error}</div>}
+          <div className="flex justify-end pt-2">
+            <button type="submit" disabled={isExporting || !hasSelection} className="px-4 py-2 rounded-md bg-success hover:bg-green-700 text-white font-semibold disabled:bg-border-primary disabled:cursor-not-allowed flex items-center justify-center gap-2">
+              {isExporting ? <Loader size={20} className="animate-spin"/> : <><Download size={16}/> Export</>}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ExportModal;
@@ -1,28 +1,53 @@
 import React, { useState } from 'react';
-import { LayoutDashboard, Calendar, Plus, Zap, Sunrise, History, BarChart, Truck, Upload, User, Settings, LogOut, Archive, Menu, X } from 'lucide-react';
+import { LayoutDashboard, Calendar, Plus, Zap, Sunrise, History, BarChart, Truck, Upload, User, Settings, LogOut, Archive, Menu, X, FileUp, ChevronDown, Check, PlusCircle, ClipboardList, ClipboardCheck } from 'lucide-react';
 import { supabase } from '../supabaseClient';
 import { User as SupabaseUser } from '@supabase/supabase-js';
 import Logo from './Logo';
+import { Permission, TeamRole } from '../permissions';
+import { TeamMembership } from '../types';
 
 
 type View = 'dashboard' | 'binStock' | 'history' | 'settings';
 
 interface HeaderProps {
   teamName: string;
+  teams: TeamMembership[];
+  activeTeamId: string;
+  onSwitchTeam: (teamId: string) => void;
+  onCreateTeamClick: () => void;
   onNewDayClick: () => void;
   onCommandInputClick: () => void;
   onAddItemClick: () => void;
   onSuppliersClick: () => void;
+  onPurchaseOrdersClick: () => void;
+  onStockCountClick: () => void;
   onExportClick: () => void;
+  onImportClick: () => void;
+  can: (permission: Permission) => boolean;
+  role: TeamRole | null;
   onNavigate: (view: View) => void;
   currentView: View;
   selectedDate: string;
+  todayKey: string; // The team's current business day, the latest date that can be picked
   onDateChange: (date: string) => void;
   user: SupabaseUser | null;
 }
 
-const Header: React.FC<HeaderProps> = ({ teamName, onNewDayClick, onCommandInputClick, onAddItemClick, onSuppliersClick, onExportClick, onNavigate, currentView, selectedDate, onDateChange, user }) => {
+const Header: React.FC<HeaderProps> = ({ teamName, teams, activeTeamId, onSwitchTeam, onCreateTeamClick, onNewDayClick, onCommandInputClick, onAddItemClick, onSuppliersClick, onPurchaseOrdersClick, onStockCountClick, onExportClick, onImportClick, can, role, onNavigate, currentView, selectedDate, todayKey, onDateChange, user }) => {
   const [isDrawerOpen, setIsDrawerOpen] = useState(false);
+  const [isTeamMenuOpen, setIsTeamMenuOpen] = useState(false);
+
+  const handleTeamSelect = (teamId: string) => {
+    setIsTeamMenuOpen(false);
+    setIsDrawerOpen(false);
+    onSwitchTeam(teamId);
+  };
+
+  const handleCreateTeam = () => {
+    setIsTeamMenuOpen(false);
+    setIsDrawerOpen(false);
+    onCreateTeamClick();
+  };
 
   const handleNavClick = (view: View) => {
     onNavigate(view);
@@ -57,9 +82,42 @@ const Header: React.FC<HeaderProps> = ({ teamName, onNewDayClick, onCommandInput
               <h1 className="text-xl font-bold text-white transition-colors group-hover:text-accent-primary">
                 Intellectory
               </h1>
-              <p className="text-sm text-text-secondary">{teamName}</p>
             </div>
           </div>
+          <div className="relative ml-3 mr-auto md:mr-0">
+            <button
+              onClick={() => setIsTeamMenuOpen(open => !open)}
+              className="flex items-center gap-1 text-sm text-text-secondary hover:text-white max-w-44"
+              title="Switch Team"
+            >
+              <span className="truncate">{teamName}</span>
+              <ChevronDown size={14} className="flex-shrink-0" />
+            </button>
+            {isTeamMenuOpen && (
+              <>
+                <div className="fixed inset-0 z-40" onClick={() => setIsTeamMenuOpen(false)}></div>
+                <div className="absolute left-0 top-full mt-2 w-64 bg-bg-secondary border border-border-primary rounded-lg shadow-2xl z-50 py-1 animate-fade-in">
+                  {teams.map(t => (
+                    <button
+                      key={t.id}
+                      onClick={() => handleTeamSelect(t.id)}
+                      className="w-full flex items-center justify-between gap-2 px-3 py-2 text-sm text-left hover:bg-bg-primary"
+                    >
+                      <div className="min-w-0">
+                        <p className={`truncate ${t.id === activeTeamId ? 'text-white font-semibold' : 'text-text-primary'}`}>{t.name}</p>
+                        <p className="text-xs text-text-secondary">{t.role}</p>
+                      </div>
+                      {t.id === activeTeamId && <Check size={16} className="text-accent-primary flex-shrink-0" />}
+                    </button>
+                  ))}
+                  <div className="border-t border-border-primary my-1"></div>
+                  <button onClick={handleCreateTeam} className="w-full flex items-center gap-2 px-3 py-2 text-sm text-accent-secondary hover:bg-bg-primary">
+                    <PlusCircle size={16} /> Create another team
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
           <div className="md:hidden">
               <button onClick={() => setIsDrawerOpen(true)} className="p-2 text-text-secondary hover:text-white">
                   <Menu size={24} />
@@ -74,19 +132,24 @@ const Header: React.FC<HeaderProps> = ({ teamName, onNewDayClick, onCommandInput
             <input 
               type="date" 
               value={selectedDate}
+              max={todayKey}
               onChange={(e) => onDateChange(e.target.value)}
               className="bg-bg-secondary border border-border-primary rounded-md pl-9 pr-2 py-1.5 text-white w-full md:w-auto text-sm"
             />
           </div>
-          <button onClick={onAddItemClick} className="flex items-center gap-2 bg-success hover:bg-green-700 text-white font-semibold px-3 py-1.5 rounded-md transition-colors text-sm">
-            <Plus size={16} /> Add Item
-          </button>
+          {can('stock.manage') && (
+            <button onClick={onAddItemClick} className="flex items-center gap-2 bg-success hover:bg-green-700 text-white font-semibold px-3 py-1.5 rounded-md transition-colors text-sm">
+              <Plus size={16} /> Add Item
+            </button>
+          )}
           <button onClick={onCommandInputClick} className="flex items-center gap-2 bg-accent-secondary hover:bg-cyan-700 text-white font-semibold px-3 py-1.5 rounded-md transition-colors text-sm">
             <Zap size={16} /> Quick Input
           </button>
-          <button onClick={onNewDayClick} className="flex items-center gap-2 bg-accent-primary hover:bg-purple-700 text-white font-semibold px-3 py-1.5 rounded-md transition-colors text-sm">
-            <Sunrise size={16} /> New Day
-          </button>
+          {can('stock.manage') && (
+            <button onClick={onNewDayClick} className="flex items-center gap-2 bg-accent-primary hover:bg-purple-700 text-white font-semibold px-3 py-1.5 rounded-md transition-colors text-sm">
+              <Sunrise size={16} /> New Day
+            </button>
+          )}
         </div>
         
         {/* Right Side (Desktop) */}
@@ -102,13 +165,16 @@ const Header: React.FC<HeaderProps> = ({ teamName, onNewDayClick, onCommandInput
                 <History size={18}/>
               </button>
               <button onClick={onSuppliersClick} className="hover:text-white p-1" title="Suppliers"><Truck size={18}/></button>
+              <button onClick={onPurchaseOrdersClick} className="hover:text-white p-1" title="Purchase Orders"><ClipboardList size={18}/></button>
+              {can('stock.count') && <button onClick={onStockCountClick} className="hover:text-white p-1" title="Stock Count"><ClipboardCheck size={18}/></button>}
+              {can('stock.manage') && <button onClick={onImportClick} className="hover:text-white p-1" title="Import Stock"><FileUp size={18}/></button>}
               <button onClick={onExportClick} className="hover:text-white p-1" title="Export"><Upload size={18}/></button>
           </div>
            <div className="w-px h-6 bg-border-primary mx-1"></div>
            <div className="flex items-center gap-2">
                <div className="text-right">
                    <p className="font-semibold text-white text-sm truncate max-w-28">{user?.email}</p>
-                   <p className="text-xs text-text-secondary">User</p>
+                   <p className="text-xs text-text-secondary">{role || 'User'}</p>
                </div>
                <User className="h-7 w-7 text-text-secondary"/>
            </div>
@@ -145,6 +211,19 @@ const Header: React.FC<HeaderProps> = ({ teamName, onNewDayClick, onCommandInput
                 <button onClick={() => { onSuppliersClick(); setIsDrawerOpen(false); }} className="w-full flex items-center gap-4 px-4 py-3 text-base rounded-lg text-text-primary hover:bg-bg-secondary">
                   <Truck size={20} /> Suppliers
                 </button>
+                <button onClick={() => { onPurchaseOrdersClick(); setIsDrawerOpen(false); }} className="w-full flex items-center gap-4 px-4 py-3 text-base rounded-lg text-text-primary hover:bg-bg-secondary">
+                  <ClipboardList size={20} /> Purchase Orders
+                </button>
+                {can('stock.count') && (
+                  <button onClick={() => { onStockCountClick(); setIsDrawerOpen(false); }} className="w-full flex items-center gap-4 px-4 py-3 text-base rounded-lg text-text-primary hover:bg-bg-secondary">
+                    <ClipboardCheck size={20} /> Stock Count
+                  </button>
+                )}
+                {can('stock.manage') && (
+                  <button onClick={() => { onImportClick(); setIsDrawerOpen(false); }} className="w-full flex items-center gap-4 px-4 py-3 text-base rounded-lg text-text-primary hover:bg-bg-secondary">
+                    <FileUp size={20} /> Import Stock
+                  </button>
+                )}
                 <button onClick={() => { onExportClick(); setIsDrawerOpen(false); }} className="w-full flex items-center gap-4 px-4 py-3 text-base rounded-lg text-text-primary hover:bg-bg-secondary">
                   <Upload size={20} /> Export Data
                 </button>
@@ -152,7 +231,7 @@ const Header: React.FC<HeaderProps> = ({ teamName, onNewDayClick, onCommandInput
                     <User className="h-8 w-8 text-text-secondary"/>
                     <div className="text-left">
                         <p className="font-semibold text-white text-sm truncate max-w-36">{user?.email}</p>
-                        <p className="text-xs text-text-secondary">User</p>
+                        <p className="text-xs text-text-secondary">{role || 'User'}</p>
                     </div>
                 </div>
                  <button onClick={handleLogout} className="w-full flex items-center gap-4 px-4 py-3 text-base rounded-lg text-text-primary hover:bg-bg-secondary">
@@ -2,16 +2,25 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
 import { ActivityLogEntry } from '../types';
-import { Calendar, FilterX } from 'lucide-react';
+import { Calendar, FilterX, Undo2, Loader } from 'lucide-react';
 
 interface HistoryPageProps {
   history: ActivityLogEntry[];
   selectedDate?: string;
+  canUndo: (entry: ActivityLogEntry) => boolean;
+  onUndo: (entryId: string) => Promise<void>;
 }
 
-const HistoryPage: React.FC<HistoryPageProps> = ({ history, selectedDate }) => {
+const HistoryPage: React.FC<HistoryPageProps> = ({ history, selectedDate, canUndo, onUndo }) => {
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
+  const [undoingId, setUndoingId] = useState<string | null>(null);
+
+  // Each undo names the entry it reversed; look both ways so either row can show the link.
+  const { byId, reversalOf } = useMemo(() => ({
+    byId: new Map(history.map(entry => [entry.id, entry])),
+    reversalOf: new Map(history.filter(entry => entry.reversal_of).map(entry => [entry.reversal_of!, entry])),
+  }), [history]);
 
   useEffect(() => {
     if (selectedDate) {
@@ -40,6 +49,20 @@ const HistoryPage: React.FC<HistoryPageProps> = ({ history, selectedDate }) => {
     setEndDate('');
   };
 
+  const handleUndo = async (entryId: string) => {
+    setUndoingId(entryId);
+    await onUndo(entryId);
+    setUndoingId(null);
+  };
+
+  const describeLink = (entry: ActivityLogEntry): string | null => {
+    const original = entry.reversal_of ? byId.get(entry.reversal_of) : undefined;
+    if (original) return `Undoes the change made ${new Date(original.timestamp).toLocaleString()}`;
+    const reversal = reversalOf.get(entry.id);
+    if (reversal) return `Undone by ${reversal.users?.full_name || 'a teammate'} at ${new Date(reversal.timestamp).toLocaleString()}`;
+    return null;
+  };
+
   return (
     <div className="bg-bg-secondary rounded-lg p-4 space-y-3">
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-3">
@@ -79,19 +102,34 @@ const HistoryPage: React.FC<HistoryPageProps> = ({ history, selectedDate }) => {
               <th className="p-2">User</th>
               <th className="p-2">Item Name</th>
               <th className="p-2">Change / Action</th>
+              <th className="p-2"></th>
             </tr>
           </thead>
           <tbody>
-            {filteredHistory.length > 0 ? filteredHistory.map(entry => (
-              <tr key={entry.id} className="border-b border-border-primary hover:bg-bg-primary">
-                <td className="p-2 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
-                <td className="p-2">{entry.users?.full_name || 'System Action'}</td>
-                <td className="p-2">{entry.item_name}</td>
-                <td className="p-2">{entry.change_description}</td>
-              </tr>
-            )) : (
+            {filteredHistory.length > 0 ? filteredHistory.map(entry => {
+              const link = describeLink(entry);
+              return (
+                <tr key={entry.id} className={`border-b border-border-primary hover:bg-bg-primary ${reversalOf.has(entry.id) ? 'text-text-secondary' : ''}`}>
+                  <td className="p-2 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+                  <td className="p-2">{entry.users?.full_name || 'System Action'}</td>
+                  <td className="p-2">{entry.item_name}</td>
+                  <td className="p-2">
+                    {entry.change_description}
+                    {entry.event?.reasoning && <p className="text-xs text-text-secondary italic mt-0.5">Assistant: "{entry.event.reasoning}"</p>}
+                    {link && <p className="text-xs text-text-secondary mt-0.5">{link}</p>}
+                  </td>
+                  <td className="p-2 text-right">
+                    {canUndo(entry) && (
+                      <button onClick={() => handleUndo(entry.id)} disabled={undoingId !== null} className="flex items-center gap-1 text-xs px-2 py-1 rounded-md bg-border-primary hover:bg-gray-700 text-white font-semibold disabled:opacity-50 ml-auto" title="Undo this change">
+                        {undoingId === entry.id ? <Loader size={14} className="animate-spin"/> : <Undo2 size={14}/>} Undo
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            }) : (
               <tr>
-                <td colSpan={4} className="text-center p-8 text-text-secondary">
+                <td colSpan={5} className="text-center p-8 text-text-secondary">
                     <p className="font-semibold">No History Found</p>
                     <p>Try adjusting or clearing your date filters.</p>
                 </td>
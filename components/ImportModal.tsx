@@ -0,0 +1,166 @@
+import React, { useState, useMemo } from 'react';
+import { StockItem } from '../types';
+import { parseStockImport, buildImportPlan, StockImportRow, StockImportPlanEntry, IMPORT_TEMPLATE, ImportFieldKey } from '../importData';
+import { X, Upload, Loader, FileDown, AlertTriangle, ChevronLeft } from 'lucide-react';
+
+interface ImportModalProps {
+  stockItems: StockItem[];
+  onImport: (plan: StockImportPlanEntry[]) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const FIELD_NAMES: Record<ImportFieldKey, string> = {
+  category: 'Category',
+  opening_stock: 'Opening Stock',
+  alert_level: 'Alert Level',
+  price: 'Price',
+  color: 'Color',
+};
+
+const ACTION_STYLES: Record<StockImportPlanEntry['action'], string> = {
+  create: 'bg-success/20 text-green-400',
+  update: 'bg-accent-secondary/20 text-cyan-400',
+  unchanged: 'bg-border-primary text-text-secondary',
+  error: 'bg-danger/20 text-danger',
+};
+
+const ImportModal: React.FC<ImportModalProps> = ({ stockItems, onImport, onClose }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<StockImportRow[]>([]);
+  const [parseErrors, setParseErrors] = useState<{ line: number; message: string }[]>([]);
+  const [forceNew, setForceNew] = useState<Set<number>>(new Set());
+  const [isImporting, setIsImporting] = useState(false);
+
+  const plan = useMemo(() => buildImportPlan(rows, stockItems, forceNew), [rows, stockItems, forceNew]);
+  const pending = plan.filter(entry => entry.action === 'create' || entry.action === 'update');
+  const errorCount = parseErrors.length + plan.filter(entry => entry.action === 'error').length;
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (loadEvent) => {
+      const { rows, errors } = parseStockImport(String(loadEvent.target?.result || ''));
+      setFileName(file.name);
+      setRows(rows);
+      setParseErrors(errors);
+      setForceNew(new Set());
+    };
+    reader.readAsText(file);
+  };
+
+  const toggleForceNew = (line: number) => {
+    setForceNew(prev => {
+      const next = new Set(prev);
+      if (next.has(line)) next.delete(line); else next.add(line);
+      return next;
+    });
+  };
+
+  const downloadTemplate = () => {
+    const url = URL.createObjectURL(new Blob([IMPORT_TEMPLATE], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'stock-import-template.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleConfirm = async () => {
+    setIsImporting(true);
+    const ok = await onImport(pending);
+    setIsImporting(false);
+    if (ok) onClose();
+  };
+
+  const reset = () => {
+    setFileName(null);
+    setRows([]);
+    setParseErrors([]);
+    setForceNew(new Set());
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-bg-secondary rounded-lg shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col border border-border-primary animate-fade-in" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-4 border-b border-border-primary flex-shrink-0">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2"><Upload size={20} className="text-accent-secondary"/> Import Stock Items</h3>
+          <button onClick={onClose} className="text-text-secondary hover:text-white"><X size={20}/></button>
+        </div>
+
+        {!fileName ? (
+          <div className="p-6 space-y-4">
+            <p className="text-text-secondary text-sm">
+              Upload a CSV with the columns <code className="text-white">name, category, opening_stock, alert_level, price, color</code>. Only <code className="text-white">name</code> is required; blank cells leave existing values untouched.
+              Names are matched against your current items, including close misspellings, and you can review every change before anything is saved.
+            </p>
+            <label className="flex flex-col items-center justify-center gap-2 p-8 border-2 border-dashed border-border-primary rounded-lg cursor-pointer hover:border-accent-primary transition-colors">
+              <Upload size={32} className="text-text-secondary"/>
+              <span className="font-semibold text-white">Choose a CSV file</span>
+              <input type="file" accept=".csv,text/csv" onChange={handleFileChange} className="hidden" />
+            </label>
+            <button type="button" onClick={downloadTemplate} className="flex items-center gap-2 text-sm text-accent-secondary hover:text-cyan-300"><FileDown size={16}/> Download template</button>
+          </div>
+        ) : (
+          <>
+            <div className="p-4 flex flex-wrap items-center gap-3 text-sm border-b border-border-primary flex-shrink-0">
+              <button onClick={reset} className="flex items-center gap-1 text-text-secondary hover:text-white"><ChevronLeft size={16}/> {fileName}</button>
+              <span className="text-green-400">{plan.filter(e => e.action === 'create').length} new</span>
+              <span className="text-cyan-400">{plan.filter(e => e.action === 'update').length} updated</span>
+              <span className="text-text-secondary">{plan.filter(e => e.action === 'unchanged').length} unchanged</span>
+              {errorCount > 0 && <span className="text-danger">{errorCount} skipped</span>}
+            </div>
+            <div className="p-4 overflow-y-auto flex-grow space-y-3">
+              {parseErrors.length > 0 && (
+                <div className="bg-danger/10 border border-danger/30 rounded-md p-3 text-sm space-y-1">
+                  {parseErrors.map(err => <p key={err.line} className="text-red-400"><AlertTriangle size={14} className="inline mr-1"/>Line {err.line}: {err.message}</p>)}
+                </div>
+              )}
+              <table className="w-full text-left text-sm text-text-primary">
+                <thead className="bg-bg-primary"><tr><th className="p-2">Line</th><th className="p-2">CSV Name</th><th className="p-2">Action</th><th className="p-2">Matched Item</th><th className="p-2">Changes</th></tr></thead>
+                <tbody>
+                  {plan.map(entry => (
+                    <tr key={entry.line} className="border-b border-border-primary align-top">
+                      <td className="p-2 text-text-secondary">{entry.line}</td>
+                      <td className="p-2 text-white">{entry.name}</td>
+                      <td className="p-2"><span className={`text-xs px-2 py-0.5 rounded-full font-semibold ${ACTION_STYLES[entry.action]}`}>{entry.action}</span></td>
+                      <td className="p-2">
+                        {entry.match ? (
+                          <div>
+                            <span className={entry.fuzzy ? 'text-warning' : ''}>{entry.match.name}</span>
+                            {entry.fuzzy && <button onClick={() => toggleForceNew(entry.line)} className="block text-xs text-accent-secondary hover:text-cyan-300">Not this item — create new</button>}
+                          </div>
+                        ) : forceNew.has(entry.line) ? (
+                          <button onClick={() => toggleForceNew(entry.line)} className="text-xs text-accent-secondary hover:text-cyan-300">Undo: use suggested match</button>
+                        ) : <span className="text-text-secondary">—</span>}
+                      </td>
+                      <td className="p-2 text-xs">
+                        {entry.error && <span className="text-danger">{entry.error}</span>}
+                        {entry.changes.map(change => (
+                          <div key={change.field}>
+                            <span className="text-text-secondary">{FIELD_NAMES[change.field]}:</span>{' '}
+                            {change.from !== null && <><span className="line-through text-text-secondary">{String(change.from) || '(blank)'}</span> → </>}
+                            <span className="text-white">{String(change.to)}</span>
+                          </div>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                  {plan.length === 0 && <tr><td colSpan={5} className="text-center p-8 text-text-secondary">No importable rows found.</td></tr>}
+                </tbody>
+              </table>
+            </div>
+            <div className="bg-bg-primary px-6 py-4 flex justify-end gap-3 rounded-b-lg flex-shrink-0">
+              <button onClick={onClose} className="px-4 py-2 rounded-md bg-border-primary hover:bg-gray-700 text-white font-semibold">Cancel</button>
+              <button onClick={handleConfirm} disabled={isImporting || pending.length === 0} className="px-4 py-2 rounded-md bg-success hover:bg-green-700 text-white font-semibold disabled:bg-border-primary disabled:cursor-not-allowed flex items-center justify-center">
+                {isImporting ? <Loader size={20} className="animate-spin"/> : `Import ${pending.length} ${pending.length === 1 ? 'Change' : 'Changes'}`}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImportModal;
@@ -1,17 +1,39 @@
-import React, { useState, useMemo, useEffect } from 'react';
-import { StockItem, EditableStockItemKey } from '../types';
-import { Edit2, Trash2, Search, Send, Loader, Table, List, FileText, History as HistoryIcon } from 'lucide-react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { StockItem, StockLocation, EditableStockItemKey } from '../types';
+import { Permission, permissionForField } from '../permissions';
+import { SyncState } from '../offlineQueue';
+import { parseQuantity, describeUnits } from '../units';
+import SyncBadge from './SyncBadge';
+import VoiceCommand from './VoiceCommand';
+import { Edit2, Archive, Search, Send, Loader, Table, List, FileText, MapPin, ArrowRightLeft, History as HistoryIcon } from 'lucide-react';
 
 type InventoryViewMode = 'table' | 'card';
 type View = 'dashboard' | 'binStock' | 'history' | 'settings';
 
+type InventoryRow = StockItem & { used: number; remaining: number; stockValue: number; transferred?: number };
+
+// One location's view of the inventory; counts and values are for that location only.
+interface LocationGroup {
+  location: StockLocation;
+  data: InventoryRow[];
+}
+
 interface InventoryTableProps {
-  data: (StockItem & { used: number; remaining: number; stockValue: number })[];
+  data: InventoryRow[];
   onUpdate: (itemId: string, field: EditableStockItemKey, value: number) => void;
+  locationGroups?: LocationGroup[]; // Omitted for past days, which are only kept as team totals
+  onLocationUpdate?: (itemId: string, field: EditableStockItemKey, value: number, locationId: string) => void;
+  onTransferClick?: () => void;
+  onManageLocations?: () => void;
+  readOnly?: boolean; // Past-day snapshots are shown without edit controls
+  can: (permission: Permission) => boolean;
+  recentlyChangedIds?: Set<string>; // Items a teammate just changed, shown with a brief highlight
+  syncStates?: Record<string, SyncState>; // Items with offline edits queued or just synced, keyed by id
   onCommand: (command: string) => void;
+  onTranscribeAudio?: (audio: Blob) => Promise<string | null>; // Voice commands where the browser can't recognise speech
   isLoading: boolean;
   onEditClick: (itemId: string) => void;
-  onDeleteClick: (itemId: string) => void;
+  onArchiveClick: (itemId: string) => void;
   viewMode: InventoryViewMode;
   setViewMode: (mode: InventoryViewMode) => void;
   onOpenReport: () => void;
@@ -19,11 +41,12 @@ interface InventoryTableProps {
   currentView: View;
 }
 
-const metrics: { key: keyof (StockItem & { used: number; remaining: number; stockValue: number }); label: string; editable: boolean; calculated?: boolean, highlight?: string }[] = [
+const metrics: { key: EditableStockItemKey | 'transferred' | 'used' | 'remaining' | 'stockValue'; label: string; editable: boolean; calculated?: boolean, highlight?: string }[] = [
   { key: 'opening_stock', label: 'OPENING STOCK', editable: false },
   { key: 'added_today', label: 'Added Today', editable: true },
   { key: 'packed', label: 'Packed', editable: true },
   { key: 'lost', label: 'Lost', editable: true },
+  { key: 'transferred', label: 'Transfers', editable: false, calculated: true, highlight: 'text-accent-secondary' },
   { key: 'used', label: 'USED', editable: false, calculated: true, highlight: 'text-orange-400' },
   { key: 'remaining', label: 'REMAINING', editable: false, calculated: true, highlight: 'text-yellow-400 font-bold' },
   { key: 'alert_level', label: 'Alert Level', editable: true },
@@ -31,15 +54,21 @@ const metrics: { key: keyof (StockItem & { used: number; remaining: number; stoc
   { key: 'stockValue', label: 'STOCK VALUE (R)', editable: false, calculated: true, highlight: 'text-green-400 font-bold' },
 ];
 
+// Net transfers only mean something at a single location
+const metricsFor = (data: InventoryRow[]) =>
+  data.some(item => item.transferred !== undefined) ? metrics : metrics.filter(metric => metric.key !== 'transferred');
+
 const EditableCell: React.FC<{item: any, mKey: EditableStockItemKey, onUpdate: any, className?: string}> = ({item, mKey, onUpdate, className=""}) => {
     const [inputValue, setInputValue] = useState(String(item[mKey] ?? ''));
     const [isValid, setIsValid] = useState(true);
+    const isFocusedRef = useRef(false);
 
     const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         setInputValue(e.target.value);
     };
 
     const handleBlur = () => {
+        isFocusedRef.current = false;
         const rawValue = inputValue.trim();
         const originalValue = item[mKey];
 
@@ -50,7 +79,9 @@ const EditableCell: React.FC<{item: any, mKey: EditableStockItemKey, onUpdate: a
             return;
         }
 
-        const numValue = parseFloat(rawValue);
+        // Counts can be typed in any of the item's units ("2 pallets + 40"); prices are plain numbers
+        const parsed = mKey === 'price' ? { value: Number(rawValue) } : parseQuantity(rawValue, item);
+        const numValue = 'value' in parsed ? parsed.value : NaN;
         
         if (isNaN(numValue) || numValue < 0) {
             setIsValid(false);
@@ -76,8 +107,9 @@ const EditableCell: React.FC<{item: any, mKey: EditableStockItemKey, onUpdate: a
         }
     };
 
+    // Don't clobber what the user is typing when a teammate's change arrives for this item
     useEffect(() => {
-        setInputValue(String(item[mKey] ?? ''));
+        if (!isFocusedRef.current) setInputValue(String(item[mKey] ?? ''));
     }, [item, mKey]);
 
     return (
@@ -87,7 +119,8 @@ const EditableCell: React.FC<{item: any, mKey: EditableStockItemKey, onUpdate: a
             onChange={handleChange}
             onBlur={handleBlur}
             onKeyDown={handleKeyDown}
-            onFocus={(e) => e.target.select()}
+            onFocus={(e) => { isFocusedRef.current = true; e.target.select(); }}
+            title={mKey !== 'price' && item.units?.length ? describeUnits(item) : undefined}
             className={`bg-transparent w-full h-full text-white outline-none rounded-sm transition-shadow ${className}
                         ${!isValid ? 'ring-2 ring-danger' : 'focus:ring-2 focus:ring-accent-primary'}`}
         />
@@ -98,8 +131,10 @@ const CommandBar: React.FC<{
     searchTerm: string;
     setSearchTerm: (value: string) => void;
     onSubmit: (e: React.FormEvent) => void;
+    onVoiceCommand: (command: string) => void;
+    onTranscribeAudio?: (audio: Blob) => Promise<string | null>;
     isLoading: boolean; 
-}> = ({ searchTerm, setSearchTerm, onSubmit, isLoading }) => {
+}> = ({ searchTerm, setSearchTerm, onSubmit, onVoiceCommand, onTranscribeAudio, isLoading }) => {
     return (
         <form onSubmit={onSubmit} className="relative">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-text-secondary" />
@@ -108,9 +143,10 @@ const CommandBar: React.FC<{
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 placeholder="Search name, or use cat:Groenkloof price:>5..."
-                className="w-full bg-bg-secondary border border-border-primary rounded-md pl-10 pr-14 py-2 text-white placeholder-text-secondary focus:ring-2 focus:ring-accent-primary outline-none"
+                className="w-full bg-bg-secondary border border-border-primary rounded-md pl-10 pr-32 py-2 text-white placeholder-text-secondary focus:ring-2 focus:ring-accent-primary outline-none"
                 disabled={isLoading}
             />
+            <VoiceCommand onCommand={onVoiceCommand} onTranscribeAudio={onTranscribeAudio} disabled={isLoading} className="absolute right-10 top-1/2 -translate-y-1/2" />
             <button type="submit" title="Ask a Question" className="absolute right-1.5 top-1/2 -translate-y-1/2 flex items-center justify-center bg-accent-primary hover:bg-purple-700 text-white font-semibold p-1.5 rounded-md transition-colors disabled:bg-border-primary disabled:cursor-not-allowed" disabled={isLoading || !searchTerm.trim()}>
                 {isLoading ? <Loader size={18} className="animate-spin" /> : <Send size={18} />}
             </button>
@@ -126,8 +162,9 @@ const NoResults: React.FC = () => (
     </div>
 );
 
-const TableView: React.FC<Omit<InventoryTableProps, 'viewMode' | 'setViewMode' | 'onCommand' | 'isLoading' | 'onOpenReport' | 'onNavigate' | 'currentView'>> = ({ data, onUpdate, onEditClick, onDeleteClick }) => {
+const TableView: React.FC<Omit<InventoryTableProps, 'viewMode' | 'setViewMode' | 'onCommand' | 'onTranscribeAudio' | 'isLoading' | 'onOpenReport' | 'onNavigate' | 'currentView'>> = ({ data, onUpdate, onEditClick, onArchiveClick, readOnly, can, recentlyChangedIds, syncStates }) => {
     if (data.length === 0) return <NoResults />;
+    const metrics = metricsFor(data);
     return (
     <div className="bg-bg-secondary rounded-lg overflow-hidden border border-border-primary">
     <div className="flex">
@@ -145,18 +182,22 @@ const TableView: React.FC<Omit<InventoryTableProps, 'viewMode' | 'setViewMode' |
         <div className="flex">
           {data.map((item, index) => (
             <div key={item.id} className={`w-32 md:w-40 flex-shrink-0 ${index < data.length - 1 ? 'border-r border-border-primary' : ''}`}>
-              <div className="h-20 bg-bg-primary flex flex-col justify-center items-center p-2 text-center relative border-b-2 border-border-primary">
+              <div className={`h-20 flex flex-col justify-center items-center p-2 text-center relative border-b-2 border-border-primary transition-colors duration-700 ${recentlyChangedIds?.has(item.id) ? 'bg-accent-secondary/10' : 'bg-bg-primary'}`}>
                 <div className="absolute top-0 left-0 w-full h-1" style={{ backgroundColor: item.color }}></div>
                 <div className="absolute top-0 left-0 h-full w-1" style={{ backgroundColor: item.color }}></div>
+                {recentlyChangedIds?.has(item.id) && <span className="absolute top-2 right-2 w-2 h-2 rounded-full bg-accent-secondary animate-pulse" title="Just updated by a teammate"></span>}
                 <div className="relative z-10 flex items-center justify-center gap-2 mb-1 flex-grow"><span className="font-bold text-white text-sm text-center leading-tight whitespace-normal break-words">{item.name}</span></div>
+                {syncStates?.[item.id] && <div className="relative z-10 mb-1"><SyncBadge state={syncStates[item.id]}/></div>}
+                {!readOnly && can('stock.manage') && (
                 <div className="relative z-10 flex items-center gap-2 mt-auto text-text-secondary">
                   <button onClick={() => onEditClick(item.id)} className="hover:text-white" title="Edit Item"><Edit2 size={12}/></button>
-                  <button onClick={() => onDeleteClick(item.id)} className="hover:text-danger" title="Delete Item"><Trash2 size={12}/></button>
+                  <button onClick={() => onArchiveClick(item.id)} className="hover:text-danger" title="Archive Item"><Archive size={12}/></button>
                 </div>
+                )}
               </div>
               {metrics.map(metric => (
                 <div key={`${item.id}-${metric.key}`} className="h-11 flex items-center justify-center p-0 border-b border-border-primary bg-bg-secondary/50 transition-colors hover:bg-bg-primary">
-                  {metric.editable ? (
+                  {metric.editable && !readOnly && can(permissionForField(metric.key as EditableStockItemKey)) ? (
                     <EditableCell item={item} mKey={metric.key as EditableStockItemKey} onUpdate={onUpdate} className="text-center" />
                   ) : (
                     <span className={`font-medium text-sm px-2 ${metric.highlight || 'text-white'}`}>
@@ -174,10 +215,11 @@ const TableView: React.FC<Omit<InventoryTableProps, 'viewMode' | 'setViewMode' |
     );
 };
 
-const CardView: React.FC<Omit<InventoryTableProps, 'viewMode' | 'setViewMode' | 'onCommand' | 'isLoading' | 'onOpenReport' | 'onNavigate' | 'currentView'>> = ({ data, onUpdate, onEditClick, onDeleteClick }) => {
+const CardView: React.FC<Omit<InventoryTableProps, 'viewMode' | 'setViewMode' | 'onCommand' | 'onTranscribeAudio' | 'isLoading' | 'onOpenReport' | 'onNavigate' | 'currentView'>> = ({ data, onUpdate, onEditClick, onArchiveClick, readOnly, can, recentlyChangedIds, syncStates }) => {
     const [expandedCardId, setExpandedCardId] = useState<string | null>(null);
 
     if (data.length === 0) return <NoResults />;
+    const metrics = metricsFor(data);
     
     return (
         <div className="grid grid-cols-2 gap-3 md:grid-cols-1">
@@ -186,11 +228,17 @@ const CardView: React.FC<Omit<InventoryTableProps, 'viewMode' | 'setViewMode' |
                 return (
                     <div key={item.id} className="bg-bg-secondary rounded-lg border border-border-primary border-l-4" style={{ borderLeftColor: item.color }}>
                         <div className="p-3 flex justify-between items-start border-b border-border-primary">
-                            <h3 onClick={() => setExpandedCardId(isExpanded ? null : item.id)} className="font-bold text-white break-words mr-2 cursor-pointer">{item.name}</h3>
+                            <h3 onClick={() => setExpandedCardId(isExpanded ? null : item.id)} className="font-bold text-white break-words mr-2 cursor-pointer">
+                                {item.name}
+                                {recentlyChangedIds?.has(item.id) && <span className="inline-block ml-2 w-2 h-2 rounded-full bg-accent-secondary animate-pulse align-middle" title="Just updated by a teammate"></span>}
+                                {syncStates?.[item.id] && <span className="ml-2 align-middle"><SyncBadge state={syncStates[item.id]}/></span>}
+                            </h3>
+                            {!readOnly && can('stock.manage') && (
                             <div className="flex items-center gap-3 text-text-secondary flex-shrink-0">
                                 <button onClick={(e) => { e.stopPropagation(); onEditClick(item.id); }} className="hover:text-white" title="Edit Item"><Edit2 size={16}/></button>
-                                <button onClick={(e) => { e.stopPropagation(); onDeleteClick(item.id); }} className="hover:text-danger" title="Delete Item"><Trash2 size={16}/></button>
+                                <button onClick={(e) => { e.stopPropagation(); onArchiveClick(item.id); }} className="hover:text-danger" title="Archive Item"><Archive size={16}/></button>
                             </div>
+                            )}
                         </div>
                         <div onClick={() => setExpandedCardId(isExpanded ? null : item.id)} className="cursor-pointer transition-all duration-300 ease-in-out">
                             {isExpanded ? (
@@ -198,7 +246,7 @@ const CardView: React.FC<Omit<InventoryTableProps, 'viewMode' | 'setViewMode' |
                                     {metrics.map(metric => (
                                         <div key={metric.key} className={`flex items-center justify-between text-sm ${metric.calculated ? 'bg-bg-primary/50 p-2 rounded-md' : ''}`}>
                                             <span className={`text-xs font-semibold ${metric.highlight ? metric.highlight.split(' ')[0] : 'text-text-secondary'}`}>{metric.label}</span>
-                                            {metric.editable ? (
+                                            {metric.editable && !readOnly && can(permissionForField(metric.key as EditableStockItemKey)) ? (
                                                 <EditableCell item={item} mKey={metric.key as EditableStockItemKey} onUpdate={onUpdate} className="text-right w-20" />
                                             ) : (
                                                 <span className={`font-medium ${metric.highlight || 'text-white'}`}>
@@ -229,11 +277,8 @@ const CardView: React.FC<Omit<InventoryTableProps, 'viewMode' | 'setViewMode' |
 };
 
 
-const InventoryTable: React.FC<InventoryTableProps> = (props) => {
-  const { data, viewMode, setViewMode, onOpenReport, onNavigate, currentView } = props;
-  const [searchTerm, setSearchTerm] = useState('');
-
-  const filteredData = useMemo(() => {
+// Matches items by name, plus keywords like 'cat:books', 'price:>10' or 'price:50-100'.
+const filterRows = (data: InventoryRow[], searchTerm: string): InventoryRow[] => {
     const lowercasedFilter = searchTerm.toLowerCase().trim();
     if (!lowercasedFilter) {
       return data;
@@ -308,7 +353,29 @@ const InventoryTable: React.FC<InventoryTableProps> = (props) => {
 
       return fieldMatch;
     });
-  }, [data, searchTerm]);
+};
+
+const InventoryTable: React.FC<InventoryTableProps> = (props) => {
+  const { data, viewMode, setViewMode, onOpenReport, onNavigate, currentView, locationGroups, onLocationUpdate, onTransferClick, onManageLocations, readOnly, can } = props;
+  const [searchTerm, setSearchTerm] = useState('');
+  const [locationView, setLocationView] = useState<string>('all'); // 'all', 'grouped' or a location id
+
+  const groups = locationGroups || [];
+  const activeGroup = groups.find(group => group.location.id === locationView);
+  const isGrouped = locationView === 'grouped' && groups.length > 0;
+
+  const filteredData = useMemo(() => filterRows(activeGroup ? activeGroup.data : data, searchTerm), [data, activeGroup, searchTerm]);
+  const filteredGroups = useMemo(
+    () => isGrouped ? groups.map(group => ({ ...group, data: filterRows(group.data, searchTerm) })) : [],
+    [isGrouped, groups, searchTerm]
+  );
+
+  const updateAt = (locationId: string) => (itemId: string, field: EditableStockItemKey, value: number) =>
+    onLocationUpdate?.(itemId, field, value, locationId);
+
+  const renderItems = (rows: InventoryRow[], onUpdate: InventoryTableProps['onUpdate']) => viewMode === 'table'
+    ? <TableView {...props} data={rows} onUpdate={onUpdate} />
+    : <CardView {...props} data={rows} onUpdate={onUpdate} />;
 
   const handleCommandSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -316,6 +383,8 @@ const InventoryTable: React.FC<InventoryTableProps> = (props) => {
     props.onCommand(searchTerm);
     // Don't clear search term, user might want to see the command they just ran
   };
+
+  const showLocationBar = !readOnly && !!locationGroups && (groups.length > 0 || (can('stock.manage') && !!onManageLocations));
   
   return (
     <div>
@@ -325,6 +394,8 @@ const InventoryTable: React.FC<InventoryTableProps> = (props) => {
             searchTerm={searchTerm}
             setSearchTerm={setSearchTerm}
             onSubmit={handleCommandSubmit}
+            onVoiceCommand={command => { setSearchTerm(command); props.onCommand(command); }}
+            onTranscribeAudio={props.onTranscribeAudio}
             isLoading={props.isLoading}
           />
         </div>
@@ -344,11 +415,44 @@ const InventoryTable: React.FC<InventoryTableProps> = (props) => {
           </div>
         </div>
       </div>
+
+      {showLocationBar && (
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          {groups.length > 0 && (
+            <div className="flex items-center gap-2">
+              <MapPin size={16} className="text-text-secondary"/>
+              <select value={isGrouped || activeGroup ? locationView : 'all'} onChange={e => setLocationView(e.target.value)} className="bg-bg-secondary border border-border-primary rounded-md px-2 py-1.5 text-sm text-white focus:ring-2 focus:ring-accent-primary outline-none">
+                <option value="all">All Locations</option>
+                {groups.map(group => <option key={group.location.id} value={group.location.id}>{group.location.name}</option>)}
+                <option value="grouped">Group by Location</option>
+              </select>
+            </div>
+          )}
+          {groups.length > 1 && can('stock.count') && onTransferClick && (
+            <button onClick={onTransferClick} className="flex items-center gap-2 bg-border-primary hover:bg-gray-700 text-white font-semibold px-3 py-1.5 rounded-md transition-colors text-sm">
+              <ArrowRightLeft size={16}/> Transfer
+            </button>
+          )}
+          {can('stock.manage') && onManageLocations && (
+            <button onClick={onManageLocations} className="flex items-center gap-2 bg-border-primary hover:bg-gray-700 text-white font-semibold px-3 py-1.5 rounded-md transition-colors text-sm">
+              <MapPin size={16}/> {groups.length > 0 ? 'Locations' : 'Add Locations'}
+            </button>
+          )}
+        </div>
+      )}
       
-      {viewMode === 'table' && <TableView {...props} data={filteredData} />}
-      {viewMode === 'card' && <CardView {...props} data={filteredData} />}
+      {isGrouped ? (
+        <div className="space-y-4">
+          {filteredGroups.map(group => (
+            <section key={group.location.id}>
+              <h3 className="flex items-center gap-2 font-bold text-white mb-2"><MapPin size={16} className="text-accent-secondary"/> {group.location.name}</h3>
+              {renderItems(group.data, updateAt(group.location.id))}
+            </section>
+          ))}
+        </div>
+      ) : renderItems(filteredData, activeGroup ? updateAt(activeGroup.location.id) : props.onUpdate)}
     </div>
   );
 };
 
-export default InventoryTable;
\ No newline at end of file
+export default InventoryTable;
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { StockLocation } from '../types';
+import { X, Loader, MapPin, Edit3, Trash2, Check } from 'lucide-react';
+
+interface LocationsModalProps {
+  locations: StockLocation[];
+  onCreate: (name: string) => Promise<boolean>;
+  onRename: (locationId: string, name: string) => Promise<boolean>;
+  onDelete: (locationId: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-bg-primary border border-border-primary rounded-md p-2 text-white focus:ring-2 focus:ring-accent-primary outline-none';
+
+const LocationsModal: React.FC<LocationsModalProps> = ({ locations, onCreate, onRename, onDelete, onClose }) => {
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const hasDefault = locations.some(l => l.is_default);
+
+  const run = async (action: () => Promise<boolean>, onSuccess?: () => void) => {
+    setIsSaving(true);
+    const ok = await action();
+    setIsSaving(false);
+    if (ok) onSuccess?.();
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    run(() => onCreate(newName.trim()), () => setNewName(''));
+  };
+
+  const handleDelete = (location: StockLocation) => {
+    if (!window.confirm(`Delete ${location.name}? Stock recorded there will be counted at the default location instead.`)) return;
+    run(() => onDelete(location.id));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-start justify-center z-50 p-4 pt-20" onClick={onClose}>
+      <div className="bg-bg-secondary rounded-lg shadow-2xl w-full max-w-md max-h-[85vh] flex flex-col border border-border-primary animate-fade-in" onClick={e => e.stopPropagation()}>
+        <div className="p-4 flex items-center justify-between flex-shrink-0">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2"><MapPin size={20} className="text-accent-secondary"/> Locations</h3>
+          <button onClick={onClose} className="text-text-secondary hover:text-white"><X size={20}/></button>
+        </div>
+
+        <div className="p-4 border-t border-border-primary overflow-y-auto space-y-3">
+          <p className="text-sm text-text-secondary">
+            {hasDefault
+              ? 'The default location holds all stock that isn\'t recorded at another location.'
+              : 'Start with the location that holds your stock today, e.g. "Main Store". Everything currently in stock will be counted there.'}
+          </p>
+
+          <div className="space-y-2">
+            {locations.map(location => (
+              <div key={location.id} className="flex items-center gap-2 p-3 bg-bg-primary rounded-md">
+                {editingId === location.id ? (
+                  <>
+                    <input type="text" value={editingName} onChange={e => setEditingName(e.target.value)} autoFocus className={inputClass} />
+                    <button onClick={() => run(() => onRename(location.id, editingName.trim()), () => setEditingId(null))} disabled={isSaving || !editingName.trim()} className="text-green-400 hover:text-white disabled:opacity-50"><Check size={18}/></button>
+                    <button onClick={() => setEditingId(null)} className="text-text-secondary hover:text-white"><X size={18}/></button>
+                  </>
+                ) : (
+                  <>
+                    <p className="font-semibold text-white flex-1">{location.name}{location.is_default && <span className="ml-2 text-xs font-normal text-text-secondary">(default)</span>}</p>
+                    <button onClick={() => { setEditingId(location.id); setEditingName(location.name); }} className="text-text-secondary hover:text-white" title="Rename"><Edit3 size={16}/></button>
+                    {!location.is_default && <button onClick={() => handleDelete(location)} disabled={isSaving} className="text-text-secondary hover:text-danger" title="Delete"><Trash2 size={16}/></button>}
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <form onSubmit={handleCreate} className="flex gap-2">
+            <input type="text" value={newName} onChange={e => setNewName(e.target.value)} placeholder={hasDefault ? 'e.g., Packing Line 1' : 'e.g., Main Store'} className={inputClass} />
+            <button type="submit" disabled={isSaving || !newName.trim()} className="px-4 py-2 rounded-md bg-accent-primary hover:bg-purple-700 text-white font-semibold disabled:bg-border-primary disabled:cursor-not-allowed flex items-center justify-center whitespace-nowrap">
+              {isSaving ? <Loader size={20} className="animate-spin"/> : 'Add'}
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LocationsModal;
@@ -0,0 +1,326 @@
+import React, { useState, useMemo } from 'react';
+import { PurchaseOrder, PurchaseOrderStatus, StockItem, Supplier } from '../types';
+import { PurchaseOrderDraft, GoodsReceiptDraft, PURCHASE_ORDER_STATUS_LABELS, formatOrderNumber, orderTotal, remainingQuantity, hasPriceVariance, canReceive, isOverdue } from '../purchaseOrders';
+import { Permission } from '../permissions';
+import { localDateKey } from '../dates';
+import { X, Loader, ChevronLeft, ChevronRight, Plus, Trash2, Send, PackageCheck, AlertTriangle, ClipboardList } from 'lucide-react';
+
+interface PurchaseOrdersModalProps {
+  orders: PurchaseOrder[];
+  suppliers: Supplier[];
+  stockItems: StockItem[];
+  can: (permission: Permission) => boolean;
+  onCreate: (draft: PurchaseOrderDraft, markSent: boolean) => Promise<PurchaseOrder | null>;
+  onMarkSent: (orderId: string) => Promise<boolean>;
+  onDeleteDraft: (orderId: string) => Promise<boolean>;
+  onReceive: (orderId: string, receipts: GoodsReceiptDraft[]) => Promise<boolean>;
+  onClose: () => void;
+}
+
+type DraftLine = { stockItemId: string; quantity: number | ''; unitPrice: number | '' };
+type ReceiptInput = { quantity: number | ''; unitPrice: number | '' };
+
+const STATUS_STYLES: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-border-primary text-text-secondary',
+  sent: 'bg-accent-secondary/20 text-cyan-400',
+  partially_received: 'bg-warning/20 text-warning',
+  received: 'bg-success/20 text-green-400',
+};
+
+const formatRand = (value: number) => `R${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const inputClass = 'w-full bg-bg-primary border border-border-primary rounded-md p-2 text-white focus:ring-2 focus:ring-accent-primary outline-none';
+
+const PurchaseOrdersModal: React.FC<PurchaseOrdersModalProps> = ({ orders, suppliers, stockItems, can, onCreate, onMarkSent, onDeleteDraft, onReceive, onClose }) => {
+  const today = localDateKey();
+  const canManage = can('suppliers.manage');
+
+  const [view, setView] = useState<'list' | 'new' | 'detail'>('list');
+  const [filter, setFilter] = useState<'open' | 'all'>('open');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [supplierName, setSupplierName] = useState('');
+  const [expectedDate, setExpectedDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [draftLines, setDraftLines] = useState<DraftLine[]>([{ stockItemId: '', quantity: '', unitPrice: '' }]);
+
+  const [isReceiving, setIsReceiving] = useState(false);
+  const [receiptInputs, setReceiptInputs] = useState<Record<string, ReceiptInput>>({});
+
+  const supplierNames = useMemo(() => new Map(suppliers.map(s => [s.id, s.name])), [suppliers]);
+  const selected = orders.find(o => o.id === selectedId) || null;
+  const visibleOrders = orders.filter(o => filter === 'all' || o.status !== 'received');
+
+  const validDraftLines = draftLines.filter(line => line.stockItemId && Number(line.quantity) > 0 && line.unitPrice !== '' && Number(line.unitPrice) >= 0);
+  const draftTotal = validDraftLines.reduce((sum, line) => sum + Number(line.quantity) * Number(line.unitPrice), 0);
+
+  const startNewOrder = () => {
+    setSupplierName('');
+    setExpectedDate('');
+    setNotes('');
+    setDraftLines([{ stockItemId: '', quantity: '', unitPrice: '' }]);
+    setView('new');
+  };
+
+  const openOrder = (orderId: string) => {
+    setSelectedId(orderId);
+    setIsReceiving(false);
+    setView('detail');
+  };
+
+  const updateDraftLine = (index: number, changes: Partial<DraftLine>) => {
+    setDraftLines(prev => prev.map((line, i) => {
+      if (i !== index) return line;
+      const next = { ...line, ...changes };
+      // Pre-fill the current price when an item is picked; the user can still change it
+      if (changes.stockItemId && line.unitPrice === '') {
+        const item = stockItems.find(s => s.id === changes.stockItemId);
+        if (item) next.unitPrice = item.price;
+      }
+      return next;
+    }));
+  };
+
+  const handleCreate = async (markSent: boolean) => {
+    if (!supplierName.trim() || validDraftLines.length === 0) return;
+    setIsSaving(true);
+    const order = await onCreate({
+      supplierName: supplierName.trim(),
+      expectedDate,
+      notes: notes.trim(),
+      lines: validDraftLines.map(line => ({ stockItemId: line.stockItemId, quantity: Number(line.quantity), unitPrice: Number(line.unitPrice) })),
+    }, markSent);
+    setIsSaving(false);
+    if (order) openOrder(order.id);
+  };
+
+  const startReceiving = () => {
+    if (!selected) return;
+    const inputs: Record<string, ReceiptInput> = {};
+    selected.lines.forEach(line => { inputs[line.id] = { quantity: remainingQuantity(line) || '', unitPrice: line.unit_price }; });
+    setReceiptInputs(inputs);
+    setIsReceiving(true);
+  };
+
+  const receiptDrafts: GoodsReceiptDraft[] = selected
+    ? selected.lines
+        .filter(line => Number(receiptInputs[line.id]?.quantity) > 0 && receiptInputs[line.id]?.unitPrice !== '')
+        .map(line => ({ lineId: line.id, quantity: Number(receiptInputs[line.id].quantity), unitPrice: Number(receiptInputs[line.id].unitPrice) }))
+    : [];
+
+  const handleReceive = async () => {
+    if (!selected || receiptDrafts.length === 0) return;
+    setIsSaving(true);
+    const ok = await onReceive(selected.id, receiptDrafts);
+    setIsSaving(false);
+    if (ok) setIsReceiving(false);
+  };
+
+  const handleOrderAction = async (action: (orderId: string) => Promise<boolean>, backToList = false) => {
+    if (!selected) return;
+    setIsSaving(true);
+    const ok = await action(selected.id);
+    setIsSaving(false);
+    if (ok && backToList) setView('list');
+  };
+
+  const renderList = () => (
+    <div className="p-4 border-t border-border-primary overflow-y-auto space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-1 rounded-md bg-bg-primary p-1 border border-border-primary">
+          <button onClick={() => setFilter('open')} className={`px-3 py-1 rounded-md text-sm font-semibold ${filter === 'open' ? 'bg-accent-primary text-white' : 'text-text-secondary hover:bg-bg-secondary'}`}>Open</button>
+          <button onClick={() => setFilter('all')} className={`px-3 py-1 rounded-md text-sm font-semibold ${filter === 'all' ? 'bg-accent-primary text-white' : 'text-text-secondary hover:bg-bg-secondary'}`}>All</button>
+        </div>
+        {canManage && <button onClick={startNewOrder} className="flex items-center gap-2 px-3 py-1.5 rounded-md bg-accent-primary hover:bg-purple-700 text-white font-semibold text-sm"><Plus size={16}/> New Order</button>}
+      </div>
+      <div className="space-y-2">
+        {visibleOrders.map(order => (
+          <button key={order.id} onClick={() => openOrder(order.id)} className="w-full flex items-center justify-between p-3 bg-bg-primary rounded-md hover:bg-border-primary transition-colors text-left">
+            <div>
+              <p className="font-semibold text-white">{formatOrderNumber(order)} · {supplierNames.get(order.supplier_id) || 'Unknown Supplier'}</p>
+              <p className={`text-xs ${isOverdue(order, today) ? 'text-danger' : 'text-text-secondary'}`}>
+                {order.lines.length} {order.lines.length === 1 ? 'line' : 'lines'}
+                {order.expected_date && ` · expected ${new Date(order.expected_date + 'T00:00:00').toLocaleDateString()}`}
+                {isOverdue(order, today) && ' (overdue)'}
+              </p>
+            </div>
+            <div className="flex items-center gap-3">
+              <span className={`text-xs px-2 py-0.5 rounded-full font-semibold ${STATUS_STYLES[order.status]}`}>{PURCHASE_ORDER_STATUS_LABELS[order.status]}</span>
+              <p className="font-bold text-white">{formatRand(orderTotal(order))}</p>
+              <ChevronRight size={18} className="text-text-secondary"/>
+            </div>
+          </button>
+        ))}
+        {visibleOrders.length === 0 && <p className="text-text-secondary text-center py-8">{filter === 'open' ? 'No open purchase orders.' : 'No purchase orders yet.'}</p>}
+      </div>
+    </div>
+  );
+
+  const renderNewOrder = () => (
+    <div className="p-4 border-t border-border-primary overflow-y-auto space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label className="text-sm font-medium text-text-secondary block mb-1">Supplier</label>
+          <input type="text" list="po-suppliers-list" value={supplierName} onChange={e => setSupplierName(e.target.value)} placeholder="Select or type to add supplier..." className={inputClass} />
+          <datalist id="po-suppliers-list">{suppliers.map(s => <option key={s.id} value={s.name} />)}</datalist>
+        </div>
+        <div>
+          <label className="text-sm font-medium text-text-secondary block mb-1">Expected Delivery</label>
+          <input type="date" value={expectedDate} min={today} onChange={e => setExpectedDate(e.target.value)} className={inputClass} />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <div className="grid grid-cols-12 gap-2 text-xs font-semibold text-text-secondary">
+          <span className="col-span-6">Stock Item</span><span className="col-span-2">Quantity</span><span className="col-span-3">Unit Price (R)</span>
+        </div>
+        {draftLines.map((line, index) => (
+          <div key={index} className="grid grid-cols-12 gap-2 items-center">
+            <select value={line.stockItemId} onChange={e => updateDraftLine(index, { stockItemId: e.target.value })} className={`${inputClass} col-span-6`}>
+              <option value="">Choose an item…</option>
+              {stockItems.map(item => <option key={item.id} value={item.id}>{item.name}</option>)}
+            </select>
+            <input type="number" min="1" value={line.quantity} onChange={e => updateDraftLine(index, { quantity: e.target.value === '' ? '' : Number(e.target.value) })} className={`${inputClass} col-span-2`} />
+            <input type="number" min="0" step="0.0001" value={line.unitPrice} onChange={e => updateDraftLine(index, { unitPrice: e.target.value === '' ? '' : Number(e.target.value) })} className={`${inputClass} col-span-3`} />
+            <button type="button" onClick={() => setDraftLines(prev => prev.filter((_, i) => i !== index))} disabled={draftLines.length === 1} className="col-span-1 text-text-secondary hover:text-danger disabled:opacity-30 flex justify-center"><Trash2 size={16}/></button>
+          </div>
+        ))}
+        <button type="button" onClick={() => setDraftLines(prev => [...prev, { stockItemId: '', quantity: '', unitPrice: '' }])} className="flex items-center gap-1 text-sm text-accent-secondary hover:text-cyan-300"><Plus size={14}/> Add line</button>
+      </div>
+      <div>
+        <label className="text-sm font-medium text-text-secondary block mb-1">Notes</label>
+        <textarea value={notes} onChange={e => setNotes(e.target.value)} rows={2} className={inputClass} />
+      </div>
+      <div className="flex flex-wrap items-center justify-between gap-3 pt-2">
+        <p className="text-text-secondary">Total <strong className="text-white text-lg ml-1">{formatRand(draftTotal)}</strong></p>
+        <div className="flex gap-2">
+          <button onClick={() => handleCreate(false)} disabled={isSaving || !supplierName.trim() || validDraftLines.length === 0} className="px-4 py-2 rounded-md bg-border-primary hover:bg-gray-700 text-white font-semibold disabled:opacity-50 disabled:cursor-not-allowed">Save Draft</button>
+          <button onClick={() => handleCreate(true)} disabled={isSaving || !supplierName.trim() || validDraftLines.length === 0} className="px-4 py-2 rounded-md bg-accent-primary hover:bg-purple-700 text-white font-semibold disabled:bg-border-primary disabled:cursor-not-allowed flex items-center gap-2">
+            {isSaving ? <Loader size={20} className="animate-spin"/> : <><Send size={16}/> Save & Mark Sent</>}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderDetail = (order: PurchaseOrder) => {
+    const lineNames = new Map(order.lines.map(line => [line.id, line]));
+    const receipts = [...order.receipts].sort((a, b) => new Date(b.received_at).getTime() - new Date(a.received_at).getTime());
+    return (
+      <div className="p-4 border-t border-border-primary overflow-y-auto space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <p className="text-white font-semibold">{supplierNames.get(order.supplier_id) || 'Unknown Supplier'}</p>
+            <p className={`text-xs ${isOverdue(order, today) ? 'text-danger' : 'text-text-secondary'}`}>
+              Ordered {new Date(order.created_at).toLocaleDateString()}
+              {order.expected_date && ` · expected ${new Date(order.expected_date + 'T00:00:00').toLocaleDateString()}`}
+              {isOverdue(order, today) && ' (overdue)'}
+            </p>
+          </div>
+          <span className={`text-xs px-2 py-0.5 rounded-full font-semibold ${STATUS_STYLES[order.status]}`}>{PURCHASE_ORDER_STATUS_LABELS[order.status]}</span>
+        </div>
+        {order.notes && <p className="text-sm text-text-secondary bg-bg-primary rounded-md p-3 whitespace-pre-wrap">{order.notes}</p>}
+
+        <table className="w-full text-left text-sm text-text-primary">
+          <thead className="bg-bg-primary">
+            <tr>
+              <th className="p-2">Item</th><th className="p-2 text-right">Ordered</th><th className="p-2 text-right">Received</th><th className="p-2 text-right">Agreed Price</th>
+              {isReceiving ? <><th className="p-2 w-24">Receive</th><th className="p-2 w-28">Invoiced Price</th></> : <th className="p-2 text-right">Line Total</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {order.lines.map(line => {
+              const input = receiptInputs[line.id];
+              const variance = isReceiving && input && input.unitPrice !== '' && hasPriceVariance(line.unit_price, Number(input.unitPrice));
+              return (
+                <tr key={line.id} className="border-b border-border-primary">
+                  <td className="p-2 text-white">{line.stock_item_name}</td>
+                  <td className="p-2 text-right">{line.quantity.toLocaleString()}</td>
+                  <td className={`p-2 text-right ${remainingQuantity(line) === 0 ? 'text-green-400' : ''}`}>{line.received_quantity.toLocaleString()}</td>
+                  <td className="p-2 text-right">{formatRand(line.unit_price)}</td>
+                  {isReceiving ? (
+                    <>
+                      <td className="p-2">
+                        <input type="number" min="0" max={remainingQuantity(line)} disabled={remainingQuantity(line) === 0} value={input?.quantity ?? ''} onChange={e => setReceiptInputs(prev => ({ ...prev, [line.id]: { ...prev[line.id], quantity: e.target.value === '' ? '' : Number(e.target.value) } }))} className="w-full bg-bg-primary border border-border-primary rounded-md p-1 text-white disabled:opacity-40" />
+                      </td>
+                      <td className="p-2">
+                        <input type="number" min="0" step="0.0001" disabled={remainingQuantity(line) === 0} value={input?.unitPrice ?? ''} onChange={e => setReceiptInputs(prev => ({ ...prev, [line.id]: { ...prev[line.id], unitPrice: e.target.value === '' ? '' : Number(e.target.value) } }))} className={`w-full bg-bg-primary border rounded-md p-1 text-white disabled:opacity-40 ${variance ? 'border-warning' : 'border-border-primary'}`} />
+                        {variance && <p className="text-xs text-warning mt-1 flex items-center gap-1"><AlertTriangle size={12}/> {Number(input.unitPrice) > line.unit_price ? '+' : ''}{formatRand(Number(input.unitPrice) - line.unit_price)} vs agreed</p>}
+                      </td>
+                    </>
+                  ) : (
+                    <td className="p-2 text-right font-semibold text-white">{formatRand(line.quantity * line.unit_price)}</td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {!isReceiving && <p className="text-right text-text-secondary">Order total <strong className="text-white text-lg ml-1">{formatRand(orderTotal(order))}</strong></p>}
+
+        {canManage && (
+          <div className="flex flex-wrap justify-end gap-2">
+            {order.status === 'draft' && (
+              <>
+                <button onClick={() => handleOrderAction(onDeleteDraft, true)} disabled={isSaving} className="px-4 py-2 rounded-md bg-danger hover:bg-red-700 text-white font-semibold disabled:opacity-50 flex items-center gap-2"><Trash2 size={16}/> Delete Draft</button>
+                <button onClick={() => handleOrderAction(onMarkSent)} disabled={isSaving} className="px-4 py-2 rounded-md bg-accent-primary hover:bg-purple-700 text-white font-semibold disabled:opacity-50 flex items-center gap-2"><Send size={16}/> Mark as Sent</button>
+              </>
+            )}
+            {canReceive(order) && !isReceiving && (
+              <button onClick={startReceiving} className="px-4 py-2 rounded-md bg-success hover:bg-green-700 text-white font-semibold flex items-center gap-2"><PackageCheck size={16}/> Receive Goods</button>
+            )}
+            {isReceiving && (
+              <>
+                <button onClick={() => setIsReceiving(false)} className="px-4 py-2 rounded-md bg-border-primary hover:bg-gray-700 text-white font-semibold">Cancel</button>
+                <button onClick={handleReceive} disabled={isSaving || receiptDrafts.length === 0} className="px-4 py-2 rounded-md bg-success hover:bg-green-700 text-white font-semibold disabled:bg-border-primary disabled:cursor-not-allowed flex items-center justify-center gap-2">
+                  {isSaving ? <Loader size={20} className="animate-spin"/> : <><PackageCheck size={16}/> Confirm Receipt</>}
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
+        {receipts.length > 0 && (
+          <div>
+            <h4 className="font-semibold text-white mb-2">Deliveries</h4>
+            <div className="space-y-1">
+              {receipts.map(receipt => {
+                const line = lineNames.get(receipt.line_id);
+                const variance = line && hasPriceVariance(line.unit_price, receipt.unit_price);
+                return (
+                  <div key={receipt.id} className="flex flex-wrap items-center justify-between gap-2 p-2 bg-bg-primary rounded-md text-sm">
+                    <span className="text-text-secondary">{new Date(receipt.received_at).toLocaleString()}</span>
+                    <span className="text-white">{receipt.quantity.toLocaleString()} × {line?.stock_item_name || 'Unknown item'} @ {formatRand(receipt.unit_price)}</span>
+                    {variance && <span className="text-xs px-2 py-0.5 rounded-full font-semibold bg-warning/20 text-warning flex items-center gap-1"><AlertTriangle size={12}/> Agreed {formatRand(line.unit_price)}</span>}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-start justify-center z-50 p-4 pt-20" onClick={onClose}>
+      <div className="bg-bg-secondary rounded-lg shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col border border-border-primary animate-fade-in" onClick={e => e.stopPropagation()}>
+        <div className="p-4 flex items-center justify-between flex-shrink-0">
+          {view === 'list' ? (
+            <h3 className="text-lg font-bold text-white flex items-center gap-2"><ClipboardList size={20} className="text-accent-secondary"/> Purchase Orders</h3>
+          ) : (
+            <button onClick={() => setView('list')} className="text-lg font-bold text-white flex items-center gap-2 hover:text-accent-secondary">
+              <ChevronLeft size={20}/> {view === 'new' ? 'New Purchase Order' : selected ? formatOrderNumber(selected) : 'Purchase Orders'}
+            </button>
+          )}
+          <button onClick={onClose} className="text-text-secondary hover:text-white"><X size={20}/></button>
+        </div>
+        {view === 'list' && renderList()}
+        {view === 'new' && renderNewOrder()}
+        {view === 'detail' && selected && renderDetail(selected)}
+      </div>
+    </div>
+  );
+};
+
+export default PurchaseOrdersModal;
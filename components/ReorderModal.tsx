@@ -0,0 +1,178 @@
+import React, { useState, useMemo } from 'react';
+import { Supplier } from '../types';
+import { ReorderSuggestion, formatReorderList } from '../reorder';
+import { PurchaseOrderDraft } from '../purchaseOrders';
+import { USAGE_HISTORY_DAYS } from '../constants';
+import { Permission } from '../permissions';
+import { X, Loader, Share2, ClipboardList, AlertTriangle, RefreshCw } from 'lucide-react';
+
+interface ReorderModalProps {
+  teamName: string;
+  suggestions: ReorderSuggestion[];
+  suppliers: Supplier[];
+  can: (permission: Permission) => boolean;
+  onCreateDrafts: (drafts: PurchaseOrderDraft[]) => Promise<boolean>;
+  onClose: () => void;
+}
+
+type RowInput = { selected: boolean; quantity: number | ''; supplierId: string };
+
+const formatCover = (days: number) => days === Infinity ? '—' : days < 1 ? '< 1 day' : `${Math.floor(days)} days`;
+
+const inputClass = 'bg-bg-primary border border-border-primary rounded-md p-1.5 text-white focus:ring-2 focus:ring-accent-primary outline-none';
+
+const ReorderModal: React.FC<ReorderModalProps> = ({ teamName, suggestions, suppliers, can, onCreateDrafts, onClose }) => {
+  const canManage = can('suppliers.manage');
+  const [showAll, setShowAll] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  // Items that need reordering start ticked with the suggested quantity
+  const [inputs, setInputs] = useState<Record<string, RowInput>>(() => {
+    const initial: Record<string, RowInput> = {};
+    suggestions.forEach(s => {
+      initial[s.item.id] = { selected: s.suggestedQuantity > 0, quantity: s.suggestedQuantity || '', supplierId: s.supplier?.id || '' };
+    });
+    return initial;
+  });
+
+  const sorted = useMemo(() => [...suggestions].sort((a, b) => a.daysOfCover - b.daysOfCover || a.item.name.localeCompare(b.item.name)), [suggestions]);
+  const visible = showAll ? sorted : sorted.filter(s => s.suggestedQuantity > 0);
+
+  const updateRow = (itemId: string, changes: Partial<RowInput>) =>
+    setInputs(prev => ({ ...prev, [itemId]: { ...prev[itemId], ...changes } }));
+
+  const selectedLines = sorted
+    .filter(s => inputs[s.item.id]?.selected && Number(inputs[s.item.id].quantity) > 0)
+    .map(s => ({ suggestion: s, quantity: Number(inputs[s.item.id].quantity), supplierId: inputs[s.item.id].supplierId }));
+  const missingSupplier = selectedLines.some(line => !line.supplierId);
+
+  const handleShare = async () => {
+    if (selectedLines.length === 0) return;
+    const supplierNames = new Map(suppliers.map(s => [s.id, s]));
+    const text = formatReorderList(teamName, selectedLines.map(line => ({
+      suggestion: { ...line.suggestion, supplier: supplierNames.get(line.supplierId) || null },
+      quantity: line.quantity,
+    })));
+    // Phones get the native share sheet; desktops get the list on the clipboard
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: 'Reorder list', text });
+      } catch (error) {
+        if ((error as Error).name !== 'AbortError') console.error("Failed to share reorder list:", error);
+      }
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error("Failed to copy reorder list:", error);
+    }
+  };
+
+  // One draft order per supplier, at the last price paid for each item
+  const handleCreateDrafts = async () => {
+    if (selectedLines.length === 0 || missingSupplier) return;
+    const bySupplier = new Map<string, typeof selectedLines>();
+    selectedLines.forEach(line => bySupplier.set(line.supplierId, [...(bySupplier.get(line.supplierId) || []), line]));
+    const drafts: PurchaseOrderDraft[] = Array.from(bySupplier.entries()).map(([supplierId, lines]) => ({
+      supplierName: suppliers.find(s => s.id === supplierId)?.name || '',
+      expectedDate: '',
+      notes: 'Raised from reorder suggestions.',
+      lines: lines.map(line => ({ stockItemId: line.suggestion.item.id, quantity: line.quantity, unitPrice: Number(line.suggestion.unitPrice.toFixed(2)) })),
+    }));
+    setIsSaving(true);
+    await onCreateDrafts(drafts);
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-start justify-center z-50 p-4 pt-20" onClick={onClose}>
+      <div className="bg-bg-secondary rounded-lg shadow-2xl w-full max-w-5xl max-h-[85vh] flex flex-col border border-border-primary animate-fade-in" onClick={e => e.stopPropagation()}>
+        <div className="p-4 flex items-center justify-between flex-shrink-0">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2"><RefreshCw size={20} className="text-accent-secondary"/> Reorder Suggestions</h3>
+          <button onClick={onClose} className="text-text-secondary hover:text-white"><X size={20}/></button>
+        </div>
+
+        <div className="p-4 border-t border-border-primary overflow-y-auto space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm text-text-secondary">Usage is averaged over the last {USAGE_HISTORY_DAYS} days of closing stock.</p>
+            <div className="flex items-center gap-1 rounded-md bg-bg-primary p-1 border border-border-primary">
+              <button onClick={() => setShowAll(false)} className={`px-3 py-1 rounded-md text-sm font-semibold ${!showAll ? 'bg-accent-primary text-white' : 'text-text-secondary hover:bg-bg-secondary'}`}>Needs Reorder</button>
+              <button onClick={() => setShowAll(true)} className={`px-3 py-1 rounded-md text-sm font-semibold ${showAll ? 'bg-accent-primary text-white' : 'text-text-secondary hover:bg-bg-secondary'}`}>All Items</button>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm text-text-primary">
+              <thead className="bg-bg-primary">
+                <tr>
+                  <th className="p-2"></th>
+                  <th className="p-2">Item</th>
+                  <th className="p-2 text-right">Remaining</th>
+                  <th className="p-2 text-right">Avg / Day</th>
+                  <th className="p-2 text-right">Cover</th>
+                  <th className="p-2 text-right">On Order</th>
+                  <th className="p-2">Supplier</th>
+                  <th className="p-2 text-right">Order Qty</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map(s => {
+                  const row = inputs[s.item.id];
+                  return (
+                    <tr key={s.item.id} className="border-b border-border-primary">
+                      <td className="p-2"><input type="checkbox" checked={row.selected} onChange={e => updateRow(s.item.id, { selected: e.target.checked })} className="accent-accent-primary" /></td>
+                      <td className="p-2 text-white">
+                        <span className="flex items-center gap-1">
+                          {s.isUrgent && <AlertTriangle size={14} className="text-warning flex-shrink-0" aria-label="Runs out before a new order could arrive"/>}
+                          {s.item.name}
+                        </span>
+                      </td>
+                      <td className="p-2 text-right">{s.remaining.toLocaleString()}</td>
+                      <td className="p-2 text-right">{s.averageDailyUsage.toLocaleString(undefined, { maximumFractionDigits: 1 })}</td>
+                      <td className={`p-2 text-right whitespace-nowrap ${s.isUrgent ? 'text-warning font-semibold' : ''}`}>{formatCover(s.daysOfCover)}</td>
+                      <td className="p-2 text-right">{s.onOrder ? s.onOrder.toLocaleString() : ''}</td>
+                      <td className="p-2">
+                        <select value={row.supplierId} onChange={e => updateRow(s.item.id, { supplierId: e.target.value })} className={`${inputClass} w-36`}>
+                          <option value="">No supplier</option>
+                          {suppliers.map(supplier => <option key={supplier.id} value={supplier.id}>{supplier.name}</option>)}
+                        </select>
+                        <p className="text-xs text-text-secondary mt-0.5">{s.leadTimeDays} day lead time</p>
+                      </td>
+                      <td className="p-2 text-right">
+                        <input type="number" min="0" value={row.quantity} onChange={e => updateRow(s.item.id, { quantity: e.target.value === '' ? '' : Number(e.target.value), selected: true })} className={`${inputClass} w-24 text-right`} />
+                      </td>
+                    </tr>
+                  );
+                })}
+                {visible.length === 0 && <tr><td colSpan={8} className="text-center p-8 text-text-secondary">Nothing needs reordering right now.</td></tr>}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-border-primary flex flex-wrap items-center justify-between gap-2 flex-shrink-0">
+          <p className="text-sm text-text-secondary">
+            {selectedLines.length} selected
+            {canManage && missingSupplier && <span className="text-warning"> · pick a supplier for every selected item to raise orders</span>}
+          </p>
+          <div className="flex gap-2">
+            <button onClick={handleShare} disabled={selectedLines.length === 0} className="px-4 py-2 rounded-md bg-border-primary hover:bg-gray-700 text-white font-semibold disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2">
+              <Share2 size={16}/> {copied ? 'Copied!' : 'Share List'}
+            </button>
+            {canManage && (
+              <button onClick={handleCreateDrafts} disabled={isSaving || selectedLines.length === 0 || missingSupplier} className="px-4 py-2 rounded-md bg-accent-primary hover:bg-purple-700 text-white font-semibold disabled:bg-border-primary disabled:cursor-not-allowed flex items-center gap-2">
+                {isSaving ? <Loader size={16} className="animate-spin"/> : <ClipboardList size={16}/>} Create Draft Orders
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReorderModal;
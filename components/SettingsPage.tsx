@@ -1,30 +1,67 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { User, Users, Mail, Trash2, ShieldAlert, Upload, AlertTriangle, KeyRound, CheckCircle, Edit3, Archive } from 'lucide-react';
-import { TeamMember } from '../types';
+import { User, Users, Mail, Trash2, ShieldAlert, Upload, AlertTriangle, KeyRound, CheckCircle, Edit3, Archive, Copy, RefreshCw, XCircle, Clock, ArchiveRestore } from 'lucide-react';
+import { TeamMember, TeamInvitation, ValuationMethod, ArchiveKind, ArchivedRecords } from '../types';
+import { Permission } from '../permissions';
+import { VALUATION_METHOD_LABELS } from '../valuation';
+import { DEFAULT_ROLLOVER_TIME } from '../constants';
+import { ARCHIVE_KINDS, ARCHIVE_KIND_LABELS, ARCHIVE_PERMISSIONS, archivedOfKind } from '../archive';
+
+// Falls back to a short list where the browser can't enumerate timezones.
+const TIMEZONES: string[] = typeof Intl.supportedValuesOf === 'function'
+    ? Intl.supportedValuesOf('timeZone')
+    : ['Africa/Johannesburg', 'Africa/Harare', 'Africa/Nairobi', 'Africa/Lagos', 'Europe/London', 'UTC'];
 
 interface SettingsPageProps {
     teamName: string;
     teamMembers: TeamMember[];
+    invitations: TeamInvitation[];
+    can: (permission: Permission) => boolean;
     onUpdateTeamName: (newName: string) => void;
-    onAddMember: (email: string) => void;
-    onRemoveMember: (memberId: string) => void;
-    onUpdateMemberRole: (memberId: string, newRole: 'Manager' | 'Worker') => void;
+    valuationMethod: ValuationMethod;
+    onUpdateValuationMethod: (method: ValuationMethod) => Promise<boolean>;
+    rolloverTime: string | null; // Null when New Day is only run by hand
+    rolloverTimezone: string;
+    onUpdateRollover: (rolloverTime: string | null, timezone: string) => Promise<boolean>;
+    onAddMember: (email: string, role: 'Manager' | 'Worker') => Promise<TeamInvitation | null>;
+    onResendInvitation: (invitationId: string) => Promise<TeamInvitation | null>;
+    onEmailInvitation: (invitation: TeamInvitation) => Promise<boolean>;
+    onRevokeInvitation: (invitationId: string) => Promise<boolean>;
+    onRemoveMember: (memberId: string) => Promise<boolean>;
+    onUpdateMemberRole: (memberId: string, newRole: 'Manager' | 'Worker') => Promise<boolean>;
     onResetData: () => void;
     onResetBinData: () => void;
+    archive: ArchivedRecords;
+    onRestoreArchived: (kind: ArchiveKind, id: string) => Promise<boolean>;
 }
 
-const SettingsPage: React.FC<SettingsPageProps> = ({ teamName, teamMembers, onUpdateTeamName, onAddMember, onRemoveMember, onUpdateMemberRole, onResetData, onResetBinData }) => {
-    const [activeTab, setActiveTab] = useState<'profile' | 'team' | 'danger'>('profile');
+const getInviteLink = (token: string) => `${window.location.origin}${window.location.pathname}?invite=${token}`;
+
+const SettingsPage: React.FC<SettingsPageProps> = ({ teamName, teamMembers, invitations, can, onUpdateTeamName, valuationMethod, onUpdateValuationMethod, rolloverTime, rolloverTimezone, onUpdateRollover, onAddMember, onResendInvitation, onEmailInvitation, onRevokeInvitation, onRemoveMember, onUpdateMemberRole, onResetData, onResetBinData, archive, onRestoreArchived }) => {
+    const [activeTab, setActiveTab] = useState<'profile' | 'team' | 'archive' | 'danger'>('profile');
     const [fullName, setFullName] = useState('Davison Munemo');
     const [editableTeamName, setEditableTeamName] = useState(teamName);
+    const [isAutoRollover, setIsAutoRollover] = useState(!!rolloverTime);
+    const [editableRolloverTime, setEditableRolloverTime] = useState(rolloverTime || DEFAULT_ROLLOVER_TIME);
+    const [editableTimezone, setEditableTimezone] = useState(rolloverTimezone);
     const [inviteEmail, setInviteEmail] = useState('');
+    const [inviteRole, setInviteRole] = useState<'Manager' | 'Worker'>('Worker');
+    const [isInviting, setIsInviting] = useState(false);
     const [notification, setNotification] = useState<string | null>(null);
     const [profilePic, setProfilePic] = useState<string | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const [restoringId, setRestoringId] = useState<string | null>(null);
+    const canManageTeam = can('team.manage');
+    const archiveKinds = ARCHIVE_KINDS.filter(kind => can(ARCHIVE_PERMISSIONS[kind]));
 
     useEffect(() => {
         setEditableTeamName(teamName);
     }, [teamName]);
+
+    useEffect(() => {
+        setIsAutoRollover(!!rolloverTime);
+        setEditableRolloverTime(rolloverTime || DEFAULT_ROLLOVER_TIME);
+        setEditableTimezone(rolloverTimezone);
+    }, [rolloverTime, rolloverTimezone]);
     
     const showNotification = (message: string) => {
         setNotification(message);
@@ -41,21 +78,71 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ teamName, teamMembers, onUp
         showNotification("Team name updated successfully!");
     };
 
-    const handleSendInvite = (e: React.FormEvent) => {
+    const handleValuationMethodChange = async (method: ValuationMethod) => {
+        if (await onUpdateValuationMethod(method)) showNotification("Valuation method updated.");
+        else showNotification("The valuation method couldn't be saved. Please try again.");
+    };
+
+    const handleRolloverSave = async () => {
+        if (!await onUpdateRollover(isAutoRollover ? editableRolloverTime : null, editableTimezone)) {
+            showNotification("The New Day schedule couldn't be saved. Please try again.");
+            return;
+        }
+        showNotification(isAutoRollover ? `New Day will run automatically at ${editableRolloverTime}.` : "Automatic New Day turned off.");
+    };
+
+    const copyInviteLink = async (invitation: TeamInvitation, copiedMessage = `Invite link for ${invitation.email} copied.`) => {
+        try {
+            await navigator.clipboard.writeText(getInviteLink(invitation.token));
+            showNotification(copiedMessage);
+        } catch {
+            window.prompt('Copy this invite link:', getInviteLink(invitation.token));
+        }
+    };
+
+    // Emails the link; if that fails it's copied so the Owner can send it themselves
+    const deliverInvite = async (invitation: TeamInvitation) => {
+        if (await onEmailInvitation(invitation)) showNotification(`Invitation emailed to ${invitation.email}.`);
+        else await copyInviteLink(invitation, `The email to ${invitation.email} couldn't be sent, so the invite link was copied for you to share.`);
+    };
+
+    const handleSendInvite = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!inviteEmail) return;
-        onAddMember(inviteEmail);
-        showNotification(`Invitation sent to ${inviteEmail}.`);
-        setInviteEmail('');
+        setIsInviting(true);
+        const invitation = await onAddMember(inviteEmail, inviteRole);
+        if (invitation) await deliverInvite(invitation);
+        setIsInviting(false);
+        if (invitation) setInviteEmail('');
+    };
+
+    const handleResendInvite = async (invitation: TeamInvitation) => {
+        const refreshed = await onResendInvitation(invitation.id);
+        if (refreshed) await deliverInvite(refreshed);
+    };
+
+    const handleRevokeInvite = async (invitation: TeamInvitation) => {
+        if (!window.confirm(`Revoke the invitation for ${invitation.email}?`)) return;
+        if (await onRevokeInvitation(invitation.id)) showNotification(`Invitation for ${invitation.email} revoked.`);
     };
     
-    const handleRemoveMember = (memberId: string, memberName: string) => {
+    const handleRemoveMember = async (memberId: string, memberName: string) => {
         if (window.confirm(`Are you sure you want to remove ${memberName} from the team?`)) {
-            onRemoveMember(memberId);
-            showNotification(`${memberName} has been removed.`);
+            if (await onRemoveMember(memberId)) showNotification(`${memberName} has been removed.`);
         }
     };
 
+    const handleRoleChange = async (member: TeamMember, newRole: 'Manager' | 'Worker') => {
+        if (await onUpdateMemberRole(member.id, newRole)) showNotification(`${member.name} is now a ${newRole}.`);
+    };
+
+    const handleRestore = async (kind: ArchiveKind, id: string) => {
+        const name = archivedOfKind(archive, kind).find(row => row.id === id)?.name;
+        setRestoringId(id);
+        if (await onRestoreArchived(kind, id)) showNotification(`${name} restored.`);
+        setRestoringId(null);
+    };
+
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files && e.target.files[0]) {
             const file = e.target.files[0];
@@ -68,7 +155,7 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ teamName, teamMembers, onUp
         }
     };
 
-    const TabButton: React.FC<{tabId: 'profile' | 'team' | 'danger'; children: React.ReactNode}> = ({ tabId, children }) => (
+    const TabButton: React.FC<{tabId: 'profile' | 'team' | 'archive' | 'danger'; children: React.ReactNode}> = ({ tabId, children }) => (
         <button onClick={() => setActiveTab(tabId)} className={`px-3 py-1.5 text-sm font-semibold rounded-md flex items-center gap-2 ${activeTab === tabId ? 'bg-accent-primary text-white' : 'text-text-secondary hover:bg-bg-secondary'}`}>
             {children}
         </button>
@@ -89,7 +176,7 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ teamName, teamMembers, onUp
         <div className="space-y-4">
             {notification && (<div className="fixed top-5 right-5 bg-success border border-green-500 shadow-2xl rounded-lg p-4 max-w-sm w-full animate-fade-in-up z-50"><div className="flex items-center gap-3"><CheckCircle size={20} className="text-white"/><p className="text-sm text-white font-semibold">{notification}</p></div></div>)}
             <div><h2 className="text-3xl font-bold text-white">Settings</h2><p className="text-text-secondary">Manage your profile, team, and application settings.</p></div>
-            <div className="flex items-center gap-1 border-b border-border-primary pb-1"><TabButton tabId="profile"><User size={16}/> Profile</TabButton><TabButton tabId="team"><Users size={16}/> Team Management</TabButton><TabButton tabId="danger"><ShieldAlert size={16}/> Danger Zone</TabButton></div>
+            <div className="flex items-center gap-1 border-b border-border-primary pb-1"><TabButton tabId="profile"><User size={16}/> Profile</TabButton><TabButton tabId="team"><Users size={16}/> Team Management</TabButton>{archiveKinds.length > 0 && <TabButton tabId="archive"><Archive size={16}/> Archive</TabButton>}{can('data.reset') && <TabButton tabId="danger"><ShieldAlert size={16}/> Danger Zone</TabButton>}</div>
             <div className="animate-fade-in">
             {activeTab === 'profile' && (
                 <form onSubmit={handleProfileSave}>
@@ -125,7 +212,7 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ teamName, teamMembers, onUp
             )}
             {activeTab === 'team' && (
                 <div className="space-y-4">
-                    <SettingsCard title="Team Settings" description="Manage your team's name.">
+                    <SettingsCard title="Team Settings" description={canManageTeam ? "Manage your team's name, how stock is valued and when the day rolls over." : "Only the team Owner can rename the team or manage members."}>
                         <FormRow label="Team Name">
                             <div className="flex items-center gap-2">
                                 <Edit3 className="h-5 w-5 text-text-secondary"/>
@@ -134,10 +221,47 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ teamName, teamMembers, onUp
                                     value={editableTeamName} 
                                     onChange={e => setEditableTeamName(e.target.value)} 
                                     onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleTeamNameSave(); }}}
+                                    readOnly={!canManageTeam}
                                     className="flex-grow bg-bg-primary border border-border-primary rounded-md p-2 text-white focus:ring-2 focus:ring-accent-primary outline-none" 
                                 />
-                                <button type="button" onClick={handleTeamNameSave} className="px-4 py-2 rounded-md bg-accent-primary hover:bg-purple-700 text-white font-semibold">Save</button>
+                                {canManageTeam && <button type="button" onClick={handleTeamNameSave} className="px-4 py-2 rounded-md bg-accent-primary hover:bg-purple-700 text-white font-semibold">Save</button>}
+                            </div>
+                        </FormRow>
+                        <FormRow label="Stock Valuation">
+                            <select
+                                value={valuationMethod}
+                                onChange={e => handleValuationMethodChange(e.target.value as ValuationMethod)}
+                                disabled={!canManageTeam}
+                                className="w-full bg-bg-primary border border-border-primary rounded-md p-2 text-white focus:ring-2 focus:ring-accent-primary outline-none disabled:opacity-60"
+                            >
+                                {(Object.keys(VALUATION_METHOD_LABELS) as ValuationMethod[]).map(method => <option key={method} value={method}>{VALUATION_METHOD_LABELS[method]}</option>)}
+                            </select>
+                            <p className="text-xs text-text-secondary mt-1">How stock on hand is valued from the cost of each delivery, for Stock Value and reports.</p>
+                        </FormRow>
+                        <FormRow label="Automatic New Day">
+                            <label className="flex items-center gap-2 text-white mb-2">
+                                <input type="checkbox" checked={isAutoRollover} onChange={e => setIsAutoRollover(e.target.checked)} disabled={!canManageTeam} className="w-4 h-4 accent-accent-primary" />
+                                Roll over automatically every day
+                            </label>
+                            <div className="flex flex-col sm:flex-row gap-2">
+                                <input
+                                    type="time"
+                                    value={editableRolloverTime}
+                                    onChange={e => setEditableRolloverTime(e.target.value)}
+                                    disabled={!canManageTeam || !isAutoRollover}
+                                    className="bg-bg-primary border border-border-primary rounded-md p-2 text-white focus:ring-2 focus:ring-accent-primary outline-none disabled:opacity-60"
+                                />
+                                <select
+                                    value={editableTimezone}
+                                    onChange={e => setEditableTimezone(e.target.value)}
+                                    disabled={!canManageTeam}
+                                    className="flex-grow bg-bg-primary border border-border-primary rounded-md p-2 text-white focus:ring-2 focus:ring-accent-primary outline-none disabled:opacity-60"
+                                >
+                                    {(TIMEZONES.includes(editableTimezone) ? TIMEZONES : [editableTimezone, ...TIMEZONES]).map(zone => <option key={zone} value={zone}>{zone}</option>)}
+                                </select>
+                                {canManageTeam && <button type="button" onClick={handleRolloverSave} className="px-4 py-2 rounded-md bg-accent-primary hover:bg-purple-700 text-white font-semibold">Save</button>}
                             </div>
+                            <p className="text-xs text-text-secondary mt-1">Closes the day even if nobody taps New Day. A day that was already rolled over by hand isn't rolled again.</p>
                         </FormRow>
                     </SettingsCard>
                     <SettingsCard title="Team Members" description="Manage who has access to this inventory.">
@@ -149,19 +273,19 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ teamName, teamMembers, onUp
                                         <p className="text-sm text-text-secondary">{member.email}</p>
                                     </div>
                                     <div className="flex items-center gap-3">
-                                        {member.role === 'Owner' ? (
-                                            <span className="text-sm font-semibold text-accent-primary px-2">Owner</span>
+                                        {member.role === 'Owner' || !canManageTeam ? (
+                                            <span className={`text-sm font-semibold px-2 ${member.role === 'Owner' ? 'text-accent-primary' : 'text-text-secondary'}`}>{member.role}</span>
                                         ) : (
                                             <select
                                                 value={member.role}
-                                                onChange={(e) => onUpdateMemberRole(member.id, e.target.value as 'Manager' | 'Worker')}
+                                                onChange={(e) => handleRoleChange(member, e.target.value as 'Manager' | 'Worker')}
                                                 className="bg-bg-secondary border border-border-primary rounded-md p-1 text-xs text-white focus:ring-1 focus:ring-accent-primary outline-none"
                                             >
                                                 <option value="Manager">Manager</option>
                                                 <option value="Worker">Worker</option>
                                             </select>
                                         )}
-                                        {member.role !== 'Owner' && (
+                                        {member.role !== 'Owner' && canManageTeam && (
                                             <button type="button" onClick={() => handleRemoveMember(member.id, member.name)} className="text-text-secondary hover:text-danger" title="Remove Member">
                                                 <Trash2 size={16}/>
                                             </button>
@@ -171,14 +295,70 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ teamName, teamMembers, onUp
                             ))}
                         </div>
                     </SettingsCard>
+                    {canManageTeam && (<>
                     <form onSubmit={handleSendInvite}>
-                    <SettingsCard title="Invite New Member" description="Enter an email address to invite a new member to your team.">
-                        <div className="flex items-center gap-2"><Mail className="h-5 w-5 text-text-secondary"/><input type="email" placeholder="new.member@example.com" value={inviteEmail} onChange={e => setInviteEmail(e.target.value)} required className="flex-grow bg-bg-primary border border-border-primary rounded-md p-2 text-white focus:ring-2 focus:ring-accent-primary outline-none" /><button type="submit" className="px-4 py-2 rounded-md bg-success hover:bg-green-700 text-white font-semibold">Send Invite</button></div>
+                    <SettingsCard title="Invite New Member" description="Enter an email address and role. We email them an invite link, which expires after 7 days.">
+                        <div className="flex flex-wrap items-center gap-2">
+                            <Mail className="h-5 w-5 text-text-secondary"/>
+                            <input type="email" placeholder="new.member@example.com" value={inviteEmail} onChange={e => setInviteEmail(e.target.value)} required className="flex-grow bg-bg-primary border border-border-primary rounded-md p-2 text-white focus:ring-2 focus:ring-accent-primary outline-none" />
+                            <select value={inviteRole} onChange={e => setInviteRole(e.target.value as 'Manager' | 'Worker')} className="bg-bg-primary border border-border-primary rounded-md p-2 text-white focus:ring-2 focus:ring-accent-primary outline-none">
+                                <option value="Worker">Worker</option>
+                                <option value="Manager">Manager</option>
+                            </select>
+                            <button type="submit" disabled={isInviting} className="px-4 py-2 rounded-md bg-success hover:bg-green-700 text-white font-semibold disabled:bg-border-primary">Send Invite</button>
+                        </div>
                     </SettingsCard>
                     </form>
+                    <SettingsCard title="Pending Invitations" description="Invitations that have not been accepted yet. Resending issues a new link and resets the expiry.">
+                        <div className="space-y-2">
+                            {invitations.map(invitation => {
+                                const isExpired = new Date(invitation.expires_at) < new Date();
+                                return (
+                                <div key={invitation.id} className="flex flex-wrap items-center justify-between gap-2 p-2 bg-bg-primary rounded-md">
+                                    <div>
+                                        <p className="font-semibold text-white">{invitation.email}</p>
+                                        <p className={`text-xs flex items-center gap-1 ${isExpired ? 'text-danger' : 'text-text-secondary'}`}>
+                                            <Clock size={12}/> {invitation.role} · {isExpired ? 'Expired' : 'Expires'} {new Date(invitation.expires_at).toLocaleDateString()}
+                                        </p>
+                                    </div>
+                                    <div className="flex items-center gap-3 text-text-secondary">
+                                        {!isExpired && <button type="button" onClick={() => copyInviteLink(invitation)} className="hover:text-white" title="Copy Invite Link"><Copy size={16}/></button>}
+                                        <button type="button" onClick={() => handleResendInvite(invitation)} className="hover:text-white" title="Resend Invitation"><RefreshCw size={16}/></button>
+                                        <button type="button" onClick={() => handleRevokeInvite(invitation)} className="hover:text-danger" title="Revoke Invitation"><XCircle size={16}/></button>
+                                    </div>
+                                </div>
+                                );
+                            })}
+                            {invitations.length === 0 && <p className="text-sm text-text-secondary text-center py-4">No pending invitations.</p>}
+                        </div>
+                    </SettingsCard>
+                    </>)}
+                </div>
+            )}
+            {activeTab === 'archive' && archiveKinds.length > 0 && (
+                <div className="space-y-4">
+                    {archiveKinds.map(kind => {
+                        const rows = archivedOfKind(archive, kind);
+                        return (
+                            <SettingsCard key={kind} title={ARCHIVE_KIND_LABELS[kind]} description="Archived records are hidden from the main tables but stay in history and reports.">
+                                <div className="space-y-2">
+                                    {rows.map(row => (
+                                        <div key={row.id} className="flex items-center justify-between p-2 bg-bg-primary rounded-md">
+                                            <div>
+                                                <p className="font-semibold text-white">{row.name}</p>
+                                                {row.archived_at && <p className="text-xs text-text-secondary">Archived {new Date(row.archived_at).toLocaleString()}</p>}
+                                            </div>
+                                            <button type="button" onClick={() => handleRestore(kind, row.id)} disabled={restoringId === row.id} className="px-3 py-1.5 rounded-md bg-accent-primary hover:bg-purple-700 text-white text-sm font-semibold flex items-center gap-2 disabled:bg-border-primary"><ArchiveRestore size={14}/> Restore</button>
+                                        </div>
+                                    ))}
+                                    {rows.length === 0 && <p className="text-sm text-text-secondary text-center py-4">Nothing archived.</p>}
+                                </div>
+                            </SettingsCard>
+                        );
+                    })}
                 </div>
             )}
-            {activeTab === 'danger' && (
+            {activeTab === 'danger' && can('data.reset') && (
                 <SettingsCard title="Danger Zone" description="These actions are irreversible. Please be certain.">
                     <div className="space-y-4">
                         <div className="flex items-center justify-between p-3 bg-danger/10 border border-danger/30 rounded-lg">
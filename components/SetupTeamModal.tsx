@@ -1,14 +1,19 @@
 
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { supabase } from '../supabaseClient';
 import { Session } from '@supabase/supabase-js';
 import { INITIAL_STOCK_DATA, INITIAL_ACTIVITY_LOG_DATA } from '../constants';
-import { Loader, Users } from 'lucide-react';
+import { TeamInvitation } from '../types';
+import { Loader, Users, Mail } from 'lucide-react';
 
 interface SetupTeamModalProps {
   session: Session;
-  onTeamCreated: () => void;
+  inviteToken?: string | null;
+  hasTeam?: boolean | null; // When true the user only lands here to answer an invite link
+  onTeamCreated: (teamId: string) => void;
+  onSkip?: () => void;
+  onCancel?: () => void; // Set when opened from the Header to create an additional team
 }
 /*
 const seedInitialData = async (teamId: string, userId: string) => {
@@ -39,10 +44,45 @@ const seedInitialData = async (teamId: string, userId: string) => {
 };
 */
 
-const SetupTeamModal: React.FC<SetupTeamModalProps> = ({ session, onTeamCreated }) => {
+const SetupTeamModal: React.FC<SetupTeamModalProps> = ({ session, inviteToken, hasTeam, onTeamCreated, onSkip, onCancel }) => {
   const [teamName, setTeamName] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [invitations, setInvitations] = useState<TeamInvitation[]>([]);
+  const [acceptingId, setAcceptingId] = useState<string | null>(null);
+
+  // my_pending_invitations only returns invitations addressed to the signed-in email, so a link
+  // sent to someone else simply doesn't show up here.
+  useEffect(() => {
+    const fetchInvitations = async () => {
+      if (!session.user.email) return;
+      const { data, error } = await supabase.rpc('my_pending_invitations');
+
+      if (error) {
+        console.error("Error fetching invitations:", error);
+        return;
+      }
+      const pending = (data || []) as TeamInvitation[];
+      if (inviteToken && !pending.some(inv => inv.token === inviteToken)) {
+        setError(`This invite link has expired, was revoked, or was sent to an address other than ${session.user.email}.`);
+      }
+      setInvitations(pending);
+    };
+    fetchInvitations();
+  }, [session.user.email, inviteToken]);
+
+  const handleAccept = async (invitation: TeamInvitation) => {
+    setAcceptingId(invitation.id);
+    setError('');
+    const { error } = await supabase.rpc('accept_team_invitation', { p_token: invitation.token });
+    if (error) {
+      console.error("Error accepting invitation:", error);
+      setError(error.message || 'The invitation could not be accepted.');
+      setAcceptingId(null);
+      return;
+    }
+    onTeamCreated(invitation.team_id);
+  };
 
   const handleSetup = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -79,7 +119,7 @@ const SetupTeamModal: React.FC<SetupTeamModalProps> = ({ session, onTeamCreated
       // await seedInitialData(teamId, session.user.id);
 
       // 4. Signal to the parent component that setup is complete
-      onTeamCreated();
+      onTeamCreated(teamId);
 
     } catch (err: any) {
       console.error(err);
@@ -96,16 +136,47 @@ const SetupTeamModal: React.FC<SetupTeamModalProps> = ({ session, onTeamCreated
                 <Users className="text-accent-primary" size={32} />
             </div>
             <h2 className="text-3xl font-bold text-white mb-2">
-                Welcome to Intellectory!
+                {onCancel ? 'Create Another Team' : 'Welcome to Intellectory!'}
             </h2>
             <p className="text-text-secondary mb-8">
-                Let's start by creating a team for your inventory.
+                {onCancel ? 'Each team has its own stock, suppliers and bins.' : hasTeam ? 'You have a pending team invitation.' : "Let's start by creating a team for your inventory."}
             </p>
         </div>
 
         {error && <div className="bg-danger/20 border border-danger text-danger text-sm p-3 rounded-md mb-4">{error}</div>}
-        
+
+        {invitations.length > 0 && (
+          <div className="space-y-2 mb-6">
+            <p className="text-sm font-medium text-text-secondary">You've been invited to join:</p>
+            {invitations.map(invitation => (
+              <div key={invitation.id} className={`flex items-center justify-between gap-3 p-3 bg-bg-primary rounded-md border ${invitation.token === inviteToken ? 'border-accent-primary' : 'border-border-primary'}`}>
+                <div className="flex items-center gap-3">
+                  <Mail size={18} className="text-accent-secondary flex-shrink-0" />
+                  <div>
+                    <p className="font-semibold text-white">{invitation.teams?.name || 'A team'}</p>
+                    <p className="text-xs text-text-secondary">as {invitation.role} · expires {new Date(invitation.expires_at).toLocaleDateString()}</p>
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleAccept(invitation)}
+                  disabled={acceptingId !== null}
+                  className="px-3 py-1.5 rounded-md bg-success hover:bg-green-700 text-white text-sm font-semibold disabled:bg-border-primary disabled:cursor-not-allowed"
+                >
+                  {acceptingId === invitation.id ? <Loader size={16} className="animate-spin" /> : 'Accept'}
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {hasTeam ? (
+          <button type="button" onClick={onSkip} className="w-full py-3 px-4 bg-border-primary text-white font-semibold rounded-md hover:bg-gray-700 transition-colors">
+            Continue to My Team
+          </button>
+        ) : (
         <form onSubmit={handleSetup} className="space-y-6">
+          {invitations.length > 0 && <p className="text-sm text-text-secondary text-center">Or create a new team of your own.</p>}
           <div>
             <label className="text-sm font-medium text-text-secondary block mb-2">Team Name</label>
             <input 
@@ -125,7 +196,13 @@ const SetupTeamModal: React.FC<SetupTeamModalProps> = ({ session, onTeamCreated
           >
             {loading ? <Loader className="animate-spin" /> : 'Create Team & Continue'}
           </button>
+          {onCancel && (
+            <button type="button" onClick={onCancel} className="w-full py-3 px-4 bg-border-primary text-white font-semibold rounded-md hover:bg-gray-700 transition-colors">
+              Cancel
+            </button>
+          )}
         </form>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,284 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { StockItem, StockCount, StockCountLine } from '../types';
+import { STOCK_COUNT_STATUS_LABELS, lineVariance, isLargeVariance, countedLines } from '../stockCount';
+import { parseQuantity, describeUnits } from '../units';
+import { X, Loader, ClipboardCheck, ChevronLeft, Plus, AlertTriangle, Search } from 'lucide-react';
+
+interface StockCountModalProps {
+  counts: StockCount[]; // Open counts only
+  stockItems: StockItem[];
+  unitCosts: Map<string, number>;
+  canApprove: boolean;
+  onStart: (name: string, itemIds: string[]) => Promise<StockCount | null>;
+  onRecord: (countId: string, lineId: string, counted: number | null) => Promise<boolean>;
+  onPost: (countId: string) => Promise<boolean>;
+  onCancel: (countId: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const formatRand = (value: number) => `R${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const formatSigned = (value: number) => `${value > 0 ? '+' : ''}${value.toLocaleString()}`;
+const inputClass = 'w-full bg-bg-primary border border-border-primary rounded-md p-2 text-white focus:ring-2 focus:ring-accent-primary outline-none';
+
+const CountInput: React.FC<{ line: StockCountLine; item: StockItem | undefined; disabled: boolean; onSave: (counted: number | null) => Promise<boolean> }> = ({ line, item, disabled, onSave }) => {
+  const [text, setText] = useState(line.counted_quantity === null ? '' : String(line.counted_quantity));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setText(line.counted_quantity === null ? '' : String(line.counted_quantity));
+  }, [line.counted_quantity]);
+
+  const handleBlur = async () => {
+    const trimmed = text.trim();
+    if (!trimmed) {
+      setError(null);
+      if (line.counted_quantity !== null) await onSave(null);
+      return;
+    }
+    const parsed = item ? parseQuantity(trimmed, item) : { value: Number(trimmed) };
+    if ('error' in parsed || isNaN(parsed.value) || parsed.value < 0) {
+      setError('error' in parsed ? parsed.error : 'Enter a quantity of 0 or more.');
+      return;
+    }
+    setError(null);
+    if (parsed.value !== line.counted_quantity) await onSave(parsed.value);
+  };
+
+  return (
+    <div>
+      <input
+        type="text"
+        inputMode="decimal"
+        value={text}
+        onChange={e => setText(e.target.value)}
+        onBlur={handleBlur}
+        onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+        disabled={disabled}
+        placeholder="Count"
+        title={item?.units?.length ? describeUnits(item) : undefined}
+        className={`${inputClass} text-right text-lg ${error ? 'ring-2 ring-danger' : ''}`}
+      />
+      {error && <p className="text-xs text-danger mt-1">{error}</p>}
+    </div>
+  );
+};
+
+const StockCountModal: React.FC<StockCountModalProps> = ({ counts, stockItems, unitCosts, canApprove, onStart, onRecord, onPost, onCancel, onClose }) => {
+  const [view, setView] = useState<'list' | 'new' | string>('list'); // or the id of the count being worked on
+  const [isSaving, setIsSaving] = useState(false);
+
+  // New count form
+  const [name, setName] = useState(`Count ${new Date().toLocaleDateString()}`);
+  const [category, setCategory] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const categories = useMemo(() => Array.from(new Set(stockItems.map(i => i.category).filter(Boolean))).sort(), [stockItems]);
+
+  // Count entry
+  const [filter, setFilter] = useState('');
+
+  const count = counts.find(c => c.id === view) || null;
+  useEffect(() => {
+    // The count was posted or cancelled, here or elsewhere
+    if (view !== 'list' && view !== 'new' && !count) setView('list');
+  }, [view, count]);
+
+  const pickCategory = (value: string) => {
+    setCategory(value);
+    setSelectedIds(new Set(stockItems.filter(i => !value || i.category === value).map(i => i.id)));
+  };
+
+  const toggleItem = (itemId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(itemId)) next.delete(itemId); else next.add(itemId);
+      return next;
+    });
+  };
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || selectedIds.size === 0) return;
+    setIsSaving(true);
+    const created = await onStart(name.trim(), Array.from(selectedIds));
+    setIsSaving(false);
+    if (created) {
+      setView(created.id);
+      setSelectedIds(new Set());
+      setCategory('');
+    }
+  };
+
+  const runAction = async (action: () => Promise<boolean>) => {
+    setIsSaving(true);
+    const ok = await action();
+    setIsSaving(false);
+    if (ok) setView('list');
+  };
+
+  const itemById = (id: string | null) => stockItems.find(i => i.id === id);
+  const unitCostOf = (line: StockCountLine) => (line.stock_item_id && unitCosts.get(line.stock_item_id)) || 0;
+  const systemQuantityOf = (line: StockCountLine) => {
+    if (line.system_quantity !== null) return line.system_quantity;
+    const item = itemById(line.stock_item_id);
+    return item ? item.opening_stock + item.added_today - item.packed - item.lost : 0;
+  };
+
+  const renderList = () => (
+    <div className="space-y-3">
+      <button onClick={() => { setView('new'); pickCategory(''); }} className="w-full flex items-center justify-center gap-2 px-4 py-3 rounded-md bg-accent-primary hover:bg-purple-700 text-white font-semibold">
+        <Plus size={18}/> Start a Count
+      </button>
+      {counts.length === 0 && <p className="text-center text-text-secondary py-6">No counts in progress.</p>}
+      {counts.map(c => {
+        const counted = countedLines(c).length;
+        return (
+          <button key={c.id} onClick={() => setView(c.id)} className="w-full text-left p-3 bg-bg-primary rounded-md hover:ring-2 hover:ring-accent-primary">
+            <div className="flex items-center justify-between">
+              <p className="font-semibold text-white">{c.name}</p>
+              <span className={`text-xs px-2 py-0.5 rounded-full ${c.status === 'awaiting_approval' ? 'bg-warning/20 text-warning' : 'bg-accent-secondary/20 text-accent-secondary'}`}>{STOCK_COUNT_STATUS_LABELS[c.status]}</span>
+            </div>
+            <p className="text-xs text-text-secondary mt-1">{counted} of {c.lines.length} items counted · started {new Date(c.created_at).toLocaleDateString()}</p>
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  const renderNew = () => (
+    <form onSubmit={handleStart} className="space-y-4">
+      <div>
+        <label className="text-sm font-medium text-text-secondary block mb-1">Name</label>
+        <input type="text" value={name} onChange={e => setName(e.target.value)} required className={inputClass} />
+      </div>
+      <div>
+        <label className="text-sm font-medium text-text-secondary block mb-1">Category</label>
+        <select value={category} onChange={e => pickCategory(e.target.value)} className={inputClass}>
+          <option value="">All items</option>
+          {categories.map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+      </div>
+      <div>
+        <p className="text-sm font-medium text-text-secondary mb-1">Items ({selectedIds.size} selected)</p>
+        <div className="max-h-64 overflow-y-auto space-y-1 bg-bg-primary rounded-md p-2">
+          {stockItems.filter(i => !category || i.category === category).map(item => (
+            <label key={item.id} className="flex items-center gap-3 p-2 rounded hover:bg-bg-secondary cursor-pointer">
+              <input type="checkbox" checked={selectedIds.has(item.id)} onChange={() => toggleItem(item.id)} className="w-4 h-4 accent-accent-primary" />
+              <span className="text-white">{item.name}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+      <button type="submit" disabled={isSaving || !name.trim() || selectedIds.size === 0} className="w-full px-4 py-3 rounded-md bg-accent-primary hover:bg-purple-700 text-white font-semibold disabled:bg-border-primary disabled:cursor-not-allowed flex items-center justify-center">
+        {isSaving ? <Loader size={20} className="animate-spin"/> : 'Start Counting'}
+      </button>
+    </form>
+  );
+
+  const renderCount = (c: StockCount) => {
+    const isLocked = c.status === 'awaiting_approval' && !canApprove;
+    const lines = c.lines
+      .filter(line => line.stock_item_name.toLowerCase().includes(filter.toLowerCase().trim()))
+      .sort((a, b) => a.stock_item_name.localeCompare(b.stock_item_name));
+
+    return (
+      <div className="space-y-3">
+        {c.status === 'awaiting_approval' && (
+          <p className="p-3 rounded-md bg-warning/10 border border-warning/30 text-sm text-text-primary flex items-start gap-2">
+            <AlertTriangle size={16} className="text-warning flex-shrink-0 mt-0.5"/>
+            {canApprove ? 'This count has large variances. Check them, then approve to post it.' : 'Waiting for a Manager to approve the large variances in this count.'}
+          </p>
+        )}
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-text-secondary" />
+          <input type="text" value={filter} onChange={e => setFilter(e.target.value)} placeholder="Find an item..." className={`${inputClass} pl-9`} />
+        </div>
+        <div className="space-y-2">
+          {lines.map(line => {
+            const item = itemById(line.stock_item_id);
+            const variance = lineVariance(line);
+            const large = isLargeVariance(line, unitCostOf(line));
+            return (
+              <div key={line.id} className={`p-3 bg-bg-primary rounded-md ${large ? 'ring-1 ring-warning' : ''}`}>
+                <div className="flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-semibold text-white truncate">{line.stock_item_name}</p>
+                    <p className="text-xs text-text-secondary">System: {systemQuantityOf(line).toLocaleString()}</p>
+                  </div>
+                  <div className="w-28 flex-shrink-0">
+                    <CountInput line={line} item={item} disabled={isLocked || !item || !!line.posted_at} onSave={counted => onRecord(c.id, line.id, counted)} />
+                  </div>
+                </div>
+                {variance !== null && variance !== 0 && (
+                  <p className={`text-sm mt-2 flex items-center gap-1 ${variance < 0 ? 'text-danger' : 'text-green-400'}`}>
+                    {large && <AlertTriangle size={14} className="text-warning"/>}
+                    {formatSigned(variance)} ({formatRand(variance * unitCostOf(line))})
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
+  const renderCountFooter = (c: StockCount) => {
+    const counted = countedLines(c);
+    const netQuantity = counted.reduce((sum, line) => sum + (lineVariance(line) || 0), 0);
+    const netValue = counted.reduce((sum, line) => sum + (lineVariance(line) || 0) * unitCostOf(line), 0);
+    const largeCount = counted.filter(line => isLargeVariance(line, unitCostOf(line))).length;
+    const needsApproval = largeCount > 0 && !canApprove;
+    const isLocked = c.status === 'awaiting_approval' && !canApprove;
+    const postLabel = c.status === 'awaiting_approval' ? 'Approve & Post' : needsApproval ? 'Submit for Approval' : 'Post Count';
+
+    const handlePost = () => {
+      const uncounted = c.lines.length - counted.length;
+      const warning = uncounted > 0 ? `${uncounted} item${uncounted === 1 ? ' was' : 's were'} not counted and will be left as they are.\n\n` : '';
+      const action = needsApproval
+        ? `${largeCount} large variance${largeCount === 1 ? '' : 's'} will be sent to a Manager for approval before anything is posted.`
+        : `Stock will be adjusted by the variances shown (net ${formatSigned(netQuantity)}, ${formatRand(netValue)}): shortfalls are added to Lost and stock found to Added Today.`;
+      if (window.confirm(`${warning}${action}`)) runAction(() => onPost(c.id));
+    };
+
+    return (
+      <div className="p-4 border-t border-border-primary flex-shrink-0 space-y-3">
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-text-secondary">{counted.length} of {c.lines.length} counted</span>
+          <span className={netQuantity < 0 ? 'text-danger' : 'text-green-400'}>
+            Net {formatSigned(netQuantity)} · <strong>{formatRand(netValue)}</strong>
+            {largeCount > 0 && <span className="text-warning"> · {largeCount} large</span>}
+          </span>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => { if (window.confirm(`Cancel ${c.name}? Nothing will be posted.`)) runAction(() => onCancel(c.id)); }} disabled={isSaving || isLocked} className="px-4 py-3 rounded-md bg-border-primary hover:bg-gray-700 text-white font-semibold disabled:opacity-50">Cancel Count</button>
+          <button onClick={handlePost} disabled={isSaving || isLocked || counted.length === 0} className="flex-1 px-4 py-3 rounded-md bg-accent-primary hover:bg-purple-700 text-white font-semibold disabled:bg-border-primary disabled:cursor-not-allowed flex items-center justify-center">
+            {isSaving ? <Loader size={20} className="animate-spin"/> : postLabel}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-start justify-center z-50 p-4 pt-20" onClick={onClose}>
+      <div className="bg-bg-secondary rounded-lg shadow-2xl w-full max-w-lg max-h-[85vh] flex flex-col border border-border-primary animate-fade-in" onClick={e => e.stopPropagation()}>
+        <div className="p-4 flex items-center justify-between flex-shrink-0">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            {view !== 'list' && <button onClick={() => setView('list')} className="text-text-secondary hover:text-white"><ChevronLeft size={20}/></button>}
+            <ClipboardCheck size={20} className="text-accent-secondary"/> {count ? count.name : view === 'new' ? 'New Stock Count' : 'Stock Counts'}
+          </h3>
+          <button onClick={onClose} className="text-text-secondary hover:text-white"><X size={20}/></button>
+        </div>
+
+        <div className="p-4 border-t border-border-primary overflow-y-auto flex-grow">
+          {view === 'list' && renderList()}
+          {view === 'new' && renderNew()}
+          {count && renderCount(count)}
+        </div>
+        {count && renderCountFooter(count)}
+      </div>
+    </div>
+  );
+};
+
+export default StockCountModal;
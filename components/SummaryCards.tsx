@@ -8,7 +8,11 @@ interface SummaryCardsProps {
     lowStockCount: number;
     totalItems: number;
   };
+  snapshotDate?: string; // Set when the figures come from a past day's closing snapshot
   onLowStockClick: () => void;
+  reorderCount?: number; // Omitted for past days, where suggestions don't apply
+  onReorderClick: () => void;
+  onStockValueClick?: () => void; // Opens the valuation report
 }
 
 const SummaryCard: React.FC<{ title: string; value: string; color: string; subtext?: string; onClick?: () => void }> = ({ title, value, color, subtext, onClick }) => {
@@ -25,29 +29,44 @@ const SummaryCard: React.FC<{ title: string; value: string; color: string; subte
   );
 };
 
-const SummaryCards: React.FC<SummaryCardsProps> = ({ stats, onLowStockClick }) => {
+const SummaryCards: React.FC<SummaryCardsProps> = ({ stats, snapshotDate, onLowStockClick, reorderCount, onReorderClick, onStockValueClick }) => {
+  const subtext = snapshotDate ? `Closing ${new Date(snapshotDate + 'T00:00:00').toLocaleDateString()}` : undefined;
   return (
     <div className="flex gap-3 overflow-x-auto pb-3">
       <SummaryCard 
         title="Total Remaining" 
         value={stats.totalRemaining.toLocaleString()} 
         color="border-accent-primary" 
+        subtext={subtext}
       />
       <SummaryCard 
         title="Stock Value (R)" 
         value={stats.totalStockValue.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} 
         color="border-accent-secondary" 
+        subtext={subtext}
+        onClick={onStockValueClick}
       />
       <SummaryCard 
         title="Low Stock" 
         value={`${stats.lowStockCount} items`}
         color="border-warning"
+        subtext={subtext}
         onClick={stats.lowStockCount > 0 ? onLowStockClick : undefined}
       />
+      {reorderCount !== undefined && (
+        <SummaryCard 
+          title="Reorder" 
+          value={`${reorderCount} items`}
+          color="border-danger"
+          subtext="Tap for suggestions"
+          onClick={onReorderClick}
+        />
+      )}
       <SummaryCard 
         title="Total Items" 
         value={`${stats.totalItems} items`}
         color="border-success"
+        subtext={subtext}
       />
     </div>
   );
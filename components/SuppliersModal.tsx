@@ -0,0 +1,218 @@
+import React, { useState, useMemo } from 'react';
+import { Supplier, CreditTransaction, SupplierPayment } from '../types';
+import { buildSupplierLedger, computeAgeing, buildStatement, printSupplierStatement, AGEING_BUCKETS } from '../supplierLedger';
+import { DEFAULT_LEAD_TIME_DAYS } from '../constants';
+import { Permission } from '../permissions';
+import { localDateKey } from '../dates';
+import { X, Loader, ChevronLeft, ChevronRight, Printer, Wallet, Truck as TruckIcon, Archive } from 'lucide-react';
+
+interface SuppliersModalProps {
+  teamName: string;
+  suppliers: Supplier[];
+  transactions: CreditTransaction[];
+  payments: SupplierPayment[];
+  can: (permission: Permission) => boolean;
+  onRecordPayment: (supplierId: string, payment: { amount: number; paidOn: string; reference: string }) => Promise<boolean>;
+  onUpdateLeadTime: (supplierId: string, leadTimeDays: number | null) => Promise<boolean>;
+  onArchive: (supplierId: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const formatRand = (value: number) => `R${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const SuppliersModal: React.FC<SuppliersModalProps> = ({ teamName, suppliers, transactions, payments, can, onRecordPayment, onUpdateLeadTime, onArchive, onClose }) => {
+  const today = localDateKey();
+  const monthStart = today.slice(0, 8) + '01';
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [amount, setAmount] = useState<number | ''>('');
+  const [paidOn, setPaidOn] = useState(today);
+  const [reference, setReference] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [statementStart, setStatementStart] = useState(monthStart);
+  const [statementEnd, setStatementEnd] = useState(today);
+  const [leadTime, setLeadTime] = useState<number | ''>('');
+
+  const selected = suppliers.find(s => s.id === selectedId) || null;
+  const ledger = useMemo(() => selected ? buildSupplierLedger(selected.id, transactions, payments) : [], [selected?.id, transactions, payments]);
+  const ageing = useMemo(() => computeAgeing(ledger), [ledger]);
+
+  // Anything older than 30 days is flagged in the list
+  const overdueBySupplier = useMemo(() => {
+    const overdue: Record<string, number> = {};
+    suppliers.forEach(supplier => {
+      const buckets = computeAgeing(buildSupplierLedger(supplier.id, transactions, payments));
+      overdue[supplier.id] = buckets['31-60'] + buckets['61-90'] + buckets['90+'];
+    });
+    return overdue;
+  }, [suppliers, transactions, payments]);
+
+  const openSupplier = (supplierId: string) => {
+    setSelectedId(supplierId);
+    setLeadTime(suppliers.find(s => s.id === supplierId)?.lead_time_days ?? '');
+    setAmount('');
+    setPaidOn(today);
+    setReference('');
+  };
+
+  const handleRecordPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected || amount === '' || amount <= 0) return;
+    setIsSaving(true);
+    const ok = await onRecordPayment(selected.id, { amount: Number(amount), paidOn, reference: reference.trim() });
+    setIsSaving(false);
+    if (ok) {
+      setAmount('');
+      setReference('');
+    }
+  };
+
+  // Cleared means the default lead time applies
+  const handleSaveLeadTime = async () => {
+    if (!selected || (leadTime !== '' && leadTime < 0)) return;
+    setIsSaving(true);
+    await onUpdateLeadTime(selected.id, leadTime === '' ? null : Math.round(leadTime));
+    setIsSaving(false);
+  };
+
+  // Archived suppliers keep their ledger; they come back from Settings > Archive or when bought from again.
+  const handleArchive = async () => {
+    if (!selected || !window.confirm(`Archive ${selected.name}? They will be hidden from this list, and their purchases and payments are kept.`)) return;
+    setIsSaving(true);
+    const ok = await onArchive(selected.id);
+    setIsSaving(false);
+    if (ok) setSelectedId(null);
+  };
+
+  const handlePrintStatement = () => {
+    if (!selected || statementStart > statementEnd) return;
+    const statement = buildStatement(selected, ledger, new Date(statementStart + 'T00:00:00'), new Date(statementEnd + 'T00:00:00'));
+    printSupplierStatement(teamName, statement);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-start justify-center z-50 p-4 pt-20" onClick={onClose}>
+      <div className="bg-bg-secondary rounded-lg shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col border border-border-primary animate-fade-in" onClick={e => e.stopPropagation()}>
+        <div className="p-4 flex items-center justify-between flex-shrink-0">
+          {selected ? (
+            <button onClick={() => setSelectedId(null)} className="text-lg font-bold text-white flex items-center gap-2 hover:text-accent-secondary"><ChevronLeft size={20}/> {selected.name}</button>
+          ) : (
+            <h3 className="text-lg font-bold text-white flex items-center gap-2"><TruckIcon size={20} className="text-accent-secondary"/> Supplier Balances</h3>
+          )}
+          <button onClick={onClose} className="text-text-secondary hover:text-white"><X size={20}/></button>
+        </div>
+
+        {!selected ? (
+          <div className="p-4 border-t border-border-primary overflow-y-auto">
+            <div className="space-y-2">
+              {suppliers.map(supplier => (
+                <button key={supplier.id} onClick={() => openSupplier(supplier.id)} className="w-full flex items-center justify-between p-3 bg-bg-primary rounded-md hover:bg-border-primary transition-colors text-left">
+                  <div>
+                    <p className="font-semibold text-white">{supplier.name}</p>
+                    {overdueBySupplier[supplier.id] > 0 && <p className="text-xs text-warning">{formatRand(overdueBySupplier[supplier.id])} older than 30 days</p>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <p className="font-bold text-lg text-green-400">{formatRand(supplier.balance)}</p>
+                    <ChevronRight size={18} className="text-text-secondary"/>
+                  </div>
+                </button>
+              ))}
+              {suppliers.length === 0 && <p className="text-text-secondary text-center py-8">No suppliers found. Add items on credit to create suppliers.</p>}
+            </div>
+          </div>
+        ) : (
+          <div className="p-4 border-t border-border-primary overflow-y-auto space-y-4">
+            <div className="flex items-baseline justify-between">
+              <p className="text-text-secondary">Balance owed</p>
+              <p className="font-bold text-2xl text-green-400">{formatRand(selected.balance)}</p>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {AGEING_BUCKETS.map(bucket => (
+                <div key={bucket.key} className="bg-bg-primary rounded-md p-3">
+                  <p className="text-xs text-text-secondary">{bucket.label}</p>
+                  <p className={`font-bold ${bucket.key !== 'current' && ageing[bucket.key] > 0 ? 'text-warning' : 'text-white'}`}>{formatRand(ageing[bucket.key])}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="bg-bg-primary rounded-md p-3 flex flex-wrap items-end gap-3">
+              <div>
+                <label className="text-sm font-medium text-text-secondary block mb-1">Lead Time (days)</label>
+                <input type="number" min="0" step="1" value={leadTime} onChange={e => setLeadTime(e.target.value === '' ? '' : Number(e.target.value))} disabled={!can('suppliers.manage')} placeholder={`${DEFAULT_LEAD_TIME_DAYS} (default)`} className="w-40 bg-bg-secondary border border-border-primary rounded-md p-2 text-white focus:ring-2 focus:ring-accent-primary outline-none disabled:opacity-60" />
+              </div>
+              {can('suppliers.manage') && (leadTime === '' ? null : leadTime) !== (selected.lead_time_days ?? null) && (
+                <button onClick={handleSaveLeadTime} disabled={isSaving} className="px-4 py-2 rounded-md bg-accent-primary hover:bg-purple-700 text-white font-semibold disabled:bg-border-primary">Save</button>
+              )}
+              <p className="text-xs text-text-secondary flex-1 min-w-[12rem]">Used for reorder suggestions on items bought from this supplier.</p>
+            </div>
+
+            {can('suppliers.manage') && (
+              <form onSubmit={handleRecordPayment} className="bg-bg-primary rounded-md p-3 space-y-3">
+                <p className="font-semibold text-white flex items-center gap-2"><Wallet size={16} className="text-accent-secondary"/> Record Payment</p>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  <div>
+                    <label className="text-sm font-medium text-text-secondary block mb-1">Amount (R)</label>
+                    <div className="flex gap-1">
+                      <input type="number" min="0.01" step="0.01" max={selected.balance > 0 ? selected.balance : undefined} value={amount} onChange={e => setAmount(e.target.value === '' ? '' : Number(e.target.value))} required className="w-full bg-bg-secondary border border-border-primary rounded-md p-2 text-white focus:ring-2 focus:ring-accent-primary outline-none" />
+                      {selected.balance > 0 && <button type="button" onClick={() => setAmount(Number(selected.balance.toFixed(2)))} className="px-2 text-xs rounded-md bg-border-primary hover:bg-gray-700 text-white font-semibold whitespace-nowrap">Full</button>}
+                    </div>
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium text-text-secondary block mb-1">Paid On</label>
+                    <input type="date" value={paidOn} max={today} onChange={e => setPaidOn(e.target.value)} required className="w-full bg-bg-secondary border border-border-primary rounded-md p-2 text-white" />
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium text-text-secondary block mb-1">Reference</label>
+                    <input type="text" value={reference} onChange={e => setReference(e.target.value)} placeholder="e.g., EFT 10234" className="w-full bg-bg-secondary border border-border-primary rounded-md p-2 text-white focus:ring-2 focus:ring-accent-primary outline-none" />
+                  </div>
+                </div>
+                <div className="flex justify-end">
+                  <button type="submit" disabled={isSaving || amount === '' || amount <= 0} className="px-4 py-2 rounded-md bg-success hover:bg-green-700 text-white font-semibold disabled:bg-border-primary disabled:cursor-not-allowed flex items-center justify-center">
+                    {isSaving ? <Loader size={20} className="animate-spin"/> : 'Save Payment'}
+                  </button>
+                </div>
+              </form>
+            )}
+
+            <div className="bg-bg-primary rounded-md p-3 flex flex-wrap items-end gap-3">
+              <div>
+                <label className="text-sm font-medium text-text-secondary block mb-1">Statement From</label>
+                <input type="date" value={statementStart} max={statementEnd} onChange={e => setStatementStart(e.target.value)} className="bg-bg-secondary border border-border-primary rounded-md p-2 text-white" />
+              </div>
+              <div>
+                <label className="text-sm font-medium text-text-secondary block mb-1">To</label>
+                <input type="date" value={statementEnd} min={statementStart} onChange={e => setStatementEnd(e.target.value)} className="bg-bg-secondary border border-border-primary rounded-md p-2 text-white" />
+              </div>
+              <button onClick={handlePrintStatement} disabled={statementStart > statementEnd} className="px-4 py-2 rounded-md bg-accent-primary hover:bg-purple-700 text-white font-semibold disabled:bg-border-primary disabled:cursor-not-allowed flex items-center gap-2"><Printer size={16}/> Print Statement</button>
+            </div>
+
+            <table className="w-full text-left text-sm text-text-primary">
+              <thead className="bg-bg-primary"><tr><th className="p-2">Date</th><th className="p-2">Description</th><th className="p-2 text-right">Charges</th><th className="p-2 text-right">Payments</th><th className="p-2 text-right">Balance</th></tr></thead>
+              <tbody>
+                {ledger.map(entry => (
+                  <tr key={`${entry.kind}-${entry.id}`} className="border-b border-border-primary">
+                    <td className="p-2 whitespace-nowrap text-text-secondary">{entry.date.toLocaleDateString()}</td>
+                    <td className="p-2 text-white">{entry.description}</td>
+                    <td className="p-2 text-right">{entry.charge ? formatRand(entry.charge) : ''}</td>
+                    <td className="p-2 text-right text-green-400">{entry.payment ? formatRand(entry.payment) : ''}</td>
+                    <td className="p-2 text-right font-semibold text-white">{formatRand(entry.balance)}</td>
+                  </tr>
+                ))}
+                {ledger.length === 0 && <tr><td colSpan={5} className="text-center p-8 text-text-secondary">No purchases or payments yet.</td></tr>}
+              </tbody>
+            </table>
+
+            {can('suppliers.manage') && (
+              <div className="flex justify-end">
+                <button onClick={handleArchive} disabled={isSaving} className="px-4 py-2 rounded-md bg-bg-primary hover:bg-danger/20 text-text-secondary hover:text-danger font-semibold flex items-center gap-2 disabled:opacity-60"><Archive size={16}/> Archive Supplier</button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SuppliersModal;
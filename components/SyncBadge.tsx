@@ -0,0 +1,22 @@
+import React from 'react';
+import { CloudOff, Check } from 'lucide-react';
+import { SyncState } from '../offlineQueue';
+
+// Marks a row whose edits are queued on this device, or were just replayed to the server.
+const SyncBadge: React.FC<{ state?: SyncState }> = ({ state }) => {
+  if (!state) return null;
+  if (state === 'pending') {
+    return (
+      <span title="Saved on this device. It will sync when you're back online." className="inline-flex items-center gap-1 text-xs font-semibold px-1.5 py-0.5 rounded-full bg-warning/20 text-warning whitespace-nowrap">
+        <CloudOff size={10}/> Pending
+      </span>
+    );
+  }
+  return (
+    <span title="Synced" className="inline-flex items-center gap-1 text-xs font-semibold px-1.5 py-0.5 rounded-full bg-success/20 text-green-400 whitespace-nowrap animate-fade-in">
+      <Check size={10}/> Synced
+    </span>
+  );
+};
+
+export default SyncBadge;
@@ -0,0 +1,97 @@
+import React, { useState, useMemo } from 'react';
+import { StockItem, StockLevel, StockLocation } from '../types';
+import { countsAtLocation, remainingAtLocation } from '../locations';
+import { parseQuantity, describeUnits, baseUnitOf, pluralizeUnit } from '../units';
+import { X, Loader, ArrowRightLeft } from 'lucide-react';
+
+interface TransferStockModalProps {
+  stockItems: StockItem[];
+  locations: StockLocation[];
+  levels: StockLevel[];
+  initialFromId?: string | null;
+  onTransfer: (itemId: string, fromId: string, toId: string, quantity: number) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-bg-primary border border-border-primary rounded-md p-2 text-white focus:ring-2 focus:ring-accent-primary outline-none';
+
+const TransferStockModal: React.FC<TransferStockModalProps> = ({ stockItems, locations, levels, initialFromId, onTransfer, onClose }) => {
+  const [itemId, setItemId] = useState('');
+  const [fromId, setFromId] = useState(initialFromId || locations.find(l => l.is_default)?.id || '');
+  const [toId, setToId] = useState('');
+  const [quantityText, setQuantityText] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const item = stockItems.find(i => i.id === itemId) || null;
+  const from = locations.find(l => l.id === fromId) || null;
+  const available = item && from ? remainingAtLocation(countsAtLocation(item, from, levels)) : null;
+  const parsed = useMemo(() => item && quantityText.trim() ? parseQuantity(quantityText, item) : null, [item, quantityText]);
+  const quantity = parsed && 'value' in parsed ? parsed.value : null;
+
+  const error = parsed && 'error' in parsed
+    ? parsed.error
+    : quantity !== null && available !== null && quantity > available
+      ? `Only ${available.toLocaleString()} available at ${from!.name}.`
+      : null;
+  const canSubmit = !!item && !!fromId && !!toId && fromId !== toId && quantity !== null && quantity > 0 && !error;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    setIsSaving(true);
+    const ok = await onTransfer(itemId, fromId, toId, quantity!);
+    setIsSaving(false);
+    if (ok) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-bg-secondary rounded-lg shadow-2xl w-full max-w-md border border-border-primary animate-fade-in" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-4 border-b border-border-primary">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2"><ArrowRightLeft size={20} className="text-accent-secondary"/> Transfer Stock</h3>
+          <button onClick={onClose} className="text-text-secondary hover:text-white"><X size={20}/></button>
+        </div>
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label className="text-sm font-medium text-text-secondary block mb-1">Item</label>
+            <select value={itemId} onChange={e => setItemId(e.target.value)} required className={inputClass}>
+              <option value="">Select an item...</option>
+              {stockItems.map(i => <option key={i.id} value={i.id}>{i.name}</option>)}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium text-text-secondary block mb-1">From</label>
+              <select value={fromId} onChange={e => setFromId(e.target.value)} required className={inputClass}>
+                {locations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="text-sm font-medium text-text-secondary block mb-1">To</label>
+              <select value={toId} onChange={e => setToId(e.target.value)} required className={inputClass}>
+                <option value="">Select...</option>
+                {locations.filter(l => l.id !== fromId).map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className="text-sm font-medium text-text-secondary block mb-1">Quantity</label>
+            <input type="text" value={quantityText} onChange={e => setQuantityText(e.target.value)} disabled={!item} placeholder={item?.units?.length ? 'e.g., 2 pallets + 40' : 'e.g., 200'} className={inputClass} />
+            {item && (
+              <p className={`text-xs mt-1 ${error ? 'text-danger' : 'text-text-secondary'}`}>
+                {error || `${available !== null ? `${available.toLocaleString()} ${pluralizeUnit(baseUnitOf(item), available)} at ${from?.name}` : ''}${item.units?.length ? ` · ${describeUnits(item)}` : ''}`}
+              </p>
+            )}
+          </div>
+          <div className="flex justify-end pt-2">
+            <button type="submit" disabled={isSaving || !canSubmit} className="px-4 py-2 rounded-md bg-accent-primary hover:bg-purple-700 text-white font-semibold disabled:bg-border-primary disabled:cursor-not-allowed flex items-center justify-center">
+              {isSaving ? <Loader size={20} className="animate-spin"/> : 'Transfer'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default TransferStockModal;
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { ValuationMethod } from '../types';
+import { ValuationReportRow, VALUATION_METHOD_LABELS, printValuationReport } from '../valuation';
+import { X, Printer, Layers, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface ValuationModalProps {
+  teamName: string;
+  method: ValuationMethod;
+  rows: ValuationReportRow[];
+  onClose: () => void;
+}
+
+const formatRand = (value: number) => `R${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const ValuationModal: React.FC<ValuationModalProps> = ({ teamName, method, rows, onClose }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const total = rows.reduce((sum, row) => sum + row.valuation.value, 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-start justify-center z-50 p-4 pt-20" onClick={onClose}>
+      <div className="bg-bg-secondary rounded-lg shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col border border-border-primary animate-fade-in" onClick={e => e.stopPropagation()}>
+        <div className="p-4 flex items-center justify-between flex-shrink-0">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2"><Layers size={20} className="text-accent-secondary"/> Stock Valuation</h3>
+          <div className="flex items-center gap-2">
+            <button onClick={() => printValuationReport(teamName, method, rows)} className="p-2 text-text-secondary hover:text-white" title="Print"><Printer size={18}/></button>
+            <button onClick={onClose} className="text-text-secondary hover:text-white"><X size={20}/></button>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-border-primary overflow-y-auto space-y-3">
+          <div className="flex items-baseline justify-between">
+            <p className="text-text-secondary">Valued by <strong className="text-white">{VALUATION_METHOD_LABELS[method]}</strong></p>
+            <p className="font-bold text-2xl text-green-400">{formatRand(total)}</p>
+          </div>
+
+          <table className="w-full text-left text-sm text-text-primary">
+            <thead className="bg-bg-primary"><tr><th className="p-2">Item</th><th className="p-2 text-right">On Hand</th><th className="p-2 text-right">Unit Cost</th><th className="p-2 text-right">Value</th></tr></thead>
+            <tbody>
+              {rows.map(({ item, remaining, valuation }) => {
+                const isExpanded = expandedId === item.id;
+                return (
+                  <React.Fragment key={item.id}>
+                    <tr className="border-b border-border-primary cursor-pointer hover:bg-bg-primary" onClick={() => setExpandedId(isExpanded ? null : item.id)}>
+                      <td className="p-2 text-white">
+                        <span className="flex items-center gap-1">{isExpanded ? <ChevronDown size={14}/> : <ChevronRight size={14}/>} {item.name}</span>
+                      </td>
+                      <td className="p-2 text-right">{remaining.toLocaleString()}</td>
+                      <td className="p-2 text-right">{formatRand(valuation.unitCost)}</td>
+                      <td className="p-2 text-right font-semibold text-white">{formatRand(valuation.value)}</td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="border-b border-border-primary bg-bg-primary">
+                        <td colSpan={4} className="p-2 pl-8">
+                          {valuation.layersOnHand.length === 0 ? (
+                            <p className="text-text-secondary">No receipts recorded yet; valued at the item's price.</p>
+                          ) : (
+                            <table className="w-full text-xs">
+                              <thead className="text-text-secondary"><tr><th className="py-1">Received</th><th className="py-1 text-right">On Hand</th><th className="py-1 text-right">Cost</th><th className="py-1 text-right">Value</th></tr></thead>
+                              <tbody>
+                                {valuation.layersOnHand.map(({ layer, onHand }) => (
+                                  <tr key={layer.id}>
+                                    <td className="py-1">{new Date(layer.received_at).toLocaleDateString()}{layer.source === 'opening' && <span className="text-text-secondary"> (opening stock)</span>}</td>
+                                    <td className="py-1 text-right">{onHand.toLocaleString()} of {layer.quantity.toLocaleString()}</td>
+                                    <td className="py-1 text-right">{formatRand(layer.unit_cost)}</td>
+                                    <td className="py-1 text-right">{formatRand(onHand * layer.unit_cost)}</td>
+                                  </tr>
+                                ))}
+                                {valuation.unlayered > 0 && (
+                                  <tr className="text-text-secondary"><td className="py-1">Not matched to a receipt</td><td className="py-1 text-right">{valuation.unlayered.toLocaleString()}</td><td></td><td></td></tr>
+                                )}
+                              </tbody>
+                            </table>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+              {rows.length === 0 && <tr><td colSpan={4} className="text-center p-8 text-text-secondary">No stock items yet.</td></tr>}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ValuationModal;
@@ -0,0 +1,226 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Mic, Loader, Send, X } from 'lucide-react';
+import { normalizeNumberWords } from '../numberWords';
+import { VOICE_LANGUAGE_STORAGE_KEY } from '../constants';
+
+// The Web Speech API isn't in TypeScript's DOM types; these are the parts used here.
+interface SpeechRecognitionLike {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: { results: ArrayLike<ArrayLike<{ transcript: string }>> }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+const speechRecognition = (): (new () => SpeechRecognitionLike) | null => {
+  const w = window as unknown as { SpeechRecognition?: new () => SpeechRecognitionLike; webkitSpeechRecognition?: new () => SpeechRecognitionLike };
+  return w.SpeechRecognition || w.webkitSpeechRecognition || null;
+};
+
+const canRecordAudio = () => typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+type VoiceLanguage = 'en-ZA' | 'af-ZA';
+
+// The language last picked on the toggle; before that, Afrikaans when the device is set to it.
+// Speech recognition only understands the one language it's given, so a worker speaking
+// Afrikaans on an English phone needs to be able to switch it.
+const initialLanguage = (): VoiceLanguage => {
+  const saved = localStorage.getItem(VOICE_LANGUAGE_STORAGE_KEY);
+  if (saved === 'en-ZA' || saved === 'af-ZA') return saved;
+  return navigator.language.toLowerCase().startsWith('af') ? 'af-ZA' : 'en-ZA';
+};
+
+interface VoiceCommandProps {
+  onCommand: (command: string) => void;
+  onTranscribeAudio?: (audio: Blob) => Promise<string | null>; // Used where the browser can't recognise speech itself
+  disabled: boolean;
+  className: string; // Places the mic and language toggle inside the command bar
+}
+
+// Push-to-talk: hold the mic, speak, let go. The transcript is shown for correction before it's sent.
+const VoiceCommand: React.FC<VoiceCommandProps> = ({ onCommand, onTranscribeAudio, disabled, className }) => {
+  const [status, setStatus] = useState<'idle' | 'listening' | 'transcribing'>('idle');
+  const [transcript, setTranscript] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [language, setLanguage] = useState<VoiceLanguage>(initialLanguage);
+  const recognitionRef = useRef<SpeechRecognitionLike | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const heardRef = useRef('');
+  const releasedRef = useRef(false);
+
+  const Recognition = speechRecognition();
+  const canUseRecorder = !!onTranscribeAudio && canRecordAudio();
+
+  // Leaving the page mid-recording drops what was said and releases the microphone
+  useEffect(() => () => {
+    const recognition = recognitionRef.current;
+    if (recognition) {
+      recognition.onend = null;
+      recognition.abort();
+    }
+    const recorder = recorderRef.current;
+    if (recorder) {
+      recorder.onstop = null;
+      if (recorder.state === 'recording') recorder.stop();
+      recorder.stream.getTracks().forEach(track => track.stop());
+    }
+  }, []);
+
+  if (!Recognition && !canUseRecorder) return null;
+
+  const finish = (text: string | null) => {
+    setStatus('idle');
+    const normalized = normalizeNumberWords(text || '');
+    if (normalized) setTranscript(normalized);
+    else setError("Didn't catch that. Hold the mic and speak again.");
+  };
+
+  const startRecognition = (SpeechRecognition: new () => SpeechRecognitionLike) => {
+    const recognition = new SpeechRecognition();
+    recognition.lang = language;
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    heardRef.current = '';
+    recognition.onresult = event => {
+      heardRef.current = Array.from(event.results).map(result => result[0].transcript).join(' ');
+    };
+    recognition.onerror = event => {
+      if (event.error === 'not-allowed' || event.error === 'service-not-allowed') setError('Microphone access is blocked. Allow it in your browser settings to use voice commands.');
+    };
+    recognition.onend = () => {
+      recognitionRef.current = null;
+      if (heardRef.current.trim()) return finish(heardRef.current);
+      setStatus('idle');
+      setError(prev => prev || "Didn't catch that. Hold the mic and speak again.");
+    };
+    recognitionRef.current = recognition;
+    recognition.start();
+  };
+
+  const startRecording = async () => {
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (err) {
+      console.error("Microphone error:", err);
+      setError('Microphone access is blocked. Allow it in your browser settings to use voice commands.');
+      setStatus('idle');
+      return;
+    }
+    // Let go before the microphone was ready
+    if (releasedRef.current) {
+      stream.getTracks().forEach(track => track.stop());
+      setStatus('idle');
+      return;
+    }
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = event => { if (event.data.size > 0) chunks.push(event.data); };
+    recorder.onstop = async () => {
+      stream.getTracks().forEach(track => track.stop());
+      recorderRef.current = null;
+      if (chunks.length === 0) {
+        setStatus('idle');
+        return;
+      }
+      setStatus('transcribing');
+      finish(await onTranscribeAudio!(new Blob(chunks, { type: recorder.mimeType })));
+    };
+    recorderRef.current = recorder;
+    recorder.start();
+  };
+
+  const handlePress = (e: React.PointerEvent<HTMLButtonElement>) => {
+    if (disabled || status !== 'idle') return;
+    // Keep the release on this button even if a gloved finger slides off it
+    e.currentTarget.setPointerCapture(e.pointerId);
+    releasedRef.current = false;
+    setError(null);
+    setTranscript(null);
+    setStatus('listening');
+    if (Recognition) startRecognition(Recognition);
+    else startRecording();
+  };
+
+  const handleRelease = () => {
+    releasedRef.current = true;
+    recognitionRef.current?.stop();
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+  };
+
+  const toggleLanguage = () => {
+    const next = language === 'af-ZA' ? 'en-ZA' : 'af-ZA';
+    localStorage.setItem(VOICE_LANGUAGE_STORAGE_KEY, next);
+    setLanguage(next);
+  };
+
+  const send = () => {
+    if (!transcript?.trim()) return;
+    onCommand(transcript.trim());
+    setTranscript(null);
+  };
+
+  return (
+    <>
+      <div className={`${className} flex items-center gap-1`}>
+        {/* Gemini transcription hears both languages; only the browser's recognition needs telling */}
+        {Recognition && (
+          <button
+            type="button"
+            title={language === 'af-ZA' ? 'Listening for Afrikaans. Tap for English.' : 'Listening for English. Tap for Afrikaans.'}
+            onClick={toggleLanguage}
+            disabled={disabled || status !== 'idle'}
+            className="px-1 py-1.5 rounded-md text-xs font-semibold text-text-secondary hover:text-white disabled:cursor-not-allowed"
+          >
+            {language === 'af-ZA' ? 'AF' : 'EN'}
+          </button>
+        )}
+        <button
+          type="button"
+          title="Hold to talk"
+          onPointerDown={handlePress}
+          onPointerUp={handleRelease}
+          onPointerCancel={handleRelease}
+          onContextMenu={e => e.preventDefault()}
+          disabled={disabled || status === 'transcribing'}
+          className={`flex items-center justify-center p-1.5 rounded-md text-white transition-colors select-none touch-none disabled:cursor-not-allowed ${status === 'listening' ? 'bg-danger animate-pulse' : 'bg-border-primary hover:bg-gray-700'}`}
+        >
+          {status === 'transcribing' ? <Loader size={18} className="animate-spin" /> : <Mic size={18} />}
+        </button>
+      </div>
+      {(transcript !== null || error) && (
+        <div className="absolute left-0 right-0 top-full mt-1 z-20 bg-bg-secondary border border-border-primary rounded-md shadow-2xl p-2 space-y-2">
+          {error ? (
+            <div className="flex items-center justify-between gap-2 text-sm text-warning">
+              <span>{error}</span>
+              <button type="button" onClick={() => setError(null)} className="text-text-secondary hover:text-white"><X size={16}/></button>
+            </div>
+          ) : (
+            <>
+              <p className="text-xs text-text-secondary">Heard this. Correct it if needed, then send.</p>
+              <div className="flex items-center gap-2">
+                {/* Inside the command bar's form, so Enter is handled here rather than submitting it */}
+                <input
+                  type="text"
+                  value={transcript || ''}
+                  onChange={e => setTranscript(e.target.value)}
+                  onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); send(); } }}
+                  autoFocus
+                  className="flex-grow bg-bg-primary border border-border-primary rounded-md p-2 text-white focus:ring-2 focus:ring-accent-primary outline-none"
+                />
+                <button type="button" onClick={send} disabled={!transcript?.trim()} title="Send Command" className="p-2 rounded-md bg-accent-primary hover:bg-purple-700 text-white disabled:bg-border-primary disabled:cursor-not-allowed"><Send size={18}/></button>
+                <button type="button" onClick={() => setTranscript(null)} title="Discard" className="p-2 rounded-md bg-border-primary hover:bg-gray-700 text-white"><X size={18}/></button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default VoiceCommand;
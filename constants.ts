@@ -1,4 +1,4 @@
-import { StockItem, ActivityLogEntry, Supplier, CreditTransaction, TeamMember, BinStockData, BinCounts, BinTypeName, BinTypeDefinition } from './types';
+import { StockItem, EditableStockItemKey, ActivityLogEntry, Supplier, CreditTransaction, TeamMember, BinStockData, BinCounts, BinTypeName, BinTypeDefinition } from './types';
 
 export const INITIAL_STOCK_DATA: Omit<StockItem, 'id'>[] = [
   { name: '1.5kg Narjie boxes', category: 'Deons', opening_stock: 0, added_today: 100, packed: 0, lost: 0, alert_level: 100, price: 2, color: '#10B981' },
@@ -108,4 +108,66 @@ export const EMPTY_BIN_STOCK_DATA: BinStockData = {
         nowTotal: {},
     },
     ourBins: {},
-};
\ No newline at end of file
+};
+
+// --- Teams ---
+// The last team picked in the Header switcher, restored on the next visit.
+export const ACTIVE_TEAM_STORAGE_KEY = 'intellectory.activeTeamId';
+
+// --- Realtime ---
+// How long an item changed by a teammate stays highlighted in the inventory table.
+export const REMOTE_CHANGE_HIGHLIGHT_MS = 4000;
+
+// --- Team Invitations ---
+export const INVITATION_TTL_DAYS = 7;
+// An invite token from an `?invite=` link is kept here until the user has signed in and accepted it.
+export const INVITE_TOKEN_STORAGE_KEY = 'intellectory.inviteToken';
+
+// --- Offline Queue ---
+// How long a row keeps its "Synced" badge after its queued edits are replayed.
+export const SYNCED_BADGE_MS = 3000;
+// How long to wait before replaying again when the connection drops partway through a replay.
+export const REPLAY_RETRY_MS = 15000;
+
+// --- New Day ---
+// Used until a team picks its own timezone for the automatic rollover.
+export const DEFAULT_ROLLOVER_TIMEZONE = 'Africa/Johannesburg';
+export const DEFAULT_ROLLOVER_TIME = '00:00';
+
+// --- Reordering ---
+// Days of closing snapshots used to average each item's daily usage (packed + lost).
+export const USAGE_HISTORY_DAYS = 28;
+// Assumed delivery time for suppliers that don't have their own lead time set.
+export const DEFAULT_LEAD_TIME_DAYS = 3;
+// A reorder should cover usage until the next review, on top of the lead time.
+export const REORDER_REVIEW_DAYS = 7;
+
+// --- Stock Counts ---
+// A counted variance this large needs a Manager's approval before it's posted: either
+// worth at least this many Rand, or at least this share of the system quantity.
+export const COUNT_APPROVAL_VALUE = 500;
+export const COUNT_APPROVAL_SHARE = 0.1;
+
+// --- Undo ---
+// Workers can undo their own changes for this long; Managers and Owners can undo anyone's
+// for the longer window. Stock changes also can't be undone once New Day has run since.
+export const UNDO_WINDOW_WORKER_MINUTES = 15;
+export const UNDO_WINDOW_MANAGER_HOURS = 24;
+
+// --- Voice Commands ---
+// The language picked on the mic's EN/AF toggle, kept per device.
+export const VOICE_LANGUAGE_STORAGE_KEY = 'intellectory.voiceLanguage';
+
+// --- Export ---
+// Rows fetched per request when exporting the activity log; Supabase returns at most 1000 per request.
+export const EXPORT_PAGE_SIZE = 1000;
+
+// --- Stock Fields ---
+export const FIELD_LABELS: Record<EditableStockItemKey, string> = {
+  opening_stock: 'Opening Stock',
+  added_today: 'Added Today',
+  packed: 'Packed',
+  lost: 'Lost',
+  alert_level: 'Alert Level',
+  price: 'Price',
+};
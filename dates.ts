@@ -0,0 +1,21 @@
+// Dates are keyed as YYYY-MM-DD, matching <input type="date">. Keys are built from the local
+// calendar date: toISOString() gives the UTC date, which is still yesterday in South Africa
+// between midnight and 02:00.
+export const localDateKey = (date: Date = new Date()): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// The business day a moment belongs to, mirroring stock_business_date in the database: the
+// date in the team's timezone of the last minute before its next rollover. With an 18:00
+// rollover, 19:30 already counts as tomorrow.
+export const businessDateKey = (at: Date, rolloverTime: string, timeZone: string): string => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-GB', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' })
+      .formatToParts(at).map(part => [part.type, part.value])
+  );
+  const [rolloverHour, rolloverMinute] = rolloverTime.split(':').map(Number);
+  const minutes = Number(parts.hour) * 60 + Number(parts.minute);
+  // Calendar arithmetic in UTC, so the local day being a DST day doesn't shift it
+  const day = new Date(Date.UTC(Number(parts.year), Number(parts.month) - 1, Number(parts.day)));
+  if (minutes >= rolloverHour * 60 + rolloverMinute && rolloverHour * 60 + rolloverMinute > 0) day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString().slice(0, 10);
+};
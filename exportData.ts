@@ -0,0 +1,157 @@
+import { StockItem, ActivityLogEntry, Supplier, CreditTransaction, SupplierPayment, BinStockData } from './types';
+import { localDateKey } from './dates';
+
+// A flat sheet of rows, used for both CSV files and XLSX worksheets.
+export interface ExportSheet {
+  name: string;
+  rows: Record<string, string | number>[];
+}
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+type EnhancedStockItem = StockItem & { used: number; remaining: number; stockValue: number };
+
+export const buildStockSheet = (items: EnhancedStockItem[]): ExportSheet => ({
+  name: 'Stock Items',
+  rows: items.map(item => ({
+    Name: item.name,
+    Category: item.category || '',
+    'Opening Stock': item.opening_stock,
+    'Added Today': item.added_today,
+    Packed: item.packed,
+    Lost: item.lost,
+    Used: item.used,
+    Remaining: item.remaining,
+    'Alert Level': item.alert_level,
+    'Unit Price (R)': item.price,
+    'Stock Value (R)': Number(item.stockValue.toFixed(2)),
+  })),
+});
+
+export const buildActivitySheet = (log: ActivityLogEntry[]): ExportSheet => ({
+  name: 'Activity Log',
+  rows: log.map(entry => ({
+    Timestamp: new Date(entry.timestamp).toLocaleString(),
+    User: entry.users?.full_name || 'System',
+    Item: entry.item_name,
+    Action: entry.change_description,
+    Field: entry.event?.field || '',
+    'Old Value': entry.event?.old_value ?? '',
+    'New Value': entry.event?.new_value ?? '',
+    Delta: entry.event?.delta ?? '',
+    Source: entry.event?.source || '',
+  })),
+});
+
+export const buildSupplierSheets = (suppliers: Supplier[], transactions: CreditTransaction[], payments: SupplierPayment[]): ExportSheet[] => {
+  const supplierNames = new Map(suppliers.map(s => [s.id, s.name]));
+  return [
+    {
+      name: 'Supplier Balances',
+      rows: suppliers.map(s => ({ Supplier: s.name, 'Balance (R)': s.balance })),
+    },
+    {
+      name: 'Credit Transactions',
+      rows: [...transactions]
+        .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+        .map(t => ({
+          Date: t.timestamp ? new Date(t.timestamp).toLocaleString() : '',
+          Supplier: supplierNames.get(t.supplier_id) || 'Unknown Supplier',
+          Item: t.stock_item_name,
+          Quantity: t.quantity,
+          'Total Value (R)': t.total_value,
+        })),
+    },
+    {
+      name: 'Supplier Payments',
+      rows: [...payments]
+        .sort((a, b) => a.paid_on.localeCompare(b.paid_on))
+        .map(p => ({
+          Date: p.paid_on,
+          Supplier: supplierNames.get(p.supplier_id) || 'Unknown Supplier',
+          Reference: p.reference,
+          'Amount (R)': p.amount,
+        })),
+    },
+  ];
+};
+
+// Positive balances are bins owed to us, negative balances are bins we owe.
+export const buildBinBalanceSheet = (data: BinStockData): ExportSheet => {
+  const columns = [...data.binTypes.filter(b => b.category === 'standard'), ...data.customBinTypes];
+  const parties = new Map<string, { name: string; balances: Record<string, number> }>();
+
+  data.owedToUs.forEach(party => {
+    const entry = parties.get(party.id) || { name: party.name, balances: {} };
+    Object.entries(party.bins).forEach(([binId, qty]) => { entry.balances[binId] = (entry.balances[binId] || 0) + (Number(qty) || 0); });
+    parties.set(party.id, entry);
+  });
+  data.weOwe.forEach(party => {
+    const entry = parties.get(party.id) || { name: party.name, balances: {} };
+    Object.entries(party.bins).forEach(([binId, qty]) => { entry.balances[binId] = (entry.balances[binId] || 0) - (Number(qty) || 0); });
+    parties.set(party.id, entry);
+  });
+
+  return {
+    name: 'Bin Balances',
+    rows: Array.from(parties.values())
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(party => {
+        const row: Record<string, string | number> = { Party: party.name };
+        columns.forEach(bin => { row[bin.name] = party.balances[bin.id] || 0; });
+        return row;
+      }),
+  };
+};
+
+const escapeCsvValue = (value: string | number): string => {
+  const str = String(value ?? '');
+  return /[",\n\r]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+export const toCsv = (rows: Record<string, string | number>[]): string => {
+  if (rows.length === 0) return '';
+  const headers = Object.keys(rows[0]);
+  const lines = [headers.map(escapeCsvValue).join(',')];
+  rows.forEach(row => lines.push(headers.map(h => escapeCsvValue(row[h])).join(',')));
+  return lines.join('\r\n');
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const slugify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+// CSV writes one file per sheet; XLSX writes a single workbook with one worksheet per sheet.
+export const downloadSheets = async (sheets: ExportSheet[], format: ExportFormat, filePrefix: string) => {
+  const stamp = localDateKey();
+  const prefix = slugify(filePrefix) || 'intellectory';
+
+  if (format === 'csv') {
+    sheets.forEach(sheet => {
+      // Prepend a BOM so Excel opens the file as UTF-8
+      const blob = new Blob(['\uFEFF' + toCsv(sheet.rows)], { type: 'text/csv;charset=utf-8' });
+      downloadBlob(blob, `${prefix}-${slugify(sheet.name)}-${stamp}.csv`);
+    });
+    return;
+  }
+
+  // Loaded on demand so the spreadsheet library stays out of the main bundle
+  const { default: writeXlsxFile } = await import('write-excel-file/browser');
+  const workbook = writeXlsxFile(sheets.map(sheet => {
+    const headers = sheet.rows.length > 0 ? Object.keys(sheet.rows[0]) : [];
+    return {
+      sheet: sheet.name.slice(0, 31), // Worksheet names are limited to 31 characters
+      data: sheet.rows.length > 0 ? [headers, ...sheet.rows.map(row => headers.map(h => row[h]))] : [],
+    };
+  }));
+  downloadBlob(await workbook.toBlob(), `${prefix}-${stamp}.xlsx`);
+};
@@ -0,0 +1,37 @@
+// --- LEVENSHTEIN DISTANCE HELPER ---
+export const levenshteinDistance = (a: string, b: string): number => {
+    const aLower = a.toLowerCase();
+    const bLower = b.toLowerCase();
+    const matrix = Array(bLower.length + 1).fill(null).map(() => Array(aLower.length + 1).fill(null));
+    for (let i = 0; i <= aLower.length; i++) { matrix[0][i] = i; }
+    for (let j = 0; j <= bLower.length; j++) { matrix[j][0] = j; }
+    for (let j = 1; j <= bLower.length; j++) {
+        for (let i = 1; i <= aLower.length; i++) {
+            const indicator = aLower[i - 1] === bLower[j - 1] ? 0 : 1;
+            matrix[j][i] = Math.min(
+                matrix[j][i - 1] + 1, // deletion
+                matrix[j - 1][i] + 1, // insertion
+                matrix[j - 1][i - 1] + indicator, // substitution
+            );
+        }
+    }
+    return matrix[bLower.length][aLower.length];
+};
+
+// --- FIND BY NAME HELPER ---
+// Returns the exact (case-insensitive) match, or the closest candidate within
+// `maxDistance` edits as a suggestion, or null when nothing is close enough.
+export const findByName = <T extends { name: string }>(name: string, candidates: T[], maxDistance = 3): { match: T; exact: boolean } | null => {
+    const lowerName = name.trim().toLowerCase();
+    const directMatch = candidates.find(c => c.name.toLowerCase() === lowerName);
+    if (directMatch) return { match: directMatch, exact: true };
+
+    const suggestions = candidates
+        .map(candidate => ({ candidate, dist: levenshteinDistance(lowerName, candidate.name) }))
+        .sort((a, b) => a.dist - b.dist);
+
+    if (suggestions.length > 0 && suggestions[0].dist <= maxDistance) {
+        return { match: suggestions[0].candidate, exact: false };
+    }
+    return null;
+};
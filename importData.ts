@@ -0,0 +1,149 @@
+import { StockItem } from './types';
+import { findByName } from './fuzzyMatch';
+
+export type ImportFieldKey = 'category' | 'opening_stock' | 'alert_level' | 'price' | 'color';
+
+export interface StockImportRow {
+  line: number; // 1-based line in the file, header included
+  name: string;
+  category?: string;
+  opening_stock?: number;
+  alert_level?: number;
+  price?: number;
+  color?: string;
+}
+
+export interface StockImportChange {
+  field: ImportFieldKey;
+  from: string | number | null;
+  to: string | number;
+}
+
+export interface StockImportPlanEntry {
+  line: number;
+  name: string;
+  action: 'create' | 'update' | 'unchanged' | 'error';
+  row?: StockImportRow;
+  match?: StockItem;
+  fuzzy?: boolean; // Matched by Levenshtein distance rather than exact name
+  changes: StockImportChange[];
+  error?: string;
+}
+
+export const IMPORT_COLUMNS = ['name', 'category', 'opening_stock', 'alert_level', 'price', 'color'] as const;
+
+export const IMPORT_TEMPLATE = `${IMPORT_COLUMNS.join(',')}\n1.8kg Boxes,Groenkloof,9000,100,8,#EC4899\n`;
+
+const NUMERIC_FIELDS: ImportFieldKey[] = ['opening_stock', 'alert_level', 'price'];
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes ("") and CRLF line endings.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else field += char;
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field); field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); rows.push(row);
+      row = []; field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) { row.push(field); rows.push(row); }
+  return rows;
+};
+
+const normalizeHeader = (header: string) => header.replace(/^\uFEFF/, '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+// Parses the CSV into typed rows. Blank cells are left undefined so they don't overwrite existing values.
+export const parseStockImport = (text: string): { rows: StockImportRow[]; errors: { line: number; message: string }[] } => {
+  const [headerRow, ...dataRows] = parseCsv(text);
+  const errors: { line: number; message: string }[] = [];
+  if (!headerRow) return { rows: [], errors: [{ line: 1, message: 'The file is empty.' }] };
+
+  const headers = headerRow.map(normalizeHeader);
+  if (!headers.includes('name')) return { rows: [], errors: [{ line: 1, message: "The header row must include a 'name' column." }] };
+
+  const rows: StockImportRow[] = [];
+  dataRows.forEach((cells, index) => {
+    const line = index + 2;
+    if (cells.every(cell => cell.trim() === '')) return;
+
+    const row: StockImportRow = { line, name: '' };
+    let rowError: string | null = null;
+    headers.forEach((header, col) => {
+      const value = (cells[col] ?? '').trim();
+      if (value === '') return;
+      if (header === 'name') row.name = value;
+      else if (header === 'category') row.category = value;
+      else if (header === 'color') {
+        if (/^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value)) row.color = value;
+        else rowError = `'${value}' is not a hex colour like #10B981.`;
+      } else if ((NUMERIC_FIELDS as string[]).includes(header)) {
+        const num = Number(value.replace(/^R/i, '').replace(/,/g, ''));
+        if (isNaN(num) || num < 0) rowError = `'${value}' is not a valid ${header.replace('_', ' ')}.`;
+        else row[header as 'opening_stock' | 'alert_level' | 'price'] = num;
+      }
+    });
+
+    if (!row.name) rowError = 'Missing item name.';
+    if (rowError) errors.push({ line, message: rowError });
+    else rows.push(row);
+  });
+
+  return { rows, errors };
+};
+
+// Diffs the parsed rows against current stock. Names are matched exactly first, then
+// fuzzily; `forceNew` lists lines whose fuzzy match the user rejected.
+export const buildImportPlan = (rows: StockImportRow[], stockItems: StockItem[], forceNew: Set<number> = new Set()): StockImportPlanEntry[] => {
+  const claimed = new Map<string, number>(); // stock item id / new name -> line that claimed it
+
+  return rows.map(row => {
+    const result = forceNew.has(row.line) ? null : findByName(row.name, stockItems);
+    const claimKey = result ? result.match.id : `new:${row.name.toLowerCase()}`;
+    const claimedBy = claimed.get(claimKey);
+    if (claimedBy !== undefined) {
+      return { line: row.line, name: row.name, action: 'error', changes: [], error: `Duplicate of line ${claimedBy}.` };
+    }
+    claimed.set(claimKey, row.line);
+
+    if (!result) {
+      const changes = IMPORT_COLUMNS
+        .filter((field): field is ImportFieldKey => field !== 'name' && row[field] !== undefined)
+        .map(field => ({ field, from: null, to: row[field] as string | number }));
+      return { line: row.line, name: row.name, action: 'create', row, changes };
+    }
+
+    const item = result.match;
+    const changes: StockImportChange[] = [];
+    IMPORT_COLUMNS.forEach(field => {
+      if (field === 'name' || row[field] === undefined) return;
+      const current = field === 'category' ? (item.category || '') : item[field];
+      const same = field === 'color' ? String(current).toLowerCase() === String(row[field]).toLowerCase() : current === row[field];
+      if (!same) changes.push({ field, from: current, to: row[field] as string | number });
+    });
+
+    return {
+      line: row.line,
+      name: row.name,
+      action: changes.length > 0 ? 'update' : 'unchanged',
+      row,
+      match: item,
+      fuzzy: !result.exact,
+      changes,
+    };
+  });
+};
@@ -0,0 +1,48 @@
+import { StockItem, StockLevel, StockLocation } from './types';
+
+// Counters that are kept per location; alert level and price stay team-wide.
+export type LocationCountField = 'opening_stock' | 'added_today' | 'packed' | 'lost';
+
+export const LOCATION_COUNT_FIELDS: LocationCountField[] = ['opening_stock', 'added_today', 'packed', 'lost'];
+
+export interface LocationCounts {
+  opening_stock: number;
+  added_today: number;
+  packed: number;
+  lost: number;
+  transferred: number; // Net transfers in (positive) or out (negative) since the last New Day
+}
+
+const levelsOf = (itemId: string, levels: StockLevel[]) => levels.filter(level => level.stock_item_id === itemId);
+
+export const isLocationCountField = (field: string): field is LocationCountField =>
+  (LOCATION_COUNT_FIELDS as string[]).includes(field);
+
+export const defaultLocationOf = (locations: StockLocation[]): StockLocation | null =>
+  locations.find(location => location.is_default) || null;
+
+// The default location holds the team totals less everything recorded at other locations.
+export const countsAtLocation = (item: StockItem, location: StockLocation, levels: StockLevel[]): LocationCounts => {
+  const itemLevels = levelsOf(item.id, levels);
+  if (!location.is_default) {
+    const level = itemLevels.find(l => l.location_id === location.id);
+    return {
+      opening_stock: level?.opening_stock || 0,
+      added_today: level?.added_today || 0,
+      packed: level?.packed || 0,
+      lost: level?.lost || 0,
+      transferred: level ? level.transferred_in - level.transferred_out : 0,
+    };
+  }
+  const sum = (field: keyof StockLevel) => itemLevels.reduce((total, level) => total + (level[field] as number), 0);
+  return {
+    opening_stock: item.opening_stock - sum('opening_stock'),
+    added_today: item.added_today - sum('added_today'),
+    packed: item.packed - sum('packed'),
+    lost: item.lost - sum('lost'),
+    transferred: sum('transferred_out') - sum('transferred_in'),
+  };
+};
+
+export const remainingAtLocation = (counts: LocationCounts): number =>
+  counts.opening_stock + counts.added_today + counts.transferred - counts.packed - counts.lost;
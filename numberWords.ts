@@ -0,0 +1,108 @@
+// Spoken numbers come through speech recognition as words ("two hundred and fifty", "vyf en
+// twintig"); commands need digits, so runs of number words are rewritten as one number each.
+
+type NumberWordKind = 'unit' | 'teen' | 'ten' | 'hundred' | 'thousand';
+
+const NUMBER_WORDS: Record<string, { value: number; kind: NumberWordKind }> = {};
+const addWords = (kind: NumberWordKind, words: Record<string, number>) => {
+  for (const [word, value] of Object.entries(words)) NUMBER_WORDS[word] = { value, kind };
+};
+
+// English
+addWords('unit', { zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9 });
+addWords('teen', { ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19 });
+addWords('ten', { twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90 });
+addWords('hundred', { hundred: 100 });
+addWords('thousand', { thousand: 1000 });
+
+// Afrikaans
+const AFRIKAANS_UNITS: Record<string, number> = { een: 1, twee: 2, drie: 3, vier: 4, vyf: 5, ses: 6, sewe: 7, agt: 8, nege: 9 };
+const AFRIKAANS_TENS: Record<string, number> = { twintig: 20, dertig: 30, veertig: 40, vyftig: 50, sestig: 60, sewentig: 70, tagtig: 80, negentig: 90 };
+addWords('unit', { nul: 0, ...AFRIKAANS_UNITS });
+addWords('teen', { tien: 10, elf: 11, twaalf: 12, dertien: 13, veertien: 14, vyftien: 15, sestien: 16, sewentien: 17, agtien: 18, negentien: 19 });
+addWords('ten', AFRIKAANS_TENS);
+addWords('hundred', { honderd: 100 });
+addWords('thousand', { duisend: 1000 });
+
+const UNIT_PATTERN = Object.keys(AFRIKAANS_UNITS).join('|');
+// "vyfentwintig" is "vyf en twintig"; "tweehonderd" is "twee honderd"
+const AFRIKAANS_COMPOUND = new RegExp(`^(${UNIT_PATTERN})(en)(${Object.keys(AFRIKAANS_TENS).join('|')})$|^(${UNIT_PATTERN})(honderd|duisend)$`);
+
+// What may follow each kind of word within one number. Anything else starts a new number.
+const FOLLOWS: Record<NumberWordKind | 'start' | 'compound', NumberWordKind[]> = {
+  start: ['unit', 'teen', 'ten', 'hundred', 'thousand'],
+  unit: ['hundred', 'thousand'],
+  teen: ['hundred', 'thousand'],
+  ten: ['unit', 'thousand'],
+  compound: ['thousand'], // "vyf en twintig" is already complete below a hundred
+  hundred: ['unit', 'teen', 'ten', 'thousand'],
+  thousand: ['unit', 'teen', 'ten', 'hundred'],
+};
+
+const splitToken = (token: string): string[] => {
+  const lower = token.toLowerCase();
+  const compound = lower.match(AFRIKAANS_COMPOUND);
+  if (compound) return compound.slice(1).filter(Boolean);
+  return lower.split('-').filter(Boolean);
+};
+
+export const normalizeNumberWords = (text: string): string => {
+  const out: string[] = [];
+  const words = text.trim().split(/\s+/).filter(Boolean).flatMap(token => {
+    // Trailing punctuation stays with the output, not the number word
+    const [, core, trailing] = token.match(/^(.*?)([.,!?;:]*)$/)!;
+    const parts = splitToken(core);
+    return parts.every(part => part in NUMBER_WORDS || part === 'en' || part === 'and')
+      ? parts.map((part, i) => ({ raw: parts.length === 1 ? core : part, trailing: i === parts.length - 1 ? trailing : '' }))
+      : [{ raw: token, trailing: '' }];
+  });
+
+  let total = 0;
+  let current = 0;
+  let state = 'start' as keyof typeof FOLLOWS;
+  let pendingTrailing = '';
+  let joined = false; // The previous word was an "and"/"en" inside this number
+  const flush = () => {
+    if (state === 'start') return;
+    out.push(`${total + current}${pendingTrailing}`);
+    total = 0;
+    current = 0;
+    state = 'start';
+    pendingTrailing = '';
+  };
+
+  for (let i = 0; i < words.length; i++) {
+    const { raw, trailing } = words[i];
+    const word = NUMBER_WORDS[raw.toLowerCase()];
+    const connector = raw.toLowerCase();
+    if (!word && (connector === 'and' || connector === 'en') && state !== 'start' && !pendingTrailing) {
+      // "two hundred and five", "honderd en vyf", "vyf en twintig"
+      const next = NUMBER_WORDS[words[i + 1]?.raw.toLowerCase() ?? ''];
+      const joinsHundreds = (state === 'hundred' || state === 'thousand') && next && next.kind !== 'hundred' && next.kind !== 'thousand';
+      const joinsAfrikaansTens = connector === 'en' && state === 'unit' && next?.kind === 'ten';
+      if (joinsHundreds || joinsAfrikaansTens) {
+        joined = true;
+        continue;
+      }
+    }
+    if (!word) {
+      flush();
+      out.push(raw + trailing);
+      continue;
+    }
+
+    const afterAfrikaansEn = joined && state === 'unit' && word.kind === 'ten';
+    const startsOver = word.kind === 'hundred' && current >= 100; // "two hundred five hundred" is two numbers
+    if (pendingTrailing || startsOver || !(afterAfrikaansEn || FOLLOWS[state].includes(word.kind))) flush();
+    joined = false;
+    if (word.kind === 'hundred') current = (current || 1) * 100;
+    else if (word.kind === 'thousand') {
+      total += (current || 1) * 1000;
+      current = 0;
+    } else current += word.value;
+    state = afterAfrikaansEn ? 'compound' : word.kind;
+    pendingTrailing = trailing;
+  }
+  flush();
+  return out.join(' ');
+};
@@ -0,0 +1,80 @@
+import { QueuedEdit, QueuedEditPayload, SyncConflict } from './types';
+
+// Edits made without a connection are kept in IndexedDB so they survive a reload, then
+// replayed oldest-first by the Dashboard once the browser is back online.
+
+const DB_NAME = 'intellectory-offline';
+const DB_VERSION = 1;
+const EDITS_STORE = 'queued_edits';
+const CONFLICTS_STORE = 'sync_conflicts';
+
+export type SyncState = 'pending' | 'synced';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(EDITS_STORE, { keyPath: 'id', autoIncrement: true }).createIndex('team_id', 'team_id');
+        db.createObjectStore(CONFLICTS_STORE, { keyPath: 'id', autoIncrement: true }).createIndex('team_id', 'team_id');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null; // Let the next call try again
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs one request in its own transaction and resolves once the transaction commits.
+const runRequest = async <T>(storeName: string, mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const enqueueEdit = async (teamId: string, payload: QueuedEditPayload): Promise<QueuedEdit> => {
+  const record = { ...payload, team_id: teamId, queued_at: new Date().toISOString() };
+  const id = await runRequest(EDITS_STORE, 'readwrite', store => store.add(record));
+  return { ...record, id: id as number };
+};
+
+// Index lookups return rows in key order within a team, which is the order they were queued.
+export const listQueuedEdits = (teamId: string): Promise<QueuedEdit[]> =>
+  runRequest<QueuedEdit[]>(EDITS_STORE, 'readonly', store => store.index('team_id').getAll(teamId));
+
+export const removeQueuedEdit = async (id: number): Promise<void> => {
+  await runRequest(EDITS_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const addSyncConflict = async (edit: QueuedEdit, theirs: number | null, reason: string): Promise<SyncConflict> => {
+  const record = { team_id: edit.team_id, edit, theirs, reason };
+  const id = await runRequest(CONFLICTS_STORE, 'readwrite', store => store.add(record));
+  return { ...record, id: id as number };
+};
+
+export const listSyncConflicts = (teamId: string): Promise<SyncConflict[]> =>
+  runRequest<SyncConflict[]>(CONFLICTS_STORE, 'readonly', store => store.index('team_id').getAll(teamId));
+
+export const removeSyncConflict = async (id: number): Promise<void> => {
+  await runRequest(CONFLICTS_STORE, 'readwrite', store => store.delete(id));
+};
+
+// The table row an edit belongs to, used to key the pending/synced badges.
+export const queuedEditRowKey = (edit: QueuedEditPayload): string => {
+  switch (edit.kind) {
+    case 'stock': return edit.itemId;
+    case 'binStatus': return `status:${edit.statusKey}`;
+    case 'binMovement': return `party:${edit.details.partyName.trim().toLowerCase()}`;
+  }
+};
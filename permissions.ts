@@ -0,0 +1,31 @@
+import { TeamMember, EditableStockItemKey } from './types';
+
+export type TeamRole = TeamMember['role'];
+
+export type Permission =
+  | 'stock.count'      // added_today / packed / lost, at any location, and transfers between locations
+  | 'stock.manage'     // add, edit, delete and import items; opening stock, alert level and price; locations; New Day
+  | 'suppliers.manage' // suppliers, payments, purchase orders and receiving against them
+  | 'bins.move'        // log bin movements
+  | 'bins.manage'      // bin types, parties, status counts, balance edits and notes
+  | 'team.manage'      // team name, invitations and member roles
+  | 'data.reset';
+
+// Each role includes everything granted to the roles below it.
+const WORKER_PERMISSIONS: Permission[] = ['stock.count', 'bins.move'];
+const MANAGER_PERMISSIONS: Permission[] = [...WORKER_PERMISSIONS, 'stock.manage', 'suppliers.manage', 'bins.manage'];
+const OWNER_PERMISSIONS: Permission[] = [...MANAGER_PERMISSIONS, 'team.manage', 'data.reset'];
+
+export const ROLE_PERMISSIONS: Record<TeamRole, Permission[]> = {
+  Worker: WORKER_PERMISSIONS,
+  Manager: MANAGER_PERMISSIONS,
+  Owner: OWNER_PERMISSIONS,
+};
+
+export const COUNT_FIELDS: EditableStockItemKey[] = ['added_today', 'packed', 'lost'];
+
+export const hasPermission = (role: TeamRole | null | undefined, permission: Permission): boolean =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+export const permissionForField = (field: EditableStockItemKey): Permission =>
+  COUNT_FIELDS.includes(field) ? 'stock.count' : 'stock.manage';
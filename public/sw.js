@@ -0,0 +1,60 @@
+// Bump the version when the caching strategy changes; old caches are removed on activation.
+const CACHE_NAME = 'intellectory-cache-v2';
+const urlsToCache = [
+  '/',
+  '/index.html',
+  'https://cdn.tailwindcss.com',
+  'https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&display=swap',
+];
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.addAll(urlsToCache))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(cacheNames => Promise.all(
+        cacheNames.filter(cacheName => cacheName !== CACHE_NAME).map(cacheName => caches.delete(cacheName))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Network first, so a deploy is picked up as soon as there is signal, falling back to the
+// last cached copy when offline. Only the app shell is cached: API calls (Supabase, Gemini)
+// go straight to the network, and edits made offline are queued by the app itself.
+const isAppShellRequest = request => {
+  if (request.method !== 'GET') return false;
+  const url = new URL(request.url);
+  if (url.origin === self.location.origin) return true;
+  return urlsToCache.some(cached => request.url.startsWith(cached));
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (!isAppShellRequest(request)) return;
+
+  event.respondWith(
+    fetch(request)
+      .then(response => {
+        if (response.ok) {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then(cache => cache.put(request, copy));
+        }
+        return response;
+      })
+      .catch(() =>
+        caches.match(request).then(cached => {
+          if (cached) return cached;
+          // Client-side routes all serve the same shell
+          if (request.mode === 'navigate') return caches.match('/index.html');
+          return Response.error();
+        })
+      )
+  );
+});
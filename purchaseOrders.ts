@@ -0,0 +1,45 @@
+import { PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus } from './types';
+
+export interface PurchaseOrderDraft {
+  supplierName: string;
+  expectedDate: string; // YYYY-MM-DD, or '' if not agreed yet
+  notes: string;
+  lines: { stockItemId: string; quantity: number; unitPrice: number }[];
+}
+
+export interface GoodsReceiptDraft {
+  lineId: string;
+  quantity: number;
+  unitPrice: number; // As invoiced; compared against the line's agreed price
+}
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_received: 'Partially Received',
+  received: 'Received',
+};
+
+// Select used wherever orders are loaded, so every copy in state has its lines and receipts.
+export const PURCHASE_ORDER_SELECT = '*, lines:purchase_order_lines(*), receipts:goods_receipts(*)';
+
+// Prices are compared to the cent; anything finer is rounding noise.
+const PRICE_TOLERANCE = 0.005;
+
+export const formatOrderNumber = (order: Pick<PurchaseOrder, 'order_number'>): string =>
+  `PO-${String(order.order_number).padStart(4, '0')}`;
+
+export const orderTotal = (order: Pick<PurchaseOrder, 'lines'>): number =>
+  order.lines.reduce((sum, line) => sum + line.quantity * line.unit_price, 0);
+
+export const remainingQuantity = (line: PurchaseOrderLine): number =>
+  Math.max(0, line.quantity - line.received_quantity);
+
+export const hasPriceVariance = (agreedPrice: number, actualPrice: number): boolean =>
+  Math.abs(actualPrice - agreedPrice) > PRICE_TOLERANCE;
+
+export const canReceive = (order: Pick<PurchaseOrder, 'status'>): boolean =>
+  order.status === 'sent' || order.status === 'partially_received';
+
+export const isOverdue = (order: Pick<PurchaseOrder, 'status' | 'expected_date'>, todayKey: string): boolean =>
+  !!order.expected_date && order.status !== 'received' && order.expected_date < todayKey;
@@ -0,0 +1,91 @@
+import { StockItem, StockSnapshot, Supplier, CreditTransaction, PurchaseOrder } from './types';
+import { DEFAULT_LEAD_TIME_DAYS, REORDER_REVIEW_DAYS } from './constants';
+import { remainingQuantity } from './purchaseOrders';
+
+// The slice of a closing snapshot that usage is worked out from.
+export type UsageHistoryRow = Pick<StockSnapshot, 'stock_item_id' | 'snapshot_date' | 'packed' | 'lost'>;
+
+export interface ReorderSuggestion {
+  item: StockItem;
+  remaining: number;
+  averageDailyUsage: number;
+  daysOfCover: number; // Infinity when the item isn't being used
+  onOrder: number; // Still outstanding on sent or partially received orders
+  supplier: Supplier | null; // Whoever it was last bought from, if anyone
+  leadTimeDays: number;
+  unitPrice: number; // Last price paid, else the item's price
+  suggestedQuantity: number;
+  isUrgent: boolean; // Will run out before a new order could arrive
+}
+
+export const leadTimeFor = (supplier: Supplier | null): number =>
+  supplier?.lead_time_days ?? DEFAULT_LEAD_TIME_DAYS;
+
+// Most recent purchase of the item: order lines match on id, older credit purchases on name.
+const lastPurchaseOf = (item: StockItem, orders: PurchaseOrder[], transactions: CreditTransaction[]) => {
+  for (const order of orders) { // Newest first, as loaded
+    const line = order.lines.find(l => l.stock_item_id === item.id);
+    if (line) return { supplierId: order.supplier_id, unitPrice: line.unit_price };
+  }
+  const transaction = transactions
+    .filter(t => t.stock_item_name === item.name && t.quantity > 0)
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))[0];
+  return transaction ? { supplierId: transaction.supplier_id, unitPrice: transaction.total_value / transaction.quantity } : null;
+};
+
+// Average usage is taken over every day the team rolled over in the history, so days an
+// item wasn't touched count as zero. The suggestion tops stock (plus anything already on
+// order) up to the alert level plus usage over the lead time and the review period.
+export const buildReorderSuggestions = (
+  items: StockItem[],
+  history: UsageHistoryRow[],
+  suppliers: Supplier[],
+  orders: PurchaseOrder[],
+  transactions: CreditTransaction[],
+): ReorderSuggestion[] => {
+  const dayCount = new Set(history.map(row => row.snapshot_date)).size;
+  const usageByItem = new Map<string, number>();
+  history.forEach(row => usageByItem.set(row.stock_item_id, (usageByItem.get(row.stock_item_id) || 0) + row.packed + row.lost));
+
+  const onOrderByItem = new Map<string, number>();
+  orders
+    .filter(order => order.status === 'sent' || order.status === 'partially_received')
+    .forEach(order => order.lines.forEach(line => {
+      if (line.stock_item_id) onOrderByItem.set(line.stock_item_id, (onOrderByItem.get(line.stock_item_id) || 0) + remainingQuantity(line));
+    }));
+
+  return items.map(item => {
+    const remaining = item.opening_stock + item.added_today - item.packed - item.lost;
+    const averageDailyUsage = dayCount > 0 ? (usageByItem.get(item.id) || 0) / dayCount : 0;
+    const daysOfCover = averageDailyUsage > 0 ? Math.max(0, remaining) / averageDailyUsage : Infinity;
+    const onOrder = onOrderByItem.get(item.id) || 0;
+    const lastPurchase = lastPurchaseOf(item, orders, transactions);
+    const supplier = (lastPurchase && suppliers.find(s => s.id === lastPurchase.supplierId)) || null;
+    const leadTimeDays = leadTimeFor(supplier);
+    const target = item.alert_level + averageDailyUsage * (leadTimeDays + REORDER_REVIEW_DAYS);
+
+    return {
+      item,
+      remaining,
+      averageDailyUsage,
+      daysOfCover,
+      onOrder,
+      supplier,
+      leadTimeDays,
+      unitPrice: lastPurchase?.unitPrice ?? item.price,
+      suggestedQuantity: Math.max(0, Math.ceil(target - remaining - onOrder)),
+      isUrgent: daysOfCover <= leadTimeDays && onOrder === 0,
+    };
+  });
+};
+
+// Plain text for WhatsApp, email and the like, grouped by supplier.
+export const formatReorderList = (teamName: string, lines: { suggestion: ReorderSuggestion; quantity: number }[]): string => {
+  const groups = new Map<string, string[]>();
+  lines.forEach(({ suggestion, quantity }) => {
+    const key = suggestion.supplier?.name || 'No supplier';
+    groups.set(key, [...(groups.get(key) || []), `- ${suggestion.item.name}: ${quantity.toLocaleString()}`]);
+  });
+  const sections = Array.from(groups.entries()).map(([supplierName, itemLines]) => `${supplierName}\n${itemLines.join('\n')}`);
+  return `Reorder list for ${teamName} (${new Date().toLocaleDateString()})\n\n${sections.join('\n\n')}`;
+};
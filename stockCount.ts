@@ -0,0 +1,30 @@
+import { StockCount, StockCountLine, StockCountStatus } from './types';
+import { COUNT_APPROVAL_VALUE, COUNT_APPROVAL_SHARE } from './constants';
+
+// Select used wherever counts are loaded, so every copy in state has its lines.
+export const STOCK_COUNT_SELECT = '*, lines:stock_count_lines(*)';
+
+export const STOCK_COUNT_STATUS_LABELS: Record<StockCountStatus, string> = {
+  counting: 'Counting',
+  awaiting_approval: 'Awaiting Approval',
+  posted: 'Posted',
+  cancelled: 'Cancelled',
+};
+
+export const isOpenCount = (count: Pick<StockCount, 'status'>): boolean =>
+  count.status === 'counting' || count.status === 'awaiting_approval';
+
+// Counted minus system quantity: positive when more was found than expected. Null until counted.
+export const lineVariance = (line: StockCountLine): number | null =>
+  line.counted_quantity === null || line.system_quantity === null ? null : line.counted_quantity - line.system_quantity;
+
+// Worth COUNT_APPROVAL_VALUE Rand or more, or COUNT_APPROVAL_SHARE of the system quantity.
+export const isLargeVariance = (line: StockCountLine, unitCost: number): boolean => {
+  const variance = lineVariance(line);
+  if (!variance) return false;
+  return Math.abs(variance * unitCost) >= COUNT_APPROVAL_VALUE
+    || Math.abs(variance) >= (line.system_quantity || 0) * COUNT_APPROVAL_SHARE;
+};
+
+export const countedLines = (count: Pick<StockCount, 'lines'>): StockCountLine[] =>
+  count.lines.filter(line => line.counted_quantity !== null);
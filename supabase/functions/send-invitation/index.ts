@@ -0,0 +1,60 @@
+// Emails a team invitation link. The app calls this after an Owner creates or resends an
+// invite. It runs as the caller, so row policies decide what they can read, and the link is
+// built from APP_URL rather than taken from the request. See "Invitation Emails" in DEPLOYMENT.md.
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const respond = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  const { invitation_id } = await req.json().catch(() => ({}));
+  if (!invitation_id) return respond({ error: 'invitation_id is required.' }, 400);
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+
+  const { data: invitation, error } = await supabase.from('team_invitations')
+    .select('email, role, token, status, expires_at, team_id, teams(name)')
+    .eq('id', invitation_id).single();
+  if (error || !invitation || invitation.status !== 'pending') return respond({ error: 'That invitation was not found.' }, 404);
+
+  // Every member can read the team's invitations; only the Owner sends them
+  const { data: role } = await supabase.rpc('team_role', { p_team_id: invitation.team_id });
+  if (role !== 'Owner') return respond({ error: 'Only the team Owner can send invitations.' }, 403);
+
+  const { data: { user } } = await supabase.auth.getUser();
+  const inviter = user?.user_metadata?.full_name || user?.email || 'A teammate';
+  const teamName = invitation.teams?.name || 'their team';
+  const link = `${Deno.env.get('APP_URL')}?invite=${invitation.token}`;
+  const expires = new Date(invitation.expires_at).toDateString();
+
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${Deno.env.get('RESEND_API_KEY')}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      from: Deno.env.get('INVITE_FROM_EMAIL'),
+      to: invitation.email,
+      subject: `Join ${teamName} on Intellectory`,
+      text: `${inviter} invited you to join ${teamName} on Intellectory as a ${invitation.role}.\n\nSign in with this email address and accept the invitation: ${link}\n\nThe link expires on ${expires}.`,
+      html: `<p>${escapeHtml(inviter)} invited you to join <strong>${escapeHtml(teamName)}</strong> on Intellectory as a ${invitation.role}.</p>`
+        + `<p><a href="${escapeHtml(link)}">Accept the invitation</a> after signing in with this email address.</p>`
+        + `<p>The link expires on ${expires}.</p>`,
+    }),
+  });
+  if (!response.ok) {
+    console.error('Invitation email failed:', response.status, await response.text());
+    return respond({ error: 'The invitation email could not be sent.' }, 502);
+  }
+  return respond({ sent: true });
+});
@@ -0,0 +1,151 @@
+import { Supplier, CreditTransaction, SupplierPayment } from './types';
+
+// One line of a supplier's running account. Credit purchases increase what we owe them,
+// payments reduce it.
+export interface LedgerEntry {
+  id: string;
+  date: Date;
+  kind: 'purchase' | 'payment';
+  description: string;
+  charge: number;
+  payment: number;
+  balance: number; // Running balance after this entry
+}
+
+export type AgeingBucket = 'current' | '31-60' | '61-90' | '90+';
+
+export const AGEING_BUCKETS: { key: AgeingBucket; label: string }[] = [
+  { key: 'current', label: '0–30 days' },
+  { key: '31-60', label: '31–60 days' },
+  { key: '61-90', label: '61–90 days' },
+  { key: '90+', label: '90+ days' },
+];
+
+export interface SupplierStatement {
+  supplier: Supplier;
+  start: Date;
+  end: Date;
+  openingBalance: number;
+  entries: LedgerEntry[];
+  closingBalance: number;
+  ageing: Record<AgeingBucket, number>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Local YYYY-MM-DD, so entries group by the day the user saw them happen.
+const toDayKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const formatRand = (value: number): string => `R${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Oldest first. Payments only carry a date, so within a day purchases come first and a
+// same-day payment never shows the balance dipping below zero.
+export const buildSupplierLedger = (supplierId: string, transactions: CreditTransaction[], payments: SupplierPayment[]): LedgerEntry[] => {
+  const entries: Omit<LedgerEntry, 'balance'>[] = [
+    ...transactions.filter(t => t.supplier_id === supplierId).map(t => ({
+      id: t.id,
+      date: new Date(t.timestamp),
+      kind: 'purchase' as const,
+      description: `${t.quantity.toLocaleString()} × ${t.stock_item_name}`,
+      charge: t.total_value,
+      payment: 0,
+    })),
+    ...payments.filter(p => p.supplier_id === supplierId).map(p => ({
+      id: p.id,
+      date: new Date(p.paid_on + 'T00:00:00'),
+      kind: 'payment' as const,
+      description: p.reference ? `Payment (${p.reference})` : 'Payment',
+      charge: 0,
+      payment: p.amount,
+    })),
+  ];
+
+  entries.sort((a, b) => {
+    const dayA = toDayKey(a.date), dayB = toDayKey(b.date);
+    if (dayA !== dayB) return dayA < dayB ? -1 : 1;
+    if (a.kind !== b.kind) return a.kind === 'purchase' ? -1 : 1;
+    return a.date.getTime() - b.date.getTime();
+  });
+
+  let balance = 0;
+  return entries.map(entry => {
+    balance += entry.charge - entry.payment;
+    return { ...entry, balance };
+  });
+};
+
+// Payments settle the oldest purchases first; whatever is left of each purchase is aged
+// from its date. Only entries on or before `asOf` count.
+export const computeAgeing = (ledger: LedgerEntry[], asOf: Date = new Date()): Record<AgeingBucket, number> => {
+  const buckets: Record<AgeingBucket, number> = { current: 0, '31-60': 0, '61-90': 0, '90+': 0 };
+  const included = ledger.filter(entry => entry.date <= asOf);
+  let unallocated = included.reduce((sum, entry) => sum + entry.payment, 0);
+
+  for (const entry of included) {
+    if (entry.kind !== 'purchase') continue;
+    const settled = Math.min(unallocated, entry.charge);
+    unallocated -= settled;
+    const outstanding = entry.charge - settled;
+    if (outstanding <= 0) continue;
+
+    const age = Math.floor((asOf.getTime() - entry.date.getTime()) / DAY_MS);
+    const bucket: AgeingBucket = age <= 30 ? 'current' : age <= 60 ? '31-60' : age <= 90 ? '61-90' : '90+';
+    buckets[bucket] += outstanding;
+  }
+  return buckets;
+};
+
+// `start` and `end` are inclusive days; the opening balance carries everything before `start`.
+export const buildStatement = (supplier: Supplier, ledger: LedgerEntry[], start: Date, end: Date): SupplierStatement => {
+  const startKey = toDayKey(start), endKey = toDayKey(end);
+  const before = ledger.filter(entry => toDayKey(entry.date) < startKey);
+  const entries = ledger.filter(entry => {
+    const key = toDayKey(entry.date);
+    return key >= startKey && key <= endKey;
+  });
+  const openingBalance = before.length > 0 ? before[before.length - 1].balance : 0;
+  const closingBalance = entries.length > 0 ? entries[entries.length - 1].balance : openingBalance;
+  const endOfDay = new Date(end);
+  endOfDay.setHours(23, 59, 59, 999);
+
+  return { supplier, start, end, openingBalance, entries, closingBalance, ageing: computeAgeing(ledger, endOfDay) };
+};
+
+export const printSupplierStatement = (teamName: string, statement: SupplierStatement) => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return;
+  const { supplier, start, end, openingBalance, entries, closingBalance, ageing } = statement;
+  const title = `Statement: ${escapeHtml(supplier.name)}`;
+
+  const statementHtml = `
+    <html><head><title>${title}</title>
+    <style>body{font-family:sans-serif;padding:20px} table{width:100%;border-collapse:collapse;margin-bottom:20px} th,td{border:1px solid #ddd;padding:8px;text-align:left} th{background-color:#f2f2f2} td.num,th.num{text-align:right}</style>
+    </head><body>
+    <h1>${title}</h1>
+    <p><strong>From:</strong> ${escapeHtml(teamName)}</p>
+    <p><strong>Period:</strong> ${start.toLocaleDateString()} – ${end.toLocaleDateString()}</p>
+    <table><thead><tr><th>Date</th><th>Description</th><th class="num">Charges</th><th class="num">Payments</th><th class="num">Balance</th></tr></thead><tbody>
+      <tr><td>${start.toLocaleDateString()}</td><td>Opening balance</td><td></td><td></td><td class="num">${formatRand(openingBalance)}</td></tr>
+      ${entries.map(entry => `
+        <tr>
+          <td>${entry.date.toLocaleDateString()}</td>
+          <td>${escapeHtml(entry.description)}</td>
+          <td class="num">${entry.charge ? formatRand(entry.charge) : ''}</td>
+          <td class="num">${entry.payment ? formatRand(entry.payment) : ''}</td>
+          <td class="num">${formatRand(entry.balance)}</td>
+        </tr>
+      `).join('')}
+      <tr><th colspan="4">Closing balance</th><th class="num">${formatRand(closingBalance)}</th></tr>
+    </tbody></table>
+    <h2>Ageing at ${end.toLocaleDateString()}</h2>
+    <table><thead><tr>${AGEING_BUCKETS.map(b => `<th class="num">${b.label}</th>`).join('')}</tr></thead>
+    <tbody><tr>${AGEING_BUCKETS.map(b => `<td class="num">${formatRand(ageing[b.key])}</td>`).join('')}</tr></tbody></table>
+    </body></html>`;
+  printWindow.document.write(statementHtml);
+  printWindow.document.close();
+  printWindow.print();
+};
@@ -11,17 +11,115 @@ export interface StockItem {
   color: string;
   team_id?: string;
   user_id?: string;
+  version?: number; // Bumped by the database on every update; used for optimistic concurrency
+  base_unit?: string; // What counts are stored in, e.g. 'box'; defaults to 'unit'
+  units?: StockUnit[]; // Alternate units quantities can be entered in
+  archived_at?: string | null; // Archived items are hidden from the inventory but kept for history
+}
+
+// A place stock is held, e.g. the main store or a packing line. The team's default location
+// holds whatever isn't recorded at another location, so it has no stock_levels rows.
+export interface StockLocation {
+  id: string;
+  team_id: string;
+  name: string;
+  is_default: boolean;
+  created_at: string;
+}
+
+// An item's counters at one non-default location. Transfers move remaining stock between
+// locations without changing the item's team-wide totals.
+export interface StockLevel {
+  id: string;
+  team_id: string;
+  stock_item_id: string;
+  location_id: string;
+  opening_stock: number;
+  added_today: number;
+  packed: number;
+  lost: number;
+  transferred_in: number;
+  transferred_out: number;
+}
+
+export interface StockTransfer {
+  id: string;
+  team_id: string;
+  stock_item_id: string;
+  from_location_id: string | null; // Null once the location is deleted
+  to_location_id: string | null;
+  quantity: number;
+  transferred_by: string | null;
+  transferred_at: string;
+}
+
+// An alternate unit for a stock item, e.g. { name: 'pallet', factor: 1500 } for 1500 boxes.
+export interface StockUnit {
+  name: string;
+  factor: number; // Base units per one of this unit
 }
 
 export type EditableStockItemKey = 'opening_stock' | 'added_today' | 'packed' | 'lost' | 'alert_level' | 'price';
 
+// Closing figures for one item on one day, written by the 'New Day' rollover.
+export interface StockSnapshot {
+  id: string;
+  team_id: string;
+  stock_item_id: string;
+  snapshot_date: string; // YYYY-MM-DD
+  name: string;
+  category: string;
+  color: string;
+  alert_level: number;
+  opening_stock: number;
+  added: number;
+  packed: number;
+  lost: number;
+  price: number;
+  remaining: number;
+  stock_value?: number | null; // Closing value under the team's valuation method; older snapshots only have price
+}
+
+// Stock received at a known cost. On-hand stock is valued from these layers by the team's
+// valuation method rather than at the item's current price.
+export interface CostLayer {
+  id: string;
+  team_id: string;
+  stock_item_id: string;
+  quantity: number;
+  unit_cost: number;
+  average_cost_after: number; // Weighted-average unit cost of the item once this layer arrived
+  source: 'opening' | 'receipt' | 'purchase-order';
+  received_at: string;
+}
+
+export type ActivityEventSource = 'manual' | 'ai' | 'new-day' | 'import' | 'purchase-order' | 'transfer' | 'stock-count' | 'undo';
+
+// Machine-readable payload stored alongside the human-readable description.
+// `field` is null for whole-item events (create details, edit, delete, rollover) and transfers.
+export interface ActivityEvent {
+  field: EditableStockItemKey | null;
+  old_value: number | null;
+  new_value: number | null;
+  delta: number | null;
+  source: ActivityEventSource;
+  location_id?: string | null; // Set when the change applied to one location rather than the team totals
+  trigger?: RolloverTrigger; // For 'new-day' events
+  item_id?: string; // The stock item changed; entries without it can't be undone
+  archived?: boolean; // Set when the item was archived; undoing it restores the item
+  receipt?: boolean; // Stock received with a cost layer (and any credit purchase); never undone
+  reasoning?: string; // For 'ai' events: the assistant's explanation of how it read the command
+}
+
 export interface ActivityLogEntry {
   id: string;
   timestamp: string;
   user_id: string | null;
   item_name: string;
   change_description: string;
+  event?: ActivityEvent | null;
   team_id: string;
+  reversal_of?: string | null; // Set on an undo; the id of the entry it reversed
   users?: {
     full_name: string;
   } | null;
@@ -32,6 +130,8 @@ export interface Supplier {
   name: string;
   balance: number;
   team_id: string;
+  lead_time_days?: number | null; // Days from ordering to delivery; null uses DEFAULT_LEAD_TIME_DAYS
+  archived_at?: string | null;
 }
 
 export interface CreditTransaction {
@@ -44,6 +144,86 @@ export interface CreditTransaction {
   timestamp: string;
 }
 
+// A payment made to a supplier against their credit balance. Partial payments are allowed;
+// they settle the oldest purchases first.
+export interface SupplierPayment {
+  id: string;
+  supplier_id: string;
+  team_id: string;
+  amount: number;
+  paid_on: string; // YYYY-MM-DD
+  reference: string;
+  recorded_by: string | null;
+  created_at: string;
+}
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received';
+
+export interface PurchaseOrderLine {
+  id: string;
+  purchase_order_id: string;
+  team_id: string;
+  stock_item_id: string | null; // Null once the stock item is deleted
+  stock_item_name: string;
+  quantity: number;
+  unit_price: number; // Agreed with the supplier when ordering
+  received_quantity: number;
+}
+
+// One delivery against a PO line. `unit_price` is what the supplier actually charged.
+export interface GoodsReceipt {
+  id: string;
+  team_id: string;
+  purchase_order_id: string;
+  line_id: string;
+  quantity: number;
+  unit_price: number;
+  received_at: string;
+  received_by: string | null;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  team_id: string;
+  order_number: number;
+  supplier_id: string;
+  status: PurchaseOrderStatus;
+  expected_date: string | null; // YYYY-MM-DD
+  notes: string;
+  created_by: string | null;
+  created_at: string;
+  lines: PurchaseOrderLine[];
+  receipts: GoodsReceipt[];
+}
+
+export type StockCountStatus = 'counting' | 'awaiting_approval' | 'posted' | 'cancelled';
+
+// One item in a stock count. `system_quantity` is the computed remaining at the moment the
+// count was entered, so stock that moves afterwards isn't mistaken for variance.
+export interface StockCountLine {
+  id: string;
+  count_id: string;
+  team_id: string;
+  stock_item_id: string | null; // Null once the stock item is deleted
+  stock_item_name: string;
+  counted_quantity: number | null; // Null until counted
+  system_quantity: number | null;
+  counted_at: string | null;
+  posted_at: string | null; // Set once its variance has been adjusted into stock
+}
+
+export interface StockCount {
+  id: string;
+  team_id: string;
+  name: string;
+  status: StockCountStatus;
+  created_by: string | null;
+  created_at: string;
+  posted_by: string | null; // Whoever posted it, which for a large variance is the approving Manager
+  posted_at: string | null;
+  lines: StockCountLine[];
+}
+
 export interface TeamMember {
   id: string; // This would be the user_id
   name: string;
@@ -51,9 +231,46 @@ export interface TeamMember {
   role: 'Owner' | 'Manager' | 'Worker';
 }
 
+export type ValuationMethod = 'weighted_average' | 'fifo';
+
 export interface Team {
   id: string;
   name: string;
+  valuation_method?: ValuationMethod; // Defaults to weighted average
+  rollover_time?: string | null; // 'HH:MM' local time for the automatic New Day; null when it's only run by hand
+  rollover_timezone?: string; // IANA name, e.g. 'Africa/Johannesburg'
+}
+
+export type RolloverTrigger = 'manual' | 'schedule';
+
+// One closed business day. The unique (team, date) row is what stops a day being rolled twice.
+export interface StockRollover {
+  id: string;
+  team_id: string;
+  business_date: string; // YYYY-MM-DD
+  trigger: RolloverTrigger;
+  triggered_by: string | null; // Null for the schedule
+  rolled_at: string;
+}
+
+// A team the signed-in user belongs to, with their role in it.
+export interface TeamMembership extends Team {
+  role: TeamMember['role'];
+}
+
+export interface TeamInvitation {
+  id: string;
+  team_id: string;
+  email: string;
+  role: 'Manager' | 'Worker';
+  token: string;
+  status: 'pending' | 'accepted' | 'revoked';
+  expires_at: string;
+  invited_by: string | null;
+  created_at: string;
+  teams?: {
+    name: string;
+  } | null;
 }
 
 // --- Bin Stock Take Types ---
@@ -95,15 +312,31 @@ export interface BinHistoryEntry {
   timestamp: string;
   change: string; // "Added 5 Chep Wood to Ziyard via Truck A"
   type: 'movement' | 'edit' | 'party' | 'config' | 'note';
+  userId?: string | null;
+  reversalOf?: string | null; // Set on an undo; the id of the entry it reversed
   details?: {
     movementType?: 'sent' | 'received' | 'returned';
     partyName?: string;
     transporter?: string;
     binName?: string;
     quantity?: number;
+    // What an undo needs to reverse the entry; older entries without them can't be undone
+    partyId?: string;
+    binId?: string;
+    oldBalance?: number; // Balance edits, signed as stored (negative when we owe them)
+    newBalance?: number;
   }
 }
 
+export interface BinMovementDetails {
+  type: 'sent' | 'received' | 'returned';
+  quantity: number;
+  binId: string;
+  partyName: string;
+  transporter?: string;
+  binContents?: string;
+}
+
 export interface BinStockData {
   statuses: {
     total: BinCounts;
@@ -126,4 +359,41 @@ export interface BinStockData {
 
   // Totals of bins owned by our company across types
   ourBins?: BinCounts;
-}
\ No newline at end of file
+}
+export type BinStatusKey = keyof BinStockData['statuses'];
+
+// --- Archive Types ---
+export type ArchiveKind = 'item' | 'supplier' | 'party' | 'binType';
+
+// Archived rows are kept out of the main tables and lists. Their history stays as logged,
+// and Settings > Archive restores them.
+export interface ArchivedRecords {
+  items: StockItem[];
+  suppliers: Supplier[];
+  parties: { id: string; name: string; archived_at: string }[];
+  binTypes: { id: string; name: string; archived_at: string }[];
+}
+
+// --- Offline Queue Types ---
+
+// An edit made while offline. `baseValue` is what the edit was made against, so replay can
+// tell whether someone else changed the same value in the meantime.
+export type QueuedEditPayload =
+  | { kind: 'stock'; itemId: string; itemName: string; field: EditableStockItemKey; value: number; baseValue: number; baseVersion?: number; source: ActivityEventSource }
+  | { kind: 'binStatus'; statusKey: BinStatusKey; binId: string; binName: string; value: number; baseValue: number }
+  | { kind: 'binMovement'; details: BinMovementDetails };
+
+export type QueuedEdit = QueuedEditPayload & {
+  id: number; // IndexedDB key; increasing, so it is also the replay order
+  team_id: string;
+  queued_at: string;
+};
+
+// A queued edit that could not be replayed as-is and is waiting for the user to review it.
+export interface SyncConflict {
+  id: number;
+  team_id: string;
+  edit: QueuedEdit;
+  theirs: number | null; // The server's value at replay time, for absolute edits
+  reason: string;
+}
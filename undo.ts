@@ -0,0 +1,48 @@
+import { ActivityLogEntry, BinHistoryEntry } from './types';
+import { TeamRole, hasPermission, permissionForField } from './permissions';
+import { UNDO_WINDOW_WORKER_MINUTES, UNDO_WINDOW_MANAGER_HOURS } from './constants';
+
+// Who is asking and what the log already shows. The database functions undo_activity and
+// undo_bin_history apply the same rules; these only decide which rows offer an Undo button.
+export interface UndoContext {
+  role: TeamRole | null;
+  userId: string;
+  now: number;
+}
+
+const withinUndoWindow = (ctx: UndoContext, authorId: string | null | undefined, at: string): boolean => {
+  const age = ctx.now - new Date(at).getTime();
+  if (ctx.role === 'Worker') return authorId === ctx.userId && age <= UNDO_WINDOW_WORKER_MINUTES * 60_000;
+  return !!ctx.role && age <= UNDO_WINDOW_MANAGER_HOURS * 3_600_000;
+};
+
+// Ids of entries that already have an undo, given each entry's reversal link.
+export const reversedIds = (reversalOf: (string | null | undefined)[]): Set<string> =>
+  new Set(reversalOf.filter((id): id is string => !!id));
+
+// The log is newest first, so the first rollover found is the latest one.
+export const lastRolloverAt = (history: ActivityLogEntry[]): string | null =>
+  history.find(entry => entry.event?.source === 'new-day')?.timestamp || null;
+
+// Manual and AI count changes and item archives can be undone, until New Day resets the counters.
+// Receipts can't: their cost layer and credit purchase aren't reversed.
+export const canUndoActivity = (entry: ActivityLogEntry, ctx: UndoContext, reversed: Set<string>, rolledOverAt: string | null): boolean => {
+  const event = entry.event;
+  if (!event?.item_id || entry.reversal_of || reversed.has(entry.id)) return false;
+  if ((event.source !== 'manual' && event.source !== 'ai') || event.receipt) return false;
+  if (rolledOverAt && new Date(rolledOverAt) > new Date(entry.timestamp)) return false;
+  if (!withinUndoWindow(ctx, entry.user_id, entry.timestamp)) return false;
+  if (event.archived) return hasPermission(ctx.role, 'stock.manage');
+  return event.field !== null && event.delta !== null && hasPermission(ctx.role, permissionForField(event.field));
+};
+
+// Movements, balance edits and party archives that recorded what's needed to reverse them.
+export const canUndoBinEntry = (entry: BinHistoryEntry, ctx: UndoContext, reversed: Set<string>): boolean => {
+  const details = entry.details;
+  if (!details?.partyId || entry.reversalOf || reversed.has(entry.id) || entry.id.startsWith('queued-')) return false;
+  if (!withinUndoWindow(ctx, entry.userId, entry.timestamp)) return false;
+  if (entry.type === 'movement') return !!details.binId && hasPermission(ctx.role, 'bins.move');
+  if (entry.type === 'edit') return !!details.binId && details.oldBalance !== undefined && hasPermission(ctx.role, 'bins.manage');
+  if (entry.type === 'party') return hasPermission(ctx.role, 'bins.manage');
+  return false;
+};
@@ -0,0 +1,71 @@
+import { StockItem, StockUnit } from './types';
+
+export const DEFAULT_BASE_UNIT = 'unit';
+
+export const baseUnitOf = (item: Pick<StockItem, 'base_unit'>): string => item.base_unit || DEFAULT_BASE_UNIT;
+
+// "Pallets", "pallet" and "PALLETS" all name the same unit.
+const normalizeUnitName = (name: string): string => {
+  const lower = name.trim().toLowerCase();
+  // "boxes", "bunches", "glasses" drop the "es"; "cases" and "crates" only the "s"
+  if (lower.length > 3 && /(ss|x|z|ch|sh)es$/.test(lower)) return lower.slice(0, -2);
+  if (lower.endsWith('s') && lower.length > 1 && !lower.endsWith('ss')) return lower.slice(0, -1);
+  return lower;
+};
+
+// Base units per one of `unitName`, or null if the item has no such unit. The base unit is 1.
+export const unitFactor = (item: Pick<StockItem, 'base_unit' | 'units'>, unitName?: string | null): number | null => {
+  if (!unitName || !unitName.trim()) return 1;
+  const wanted = normalizeUnitName(unitName);
+  if (normalizeUnitName(baseUnitOf(item)) === wanted) return 1;
+  const unit = (item.units || []).find(u => normalizeUnitName(u.name) === wanted);
+  return unit ? unit.factor : null;
+};
+
+export const pluralizeUnit = (name: string, quantity: number): string => {
+  if (quantity === 1 || name.endsWith('s')) return name;
+  return /(x|z|ch|sh)$/.test(name) ? `${name}es` : `${name}s`;
+};
+
+// One "<number> [unit]" term, optionally after a "+".
+const TERM_PATTERN = /\s*\+?\s*(\d+(?:\.\d+)?|\.\d+)\s*([a-z][a-z-]*)?/iy;
+const UNIT_NAME_PATTERN = /^[a-z][a-z-]*$/i;
+
+// Parses counts like "1500", "2 pallets", "2 pallets + 40" or "1 pallet 3 bundles" into base
+// units. A bare number is already in base units.
+export const parseQuantity = (input: string, item: Pick<StockItem, 'base_unit' | 'units'>): { value: number } | { error: string } => {
+  const text = input.trim();
+  if (!text) return { error: 'Enter a quantity.' };
+
+  let value = 0;
+  let index = 0;
+  while (index < text.length) {
+    TERM_PATTERN.lastIndex = index;
+    const match = TERM_PATTERN.exec(text);
+    if (!match) return { error: `Couldn't read "${text}".` };
+    const [, amount, unitName] = match;
+    const factor = unitFactor(item, unitName);
+    if (factor === null) return { error: `"${unitName}" isn't a unit of this item.` };
+    value += parseFloat(amount) * factor;
+    index = TERM_PATTERN.lastIndex;
+  }
+  return { value };
+};
+
+// Short hint for inputs, e.g. "boxes · pallet = 1500 · bundle = 50".
+export const describeUnits = (item: Pick<StockItem, 'base_unit' | 'units'>): string =>
+  [pluralizeUnit(baseUnitOf(item), 2), ...(item.units || []).map(u => `${u.name} = ${u.factor.toLocaleString()}`)].join(' · ');
+
+// Problems with a unit list being saved, or null if it's fine.
+export const validateUnits = (baseUnit: string, units: StockUnit[]): string | null => {
+  if (!UNIT_NAME_PATTERN.test(baseUnit)) return 'The base unit must be a single word, e.g. "box".';
+  const seen = new Set([normalizeUnitName(baseUnit)]);
+  for (const unit of units) {
+    if (!UNIT_NAME_PATTERN.test(unit.name)) return 'Unit names must be single words, e.g. "pallet".';
+    if (!(unit.factor > 0)) return `Enter how many ${pluralizeUnit(baseUnit, 2)} are in a ${unit.name}.`;
+    const key = normalizeUnitName(unit.name);
+    if (seen.has(key)) return `"${unit.name}" is listed more than once.`;
+    seen.add(key);
+  }
+  return null;
+};
@@ -0,0 +1,92 @@
+import { StockItem, CostLayer, ValuationMethod } from './types';
+
+export const VALUATION_METHOD_LABELS: Record<ValuationMethod, string> = {
+  weighted_average: 'Weighted Average',
+  fifo: 'FIFO',
+};
+
+export const DEFAULT_VALUATION_METHOD: ValuationMethod = 'weighted_average';
+
+export interface LayerOnHand {
+  layer: CostLayer;
+  onHand: number; // Units of this layer still in stock, taking oldest-first usage
+}
+
+export interface ItemValuation {
+  unitCost: number; // Value per unit on hand under the chosen method
+  value: number;
+  layersOnHand: LayerOnHand[]; // Newest first
+  unlayered: number; // On-hand units not covered by any layer (e.g. opening stock edited up by hand)
+}
+
+const formatRand = (value: number): string => `R${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Layers per item, oldest first.
+export const groupLayersByItem = (layers: CostLayer[]): Map<string, CostLayer[]> => {
+  const grouped = new Map<string, CostLayer[]>();
+  layers.forEach(layer => grouped.set(layer.stock_item_id, [...(grouped.get(layer.stock_item_id) || []), layer]));
+  grouped.forEach(itemLayers => itemLayers.sort((a, b) => a.received_at.localeCompare(b.received_at)));
+  return grouped;
+};
+
+// Usage takes the oldest stock first, so what's on hand is the newest layers. Under FIFO those
+// layers are valued at their own cost, with any uncovered units at the oldest layer's cost;
+// under weighted average everything on hand is at the latest average. Items with no layers yet
+// fall back to their price.
+export const valueStockItem = (item: StockItem, remaining: number, layers: CostLayer[], method: ValuationMethod): ItemValuation => {
+  const onHand = Math.max(0, remaining);
+  if (layers.length === 0) return { unitCost: item.price, value: onHand * item.price, layersOnHand: [], unlayered: onHand };
+
+  const layersOnHand: LayerOnHand[] = [];
+  let left = onHand;
+  for (let i = layers.length - 1; i >= 0 && left > 0; i--) {
+    const take = Math.min(layers[i].quantity, left);
+    layersOnHand.push({ layer: layers[i], onHand: take });
+    left -= take;
+  }
+
+  if (method === 'weighted_average') {
+    const unitCost = layers[layers.length - 1].average_cost_after;
+    return { unitCost, value: onHand * unitCost, layersOnHand, unlayered: left };
+  }
+
+  const value = layersOnHand.reduce((sum, { layer, onHand: units }) => sum + units * layer.unit_cost, 0) + left * layers[0].unit_cost;
+  return { unitCost: onHand > 0 ? value / onHand : layers[layers.length - 1].unit_cost, value, layersOnHand, unlayered: left };
+};
+
+export interface ValuationReportRow {
+  item: StockItem;
+  remaining: number;
+  valuation: ItemValuation;
+}
+
+export const printValuationReport = (teamName: string, method: ValuationMethod, rows: ValuationReportRow[]) => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return;
+  const total = rows.reduce((sum, row) => sum + row.valuation.value, 0);
+  const title = `Stock Valuation: ${escapeHtml(teamName)}`;
+
+  const reportHtml = `
+    <html><head><title>${title}</title>
+    <style>body{font-family:sans-serif;padding:20px} table{width:100%;border-collapse:collapse;margin-bottom:20px} th,td{border:1px solid #ddd;padding:8px;text-align:left} th{background-color:#f2f2f2} td.num,th.num{text-align:right} tr.layer td{color:#555;font-size:0.9em}</style>
+    </head><body>
+    <h1>${title}</h1>
+    <p><strong>Method:</strong> ${VALUATION_METHOD_LABELS[method]} &middot; <strong>As at:</strong> ${new Date().toLocaleString()}</p>
+    <table><thead><tr><th>Item / Received</th><th class="num">On Hand</th><th class="num">Unit Cost</th><th class="num">Value</th></tr></thead><tbody>
+      ${rows.map(({ item, remaining, valuation }) => `
+        <tr><th>${escapeHtml(item.name)}</th><th class="num">${remaining.toLocaleString()}</th><th class="num">${formatRand(valuation.unitCost)}</th><th class="num">${formatRand(valuation.value)}</th></tr>
+        ${valuation.layersOnHand.map(({ layer, onHand }) => `
+          <tr class="layer"><td>${new Date(layer.received_at).toLocaleDateString()}${layer.source === 'opening' ? ' (opening stock)' : ''}</td><td class="num">${onHand.toLocaleString()} of ${layer.quantity.toLocaleString()}</td><td class="num">${formatRand(layer.unit_cost)}</td><td class="num">${formatRand(onHand * layer.unit_cost)}</td></tr>
+        `).join('')}
+        ${valuation.unlayered > 0 && valuation.layersOnHand.length > 0 ? `<tr class="layer"><td>Not matched to a receipt</td><td class="num">${valuation.unlayered.toLocaleString()}</td><td></td><td></td></tr>` : ''}
+      `).join('')}
+      <tr><th colspan="3">Total</th><th class="num">${formatRand(total)}</th></tr>
+    </tbody></table>
+    </body></html>`;
+  printWindow.document.write(reportHtml);
+  printWindow.document.close();
+  printWindow.print();
+};
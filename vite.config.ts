@@ -28,6 +28,7 @@ export default defineConfig(({ mode }) => {
               if (id.includes('@supabase')) return 'vendor.supabase';
               if (id.includes('@google/genai')) return 'vendor.genai';
               if (id.includes('lucide-react')) return 'vendor.icons';
+              if (id.includes('write-excel-file')) return 'vendor.xlsx';
               return 'vendor';
             }
           }